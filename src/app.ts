@@ -118,6 +118,8 @@ class App {
         'Authorization',
         'X-Requested-With',
         'Accept',
+        'X-API-Key',
+        'X-Impersonation-Token',
       ],
       optionsSuccessStatus: 200,
     };
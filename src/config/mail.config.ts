@@ -0,0 +1,131 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import fs from 'fs';
+import path from 'path';
+
+export type MailTransportType = 'smtp' | 'file' | 'memory';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+/**
+ * Mail Configuration
+ * Pluggable mail transport selected with MAIL_TRANSPORT:
+ * - smtp: delivers through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+ * - file: writes each message as an .eml file into MAIL_OUTBOX_DIR
+ * - memory: keeps messages in process memory (local testing)
+ */
+class MailConfig {
+  private transporter: Transporter | null = null;
+  private transportType: MailTransportType = 'memory';
+  private outbox: SentMail[] = [];
+
+  /**
+   * Resolve the transport type from environment variables.
+   * Falls back to SMTP when SMTP_HOST is set, otherwise to memory.
+   */
+  private resolveTransportType(): MailTransportType {
+    const configured = process.env['MAIL_TRANSPORT']?.toLowerCase();
+    if (
+      configured === 'smtp' ||
+      configured === 'file' ||
+      configured === 'memory'
+    ) {
+      return configured;
+    }
+    return process.env['SMTP_HOST'] ? 'smtp' : 'memory';
+  }
+
+  /**
+   * Create the nodemailer transporter lazily on first use
+   */
+  private getTransporter(): Transporter {
+    if (this.transporter) {
+      return this.transporter;
+    }
+
+    this.transportType = this.resolveTransportType();
+
+    if (this.transportType === 'smtp') {
+      const host = process.env['SMTP_HOST'];
+      if (!host) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      const port = parseInt(process.env['SMTP_PORT'] || '587', 10);
+      const user = process.env['SMTP_USER'];
+      const pass = process.env['SMTP_PASS'];
+
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: process.env['SMTP_SECURE'] === 'true' || port === 465,
+        ...(user && pass ? { auth: { user, pass } } : {}),
+      });
+    } else if (this.transportType === 'file') {
+      this.transporter = nodemailer.createTransport({
+        streamTransport: true,
+        buffer: true,
+        newline: 'unix',
+      });
+    } else {
+      this.transporter = nodemailer.createTransport({ jsonTransport: true });
+    }
+
+    console.log(`✅ Mail transport initialized (${this.transportType})`);
+    return this.transporter;
+  }
+
+  /**
+   * Sender address used for outgoing mail
+   */
+  private getFromAddress(): string {
+    return process.env['MAIL_FROM'] || 'Fluid Pack <no-reply@fluidpack.local>';
+  }
+
+  /**
+   * Send a message through the configured transport
+   */
+  public async sendMail(message: MailMessage): Promise<void> {
+    const transporter = this.getTransporter();
+    const from = this.getFromAddress();
+    const info = await transporter.sendMail({ from, ...message });
+
+    if (this.transportType === 'file') {
+      const outboxDir = path.resolve(
+        process.env['MAIL_OUTBOX_DIR'] || 'logs/mail',
+      );
+      fs.mkdirSync(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+      fs.writeFileSync(path.join(outboxDir, fileName), info.message as Buffer);
+    }
+
+    if (this.transportType === 'memory') {
+      this.outbox.push({ from, ...message, sentAt: new Date() });
+    }
+  }
+
+  /**
+   * Messages captured by the memory transport
+   */
+  public getOutbox(): SentMail[] {
+    return [...this.outbox];
+  }
+
+  /**
+   * Clear messages captured by the memory transport
+   */
+  public clearOutbox(): void {
+    this.outbox = [];
+  }
+}
+
+// Export singleton instance
+export default new MailConfig();
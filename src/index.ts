@@ -4,6 +4,9 @@ import { networkInterfaces } from 'os';
 import connectDB from './db/index';
 import app from './app';
 import notificationEmitter from './modules/notification/services/notificationEmitter.service';
+import PermissionExpiryService from './modules/admin/permissionConfig/services/permissionExpiry.service';
+import PermissionCacheSyncService from './modules/admin/permissionConfig/services/permissionCacheSync.service';
+import MachineTrashService from './modules/machine/services/machineTrash.service';
 import { ensureUploadDirectories } from './utils/ensureUploadDirs';
 import cloudinaryConfig from './config/cloudinary.config';
 dotenv.config();
@@ -58,6 +61,15 @@ cloudinaryConfig
     // Initialize Socket.IO for real-time notifications
     notificationEmitter.initialize(httpServer);
 
+    // Notify rule creators before time-bounded permission rules expire
+    PermissionExpiryService.start();
+
+    // Pick up permission rule changes made by other instances
+    PermissionCacheSyncService.start();
+
+    // Permanently delete machines past the trash retention period
+    MachineTrashService.start();
+
     const localIP = getLocalIP();
 
     httpServer.listen(PORT, '0.0.0.0', () => {
@@ -7,6 +7,7 @@ export const AuthRole = (requiredRole: string | string[]) => {
   return asyncHandler(
     async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       const token =
+        req.get('X-Impersonation-Token') ||
         req.cookies?.['accessToken'] ||
         req.headers.authorization?.replace('Bearer ', '');
 
@@ -3,26 +3,145 @@ import { Request, Response, NextFunction } from 'express';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 
 import mongoose from 'mongoose';
+import rateLimit from 'express-rate-limit';
 import { asyncHandler } from '../utils/asyncHandler';
 import { User } from '../models/user.model';
+import SessionService from '../modules/user/services/session.service';
+import ApiKeyService from '../modules/user/services/apiKey.service';
+import ImpersonationService from '../modules/user/services/impersonation.service';
+import { IImpersonation } from '../models/impersonation.model';
+import { ActionType } from '../models/permissionConfig.model';
+import { ApiError } from '../utils/ApiError';
+import { isApiKeyScoped } from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
 
 // Extend Express Request to include cookies
 interface AuthenticatedRequest extends Request {
   cookies: { accessToken?: string }; // Define cookies with accessToken
   user?: mongoose.Document;
+  sessionId?: string;
+  apiKey?: { _id: string; scopes: ActionType[]; rateLimitPerMinute: number };
+  impersonation?: { _id: string; adminId: string; readOnly: boolean };
 }
 
+// Requests that do not modify data; the only ones allowed while a
+// read-only impersonation is active
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Attach an impersonation to the request: flag it in JSON responses,
+ * block writes for read-only impersonations and audit the request.
+ * Returns false when the request was rejected.
+ */
+const applyImpersonation = (
+  req: AuthenticatedRequest,
+  res: Response,
+  impersonation: IImpersonation,
+): boolean => {
+  const blocked =
+    impersonation.readOnly && !READ_ONLY_METHODS.includes(req.method);
+
+  req.impersonation = {
+    _id: (impersonation._id as mongoose.Types.ObjectId).toString(),
+    adminId: impersonation.admin.toString(),
+    readOnly: impersonation.readOnly,
+  };
+
+  const flag = {
+    impersonatedBy: req.impersonation.adminId,
+    impersonatedUser: impersonation.targetUser.toString(),
+    readOnly: impersonation.readOnly,
+    expiresAt: impersonation.expiresAt,
+  };
+  const originalJson = res.json.bind(res);
+  res.json = (body?: unknown) =>
+    originalJson(
+      body && typeof body === 'object' && !Array.isArray(body)
+        ? { ...body, impersonation: flag }
+        : body,
+    );
+
+  res.on('finish', () => {
+    ImpersonationService.recordRequest({
+      impersonation,
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      blocked,
+      ipAddress: req.ip,
+    }).catch((error) =>
+      console.error('Error recording impersonated request:', error),
+    );
+  });
+
+  if (blocked) {
+    res.status(403).json({ message: 'Forbidden: Impersonation is read-only' });
+    return false;
+  }
+  return true;
+};
+
+// Per-key rate limit for API key requests, counted by key instead of IP
+const apiKeyRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req) =>
+    (req as AuthenticatedRequest).apiKey?.rateLimitPerMinute || 60,
+  keyGenerator: (req) => `api-key:${(req as AuthenticatedRequest).apiKey?._id}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too Many Requests: API key rate limit exceeded' },
+});
+
 export const verifyJWT = asyncHandler(
   async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction,
   ): Promise<void> => {
-    // Get token from cookies or headers
+    // Get token from cookies or headers. An impersonation token takes
+    // precedence so an admin can act as a user without losing their cookie.
     const token =
+      req.get('X-Impersonation-Token') ||
       req.cookies?.accessToken ||
       req.get('Authorization')?.replace('Bearer ', '');
 
+    // Integrations authenticate with a service account API key instead.
+    // Keys are denied by default: only routes that check the key's scopes
+    // (checkPermission, requirePermission, requireApiKeyScope) accept them.
+    const apiKeyHeader = req.get('X-API-Key');
+    if (!token && apiKeyHeader) {
+      const routeStack =
+        (req.route as { stack?: { handle: unknown }[] } | undefined)?.stack ||
+        [];
+      if (!routeStack.some((layer) => isApiKeyScoped(layer.handle))) {
+        res
+          .status(403)
+          .json({ message: 'Forbidden: API keys are not accepted here' });
+        return;
+      }
+
+      try {
+        const { apiKey, user } = await ApiKeyService.authenticate(
+          apiKeyHeader,
+          req.ip,
+        );
+
+        req.user = user;
+        req.apiKey = {
+          _id: (apiKey._id as mongoose.Types.ObjectId).toString(),
+          scopes: apiKey.scopes,
+          rateLimitPerMinute: apiKey.rateLimitPerMinute,
+        };
+      } catch (error) {
+        if (error instanceof ApiError) {
+          res.status(error.statusCode).json({ message: error.message });
+          return;
+        }
+        throw error;
+      }
+      await apiKeyRateLimiter(req, res, next);
+      return;
+    }
+
     if (!token) {
       res.status(401).json({ message: 'Unauthorized: No token provided' });
       return;
@@ -47,16 +166,48 @@ export const verifyJWT = asyncHandler(
         return;
       }
 
+      // Impersonation tokens stop working once ended or expired
+      const impersonationId = decodedToken['imp'];
+      let impersonation: IImpersonation | null = null;
+      if (impersonationId) {
+        impersonation =
+          await ImpersonationService.getActiveImpersonation(impersonationId);
+        if (!impersonation) {
+          res
+            .status(401)
+            .json({ message: 'Unauthorized: Impersonation has ended' });
+          return;
+        }
+      }
+
       // Find user by ID from token payload
-      const user = await User.findById(decodedToken['_id']).select(
-        '-password -refreshToken',
-      );
+      const user = await User.findById(decodedToken['_id']).select('-password');
       if (!user) {
         res.status(401).json({ message: 'Unauthorized: Invalid Access Token' });
         return;
       }
 
+      if (!user.isAccountActive()) {
+        res
+          .status(403)
+          .json({ message: 'Forbidden: Account is suspended or deactivated' });
+        return;
+      }
+
+      // Tokens bound to a session stop working once it is revoked
+      const sessionId = decodedToken['sid'];
+      if (sessionId && !(await SessionService.isSessionActive(sessionId))) {
+        res.status(401).json({ message: 'Unauthorized: Session revoked' });
+        return;
+      }
+
       req.user = user;
+      if (sessionId) {
+        req.sessionId = sessionId;
+      }
+      if (impersonation && !applyImpersonation(req, res, impersonation)) {
+        return;
+      }
 
       next(); // Proceed to next middleware
     } catch {
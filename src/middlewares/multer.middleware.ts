@@ -24,6 +24,10 @@ const MAX_QC_APPROVAL_SIZE = parseInt(
   process.env['MAX_QC_APPROVAL_SIZE'] || '20971520',
   10,
 ); // 20MB default
+const MAX_IMPORT_FILE_SIZE = parseInt(
+  process.env['MAX_IMPORT_FILE_SIZE'] || '5242880',
+  10,
+); // 5MB default
 
 // Extended Multer File interface to include Cloudinary result
 interface CloudinaryFile extends Express.Multer.File {
@@ -1025,7 +1029,10 @@ const handleFileUploadError = (
   // Handle other file-related errors
   if (
     typeof (error as { message?: string }).message === 'string' &&
-    (error as { message?: string }).message!.includes('Only image files')
+    ((error as { message?: string }).message!.includes('Only image files') ||
+      (error as { message?: string }).message!.includes(
+        'Only XLSX and CSV files',
+      ))
   ) {
     res.status(400).json({
       success: false,
@@ -1039,6 +1046,37 @@ const handleFileUploadError = (
   next(error as Error);
 };
 
+// Error handling middleware for steps after an upload (e.g. a permission
+// check): remove the uploaded files from Cloudinary, then pass the error on
+const cleanupUploadedFiles = (
+  error: unknown,
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  if (req.files) {
+    const files = Array.isArray(req.files)
+      ? req.files
+      : Object.values(req.files).flat();
+
+    files.forEach((file) => {
+      const cloudinary = (file as CloudinaryFile).cloudinary;
+      if (cloudinary?.public_id) {
+        cloudinaryConfig
+          .deleteFile(
+            cloudinary.public_id,
+            cloudinary.resource_type === 'raw' ? 'raw' : 'image',
+          )
+          .catch((cleanupError) =>
+            console.error('Error cleaning up file on error:', cleanupError),
+          );
+      }
+    });
+  }
+
+  next(error);
+};
+
 // Generic upload for QC approvals
 // Use 'raw' for documents to prevent Cloudinary from treating them as images
 const upload = multer({
@@ -1068,6 +1106,25 @@ const upload = multer({
   },
 });
 
+// Spreadsheet upload for bulk imports (kept in memory and parsed with ExcelJS)
+const uploadImportFile = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: function (_req: Request, file, cb) {
+    const allowedExtensions = ['.xlsx', '.csv'];
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedExtensions.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only XLSX and CSV files are allowed for import'));
+    }
+  },
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE, // Configurable from env
+    files: 1,
+  },
+});
+
 export {
   uploadMachineImages,
   uploadMachineImagesUpdate,
@@ -1085,6 +1142,8 @@ export {
   cleanupMachineDirectory,
   cleanupQAEntryDirectory,
   handleFileUploadError,
+  cleanupUploadedFiles,
   upload,
+  uploadImportFile,
   extractCloudinaryUrls,
 };
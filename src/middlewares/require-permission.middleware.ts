@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { ActionType } from '../models/permissionConfig.model';
+import { ApiError } from '../utils/ApiError';
+import {
+  checkPermission,
+  enforcesApiKeyScopes,
+  PermissionContextResolver,
+} from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+
+interface RequestWithPermissionInfo extends Request {
+  permissionInfo?: { requiresApproval?: boolean; reason?: string | undefined };
+}
+
+/**
+ * Require one action, decided by the PermissionConfig rules (admins always
+ * pass). Use after verifyJWT. For routes without an approval workflow: a
+ * rule that only allows the action with approval is treated as a denial.
+ */
+export const requirePermission = (
+  action: ActionType,
+  resolveContext?: PermissionContextResolver,
+) => {
+  const check = checkPermission([action], resolveContext);
+
+  return enforcesApiKeyScopes(
+    (req: Request, res: Response, next: NextFunction): void => {
+      const afterCheck = ((error?: unknown) => {
+        if (error) return next(error);
+
+        const permissionInfo = (req as RequestWithPermissionInfo)
+          .permissionInfo;
+        if (permissionInfo?.requiresApproval) {
+          return next(
+            new ApiError(
+              'PERMISSION_CHECK',
+              StatusCodes.FORBIDDEN,
+              'APPROVAL_NOT_SUPPORTED',
+              `Action '${action}' requires approval, which is not available for this operation. ${permissionInfo.reason || ''}`.trim(),
+            ),
+          );
+        }
+        next();
+      }) as NextFunction;
+
+      void check(req, res, afterCheck);
+    },
+  );
+};
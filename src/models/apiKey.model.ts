@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ActionType } from './permissionConfig.model';
+
+/**
+ * IApiKey interface defines a credential issued to a service account.
+ * Only a SHA-256 hash of the key is stored; the plain key is shown once.
+ */
+export interface IApiKey extends Document {
+  name: string;
+  serviceAccount: mongoose.Types.ObjectId; // User with isServiceAccount
+  keyPrefix: string; // First characters of the key, for identification
+  keyHash: string;
+  scopes: ActionType[]; // Actions the key may perform
+  rateLimitPerMinute: number;
+  expiresAt?: Date | undefined;
+  lastUsedAt?: Date | undefined;
+  lastUsedIp?: string | undefined;
+  usageCount: number;
+  revokedAt?: Date | undefined;
+  revokedBy?: mongoose.Types.ObjectId | undefined;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * API Key Schema
+ */
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    serviceAccount: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    keyPrefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: Object.values(ActionType),
+      default: [],
+    },
+    rateLimitPerMinute: {
+      type: Number,
+      default: 60,
+      min: 1,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+      trim: true,
+    },
+    usageCount: {
+      type: Number,
+      default: 0,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
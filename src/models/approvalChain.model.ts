@@ -0,0 +1,104 @@
+import mongoose, { Schema } from 'mongoose';
+
+/**
+ * One stage of an approval chain, as defined on a permission rule.
+ * Any one of the approver roles approves the stage, unless requireAll is
+ * set: then each role must approve (parallel approvers).
+ */
+export interface IApprovalStage {
+  name: string;
+  approverRoles: mongoose.Types.ObjectId[];
+  requireAll?: boolean;
+}
+
+/**
+ * Status of a stage on an approval request
+ */
+export enum ApprovalStageStatus {
+  WAITING = 'WAITING', // Earlier stages not yet approved
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export interface IApprovalStageDecision {
+  approver: mongoose.Types.ObjectId;
+  onBehalfOf?: mongoose.Types.ObjectId; // Delegator, when decided by a delegate
+  role?: mongoose.Types.ObjectId | null; // Role the approver decided for
+  approved: boolean;
+  notes?: string;
+  decidedAt: Date;
+}
+
+/**
+ * A stage of an approval request with the decisions made on it
+ */
+export interface IApprovalStageProgress extends IApprovalStage {
+  status: ApprovalStageStatus;
+  decisions: IApprovalStageDecision[];
+  completedAt?: Date;
+}
+
+/**
+ * Stage definition schema (permission rules)
+ */
+export const approvalStageSchema = new Schema<IApprovalStage>(
+  {
+    name: { type: String, required: true, trim: true },
+    approverRoles: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Role',
+      },
+    ],
+    requireAll: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+/**
+ * Stage tracker schema (approval requests)
+ */
+export const approvalStageProgressSchema = new Schema<IApprovalStageProgress>(
+  {
+    name: { type: String, required: true, trim: true },
+    approverRoles: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Role',
+      },
+    ],
+    requireAll: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: Object.values(ApprovalStageStatus),
+      default: ApprovalStageStatus.WAITING,
+    },
+    decisions: [
+      new Schema<IApprovalStageDecision>(
+        {
+          approver: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+          },
+          onBehalfOf: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+          },
+          role: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Role',
+            default: null,
+          },
+          approved: { type: Boolean, required: true },
+          notes: { type: String, trim: true },
+          decidedAt: { type: Date, default: Date.now },
+        },
+        { _id: false },
+      ),
+    ],
+    completedAt: { type: Date },
+  },
+  { _id: false },
+);
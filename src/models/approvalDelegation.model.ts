@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Approvals that can be delegated
+ */
+export enum DelegationScope {
+  MACHINE_APPROVAL = 'MACHINE_APPROVAL',
+  SO_APPROVAL = 'SO_APPROVAL',
+}
+
+/**
+ * IApprovalDelegation interface defines a period during which a delegate
+ * may see and decide the delegator's pending approvals (e.g. during leave)
+ */
+export interface IApprovalDelegation extends Document {
+  delegator: mongoose.Types.ObjectId; // Approver who is away
+  delegate: mongoose.Types.ObjectId; // User deciding on their behalf
+  startDate: Date;
+  endDate: Date;
+  scopes: DelegationScope[]; // Empty: all approvals
+  reason?: string;
+  revokedAt?: Date | undefined;
+  revokedBy?: mongoose.Types.ObjectId | undefined;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Approval Delegation Schema
+ */
+const approvalDelegationSchema = new Schema<IApprovalDelegation>(
+  {
+    delegator: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    delegate: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+    scopes: {
+      type: [String],
+      enum: Object.values(DelegationScope),
+      default: [],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Active delegations of a delegate
+approvalDelegationSchema.index({ delegate: 1, startDate: 1, endDate: 1 });
+
+export const ApprovalDelegation = mongoose.model<IApprovalDelegation>(
+  'ApprovalDelegation',
+  approvalDelegationSchema,
+);
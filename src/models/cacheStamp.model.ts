@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * ICacheStamp interface defines a shared version counter for an in-memory
+ * cache. Every change bumps the version; instances holding an older
+ * version drop their cached data.
+ */
+export interface ICacheStamp extends Document {
+  key: string; // Name of the cache, e.g. 'permission-config'
+  version: number;
+  updatedAt?: Date;
+}
+
+/**
+ * Cache Stamp Schema
+ */
+const cacheStampSchema = new Schema<ICacheStamp>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  },
+);
+
+export const CacheStamp = mongoose.model<ICacheStamp>(
+  'CacheStamp',
+  cacheStampSchema,
+);
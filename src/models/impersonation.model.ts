@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * IImpersonation interface defines an admin "view as user" session.
+ * The admin receives a short-lived access token acting as the target user.
+ */
+export interface IImpersonation extends Document {
+  admin: mongoose.Types.ObjectId;
+  targetUser: mongoose.Types.ObjectId;
+  reason: string;
+  readOnly: boolean; // Block non-GET requests made with the token
+  expiresAt: Date;
+  endedAt?: Date | undefined;
+  endedBy?: mongoose.Types.ObjectId | undefined;
+  requestCount: number;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Impersonation Schema
+ */
+const impersonationSchema = new Schema<IImpersonation>(
+  {
+    admin: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    targetUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    readOnly: {
+      type: Boolean,
+      default: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    endedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    requestCount: {
+      type: Number,
+      default: 0,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+impersonationSchema.index({ createdAt: -1 });
+
+export const Impersonation = mongoose.model<IImpersonation>(
+  'Impersonation',
+  impersonationSchema,
+);
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * IImpersonationAuditLog interface defines one request made with an
+ * impersonation token
+ */
+export interface IImpersonationAuditLog extends Document {
+  impersonation: mongoose.Types.ObjectId;
+  admin: mongoose.Types.ObjectId;
+  targetUser: mongoose.Types.ObjectId;
+  method: string;
+  path: string;
+  statusCode: number;
+  blocked: boolean; // Rejected because the impersonation is read-only
+  ipAddress?: string | undefined;
+  createdAt?: Date;
+}
+
+/**
+ * Impersonation Audit Log Schema
+ */
+const impersonationAuditLogSchema = new Schema<IImpersonationAuditLog>(
+  {
+    impersonation: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Impersonation',
+      required: true,
+    },
+    admin: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    targetUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    blocked: {
+      type: Boolean,
+      default: false,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+impersonationAuditLogSchema.index({ impersonation: 1, createdAt: 1 });
+impersonationAuditLogSchema.index({ admin: 1, createdAt: -1 });
+
+export const ImpersonationAuditLog = mongoose.model<IImpersonationAuditLog>(
+  'ImpersonationAuditLog',
+  impersonationAuditLogSchema,
+);
@@ -0,0 +1,114 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Invitation status enum
+ */
+export enum InvitationStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REVOKED = 'REVOKED',
+}
+
+/**
+ * IInvitation interface defines an admin-issued invitation.
+ * The invitee accepts with the emailed token and is created already
+ * approved with the pre-assigned role and department.
+ */
+export interface IInvitation extends Document {
+  email: string;
+  role: mongoose.Types.ObjectId;
+  department: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 hash of the invitation token
+  status: InvitationStatus;
+  expiresAt: Date;
+  invitedBy: mongoose.Types.ObjectId;
+  lastSentAt: Date;
+  sendCount: number;
+  acceptedAt?: Date;
+  acceptedUser?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Invitation Schema
+ */
+const invitationSchema = new Schema<IInvitation>(
+  {
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    role: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Role',
+      required: true,
+    },
+    department: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Department',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+      index: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    lastSentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    sendCount: {
+      type: Number,
+      default: 1,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * Indexes for efficient queries
+ */
+invitationSchema.index({ email: 1, status: 1 });
+invitationSchema.index({ tokenHash: 1 });
+invitationSchema.index({ status: 1, expiresAt: 1 });
+
+export const Invitation = mongoose.model<IInvitation>(
+  'Invitation',
+  invitationSchema,
+);
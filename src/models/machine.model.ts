@@ -10,6 +10,80 @@ export interface IDocument {
   uploaded_at: Date;
 }
 
+/**
+ * Lifecycle states of a machine, from entry to end of service
+ */
+export enum MachineLifecycleState {
+  DRAFT = 'DRAFT',
+  PENDING_APPROVAL = 'PENDING_APPROVAL',
+  APPROVED = 'APPROVED',
+  IN_PRODUCTION = 'IN_PRODUCTION',
+  QC_PASSED = 'QC_PASSED',
+  READY_TO_DISPATCH = 'READY_TO_DISPATCH',
+  DISPATCHED = 'DISPATCHED',
+  INSTALLED = 'INSTALLED',
+  DECOMMISSIONED = 'DECOMMISSIONED',
+}
+
+/**
+ * States a machine can move to from each state
+ */
+export const MACHINE_LIFECYCLE_TRANSITIONS: Record<
+  MachineLifecycleState,
+  MachineLifecycleState[]
+> = {
+  [MachineLifecycleState.DRAFT]: [
+    MachineLifecycleState.PENDING_APPROVAL,
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.PENDING_APPROVAL]: [
+    MachineLifecycleState.APPROVED,
+    MachineLifecycleState.DRAFT, // Sent back for changes
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.APPROVED]: [
+    MachineLifecycleState.IN_PRODUCTION,
+    MachineLifecycleState.PENDING_APPROVAL, // Approval withdrawn
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.IN_PRODUCTION]: [
+    MachineLifecycleState.QC_PASSED,
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.QC_PASSED]: [
+    MachineLifecycleState.READY_TO_DISPATCH,
+    MachineLifecycleState.IN_PRODUCTION, // Rework
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.READY_TO_DISPATCH]: [
+    MachineLifecycleState.DISPATCHED,
+    MachineLifecycleState.DECOMMISSIONED,
+  ],
+  [MachineLifecycleState.DISPATCHED]: [MachineLifecycleState.INSTALLED],
+  [MachineLifecycleState.INSTALLED]: [MachineLifecycleState.DECOMMISSIONED],
+  [MachineLifecycleState.DECOMMISSIONED]: [],
+};
+
+/**
+ * A change of lifecycle state; from is null for the initial state
+ */
+export interface IMachineLifecycleTransition {
+  from: MachineLifecycleState | null;
+  to: MachineLifecycleState;
+  changed_by?: mongoose.Types.ObjectId | null;
+  changed_at: Date;
+  notes?: string;
+}
+
+/**
+ * Records closed when a machine was deleted, reopened if it is restored
+ */
+export interface IMachineDeletionClosures {
+  qc_entries: mongoose.Types.ObjectId[]; // Deactivated QC entries
+  machine_approvals: mongoose.Types.ObjectId[]; // Cancelled pending approvals
+  qc_approvals: mongoose.Types.ObjectId[]; // Cancelled pending QC approvals
+}
+
 /**
  * IMachine interface defines the structure of a Machine document
  */
@@ -22,8 +96,12 @@ export interface IMachine extends Document {
   documents: IDocument[]; // Array of document objects with names and paths
   location: string; // City-Country or location
   dispatch_date?: Date; // Dispatch date for the machine
+  machine_value?: number | null; // Entered value; falls back to the SO order value
+  lifecycle_state: MachineLifecycleState;
+  lifecycle_history: IMachineLifecycleTransition[];
   updatedBy?: mongoose.Types.ObjectId;
   deletedAt?: Date | null;
+  deletion_closures?: IMachineDeletionClosures | null;
   metadata: Record<string, unknown>;
   createdAt?: Date;
   updatedAt?: Date;
@@ -92,6 +170,45 @@ const machineSchema = new Schema<IMachine>(
       type: Date,
       default: null,
     },
+    machine_value: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
+    lifecycle_state: {
+      type: String,
+      enum: Object.values(MachineLifecycleState),
+      default: MachineLifecycleState.PENDING_APPROVAL,
+    },
+    lifecycle_history: [
+      {
+        _id: false,
+        from: {
+          type: String,
+          enum: [...Object.values(MachineLifecycleState), null],
+          default: null,
+        },
+        to: {
+          type: String,
+          enum: Object.values(MachineLifecycleState),
+          required: true,
+        },
+        changed_by: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+          default: null,
+        },
+        changed_at: {
+          type: Date,
+          default: Date.now,
+        },
+        notes: {
+          type: String,
+          trim: true,
+          maxlength: 500,
+        },
+      },
+    ],
     updatedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -100,6 +217,23 @@ const machineSchema = new Schema<IMachine>(
       type: Date,
       default: null,
     },
+    deletion_closures: {
+      type: new Schema<IMachineDeletionClosures>(
+        {
+          qc_entries: [
+            { type: mongoose.Schema.Types.ObjectId, ref: 'QAMachineEntry' },
+          ],
+          machine_approvals: [
+            { type: mongoose.Schema.Types.ObjectId, ref: 'MachineApproval' },
+          ],
+          qc_approvals: [
+            { type: mongoose.Schema.Types.ObjectId, ref: 'QCApproval' },
+          ],
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
     metadata: {
       type: Schema.Types.Mixed,
       default: {},
@@ -130,6 +264,11 @@ machineSchema.index({ machine_sequence: 1 });
  */
 machineSchema.index({ is_approved: 1 });
 
+/**
+ * Index for lifecycle state queries
+ */
+machineSchema.index({ lifecycle_state: 1 });
+
 /**
  * Index for creator-based queries
  */
@@ -0,0 +1,128 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum MachineRevisionOperation {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  APPROVAL = 'APPROVAL',
+  LIFECYCLE = 'LIFECYCLE',
+  SEQUENCE = 'SEQUENCE',
+  OWNERSHIP_TRANSFER = 'OWNERSHIP_TRANSFER',
+  DELETE = 'DELETE',
+  RESTORE = 'RESTORE',
+}
+
+/**
+ * A file added to or removed from a machine in a revision
+ */
+export interface IMachineRevisionFile {
+  kind: 'image' | 'document';
+  file_path: string;
+  name?: string;
+}
+
+/**
+ * IMachineRevision interface defines one change to a machine. Revisions
+ * are append-only: they are never updated or deleted.
+ */
+export interface IMachineRevision extends Document {
+  machine: mongoose.Types.ObjectId;
+  revision: number; // 1-based, per machine
+  operation: MachineRevisionOperation;
+  before: Record<string, unknown> | null; // null for the first revision
+  after: Record<string, unknown>;
+  changedFields: string[];
+  addedFiles: IMachineRevisionFile[];
+  removedFiles: IMachineRevisionFile[];
+  changedBy?: mongoose.Types.ObjectId | null; // null for system changes
+  createdAt?: Date;
+}
+
+const revisionFileSchema = new Schema<IMachineRevisionFile>(
+  {
+    kind: {
+      type: String,
+      enum: ['image', 'document'],
+      required: true,
+    },
+    file_path: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * Machine Revision Schema
+ */
+const machineRevisionSchema = new Schema<IMachineRevision>(
+  {
+    machine: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Machine',
+      required: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    operation: {
+      type: String,
+      enum: Object.values(MachineRevisionOperation),
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    changedFields: [
+      {
+        type: String,
+      },
+    ],
+    addedFiles: [revisionFileSchema],
+    removedFiles: [revisionFileSchema],
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  },
+);
+
+machineRevisionSchema.index({ machine: 1, revision: -1 }, { unique: true });
+
+/**
+ * Keep the history append-only
+ */
+machineRevisionSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  function (next) {
+    next(new Error('Machine revisions cannot be modified'));
+  },
+);
+
+export const MachineRevision = mongoose.model<IMachineRevision>(
+  'MachineRevision',
+  machineRevisionSchema,
+);
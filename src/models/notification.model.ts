@@ -10,6 +10,11 @@ export enum NotificationType {
   MACHINE_EDIT_REQUESTED = 'MACHINE_EDIT_REQUESTED',
   MACHINE_DELETE_REQUESTED = 'MACHINE_DELETE_REQUESTED',
   APPROVAL_REQUESTED = 'APPROVAL_REQUESTED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  PERMISSION_RULE_EXPIRING = 'PERMISSION_RULE_EXPIRING',
+  BROADCAST = 'BROADCAST',
+  APPROVAL_DELEGATED = 'APPROVAL_DELEGATED',
+  APPROVAL_DECIDED_ON_BEHALF = 'APPROVAL_DECIDED_ON_BEHALF',
 }
 
 /**
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IApprovalStage, approvalStageSchema } from './approvalChain.model';
 
 /**
  * Permission types for different actions
@@ -7,9 +8,19 @@ export enum ActionType {
   CREATE_MACHINE = 'CREATE_MACHINE',
   EDIT_MACHINE = 'EDIT_MACHINE',
   DELETE_MACHINE = 'DELETE_MACHINE',
+  RESTORE_MACHINE = 'RESTORE_MACHINE',
   APPROVE_MACHINE = 'APPROVE_MACHINE',
   VIEW_MACHINE = 'VIEW_MACHINE',
   UPDATE_MACHINE_SEQUENCE = 'UPDATE_MACHINE_SEQUENCE',
+  IMPORT_MACHINES = 'IMPORT_MACHINES', // Bulk create/update from a spreadsheet
+  // Machine lifecycle transitions (approval uses APPROVE_MACHINE)
+  SUBMIT_MACHINE = 'SUBMIT_MACHINE',
+  START_MACHINE_PRODUCTION = 'START_MACHINE_PRODUCTION',
+  PASS_MACHINE_QC = 'PASS_MACHINE_QC',
+  MARK_MACHINE_READY_TO_DISPATCH = 'MARK_MACHINE_READY_TO_DISPATCH',
+  DISPATCH_MACHINE = 'DISPATCH_MACHINE',
+  INSTALL_MACHINE = 'INSTALL_MACHINE',
+  DECOMMISSION_MACHINE = 'DECOMMISSION_MACHINE',
   // QC document entry actions
   CREATE_QC_ENTRY = 'CREATE_QC_ENTRY',
   EDIT_QC_ENTRY = 'EDIT_QC_ENTRY',
@@ -28,6 +39,33 @@ export enum ActionType {
   UPDATE_SO = 'UPDATE_SO',
   DELETE_SO = 'DELETE_SO',
   VIEW_SO = 'VIEW_SO',
+  // Category and sequence configuration actions
+  CREATE_CATEGORY = 'CREATE_CATEGORY',
+  EDIT_CATEGORY = 'EDIT_CATEGORY',
+  DELETE_CATEGORY = 'DELETE_CATEGORY',
+  VIEW_SEQUENCE_CONFIG = 'VIEW_SEQUENCE_CONFIG',
+  CREATE_SEQUENCE_CONFIG = 'CREATE_SEQUENCE_CONFIG',
+  EDIT_SEQUENCE_CONFIG = 'EDIT_SEQUENCE_CONFIG',
+  DELETE_SEQUENCE_CONFIG = 'DELETE_SEQUENCE_CONFIG',
+  RESET_SEQUENCE = 'RESET_SEQUENCE',
+  // User management actions
+  CREATE_USER = 'CREATE_USER',
+  VIEW_USER = 'VIEW_USER',
+  EDIT_USER = 'EDIT_USER',
+  APPROVE_USER = 'APPROVE_USER',
+  MANAGE_USER_ACCOUNT = 'MANAGE_USER_ACCOUNT', // Suspend, unlock, 2FA reset, ownership transfer
+  DELETE_USER = 'DELETE_USER',
+  // Department and role actions
+  CREATE_DEPARTMENT = 'CREATE_DEPARTMENT',
+  EDIT_DEPARTMENT = 'EDIT_DEPARTMENT',
+  DELETE_DEPARTMENT = 'DELETE_DEPARTMENT',
+  CREATE_ROLE = 'CREATE_ROLE',
+  EDIT_ROLE = 'EDIT_ROLE',
+  DELETE_ROLE = 'DELETE_ROLE',
+  // Export actions
+  EXPORT_DATA = 'EXPORT_DATA',
+  // Notification actions
+  BROADCAST_NOTIFICATION = 'BROADCAST_NOTIFICATION',
 }
 
 /**
@@ -39,6 +77,18 @@ export enum PermissionLevel {
   DENIED = 'DENIED', // Not allowed
 }
 
+/**
+ * Recurring window in which a rule applies, e.g. weekdays 08:00-18:00.
+ * Days are 0 (Sunday) to 6 (Saturday); times are HH:mm in the timezone.
+ * A window whose end is before its start runs past midnight.
+ */
+export interface IPermissionSchedule {
+  daysOfWeek?: number[];
+  startTime?: string;
+  endTime?: string;
+  timezone?: string;
+}
+
 /**
  * IPermissionConfig interface defines the structure of permission configuration
  */
@@ -60,11 +110,18 @@ export interface IPermissionConfig extends Document {
 
   // Additional metadata for approval workflow
   approverRoles?: mongoose.Types.ObjectId[]; // Who can approve this action
+  approvalChain?: IApprovalStage[]; // Sequential stages; replaces approverRoles
   maxValue?: number; // For value-based rules (e.g., machine cost)
 
   isActive: boolean;
   priority: number; // Higher number = higher priority
 
+  // Time constraints; a rule outside its window is ignored
+  validFrom?: Date;
+  validUntil?: Date;
+  schedule?: IPermissionSchedule;
+  expiryNotifiedAt?: Date; // When the creator was told the rule expires
+
   createdBy: mongoose.Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
@@ -125,6 +182,10 @@ const permissionConfigSchema = new Schema<IPermissionConfig>(
         ref: 'Role',
       },
     ],
+    approvalChain: {
+      type: [approvalStageSchema],
+      default: undefined,
+    },
     maxValue: {
       type: Number,
     },
@@ -136,6 +197,26 @@ const permissionConfigSchema = new Schema<IPermissionConfig>(
       type: Number,
       default: 0,
     },
+    validFrom: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+    },
+    schedule: {
+      type: new Schema<IPermissionSchedule>(
+        {
+          daysOfWeek: [{ type: Number, min: 0, max: 6 }],
+          startTime: { type: String },
+          endTime: { type: String },
+          timezone: { type: String },
+        },
+        { _id: false },
+      ),
+    },
+    expiryNotifiedAt: {
+      type: Date,
+    },
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -153,6 +234,7 @@ const permissionConfigSchema = new Schema<IPermissionConfig>(
 permissionConfigSchema.index({ action: 1, isActive: 1, priority: -1 });
 permissionConfigSchema.index({ roleIds: 1, action: 1 });
 permissionConfigSchema.index({ userIds: 1, action: 1 });
+permissionConfigSchema.index({ isActive: 1, validUntil: 1 });
 
 export const PermissionConfig = mongoose.model<IPermissionConfig>(
   'PermissionConfig',
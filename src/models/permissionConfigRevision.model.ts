@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum PermissionRevisionOperation {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  IMPORT = 'IMPORT',
+  ROLLBACK = 'ROLLBACK',
+}
+
+/**
+ * IPermissionConfigRevision interface defines one change to a permission
+ * rule. Revisions are append-only: they are never updated or deleted.
+ */
+export interface IPermissionConfigRevision extends Document {
+  permissionConfig: mongoose.Types.ObjectId;
+  revision: number; // 1-based, per permission config
+  operation: PermissionRevisionOperation;
+  before: Record<string, unknown> | null; // null for the first revision
+  after: Record<string, unknown>;
+  changedFields: string[];
+  changedBy: mongoose.Types.ObjectId;
+  rolledBackTo?: number; // Revision restored by a ROLLBACK
+  createdAt?: Date;
+}
+
+/**
+ * Permission Config Revision Schema
+ */
+const permissionConfigRevisionSchema = new Schema<IPermissionConfigRevision>(
+  {
+    permissionConfig: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PermissionConfig',
+      required: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    operation: {
+      type: String,
+      enum: Object.values(PermissionRevisionOperation),
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    changedFields: [
+      {
+        type: String,
+      },
+    ],
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rolledBackTo: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  },
+);
+
+permissionConfigRevisionSchema.index(
+  { permissionConfig: 1, revision: -1 },
+  { unique: true },
+);
+
+/**
+ * Keep the history append-only
+ */
+permissionConfigRevisionSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  function (next) {
+    next(new Error('Permission config revisions cannot be modified'));
+  },
+);
+
+export const PermissionConfigRevision =
+  mongoose.model<IPermissionConfigRevision>(
+    'PermissionConfigRevision',
+    permissionConfigRevisionSchema,
+  );
@@ -1,4 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import {
+  IApprovalStageProgress,
+  approvalStageProgressSchema,
+} from './approvalChain.model';
 
 /**
  * QC Approval request types
@@ -29,9 +33,13 @@ export interface IQCApproval extends Document {
   requestedBy: mongoose.Types.ObjectId; // QC person who requested
   approvalType: QCApprovalType;
   status: QCApprovalStatus;
-  approverRoles?: mongoose.Types.ObjectId[];
+  approverRoles?: mongoose.Types.ObjectId[]; // Approvers of the current stage
   approvers?: mongoose.Types.ObjectId[]; // Specific user IDs who can approve
 
+  // Multi-stage approval chain (empty for single-step approvals)
+  stages?: IApprovalStageProgress[];
+  currentStage?: number;
+
   // QC specific data
   qcNotes?: string;
   qcFindings?: Record<string, unknown>;
@@ -113,6 +121,14 @@ const qcApprovalSchema = new Schema<IQCApproval>(
         ref: 'User',
       },
     ],
+    stages: {
+      type: [approvalStageProgressSchema],
+      default: undefined,
+    },
+    currentStage: {
+      type: Number,
+      default: 0,
+    },
     qcNotes: {
       type: String,
       trim: true,
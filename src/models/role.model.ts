@@ -4,6 +4,7 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 export interface IRole extends Document {
   name: string;
   description?: string;
+  requiresTwoFactor: boolean; // Members must use TOTP two-factor login
 }
 
 // 👉 Interface for static methods
@@ -24,6 +25,10 @@ const roleSchema = new Schema<IRole>(
       type: String,
       trim: true,
     },
+    requiresTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * ISession interface defines a signed-in device.
+ * Each session is one refresh-token family: the refresh token is rotated
+ * on every refresh and previously issued hashes are kept to detect reuse.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 hash of the current refresh token
+  previousTokenHashes: string[]; // Hashes of rotated-out refresh tokens
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Session Schema
+ */
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * Indexes for efficient queries
+ */
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+// Remove sessions once the refresh token family has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -10,6 +10,15 @@ export interface ISODocument {
   uploaded_at: Date;
 }
 
+/**
+ * Order value of an SO: the sum of its item totals
+ */
+export function calculateOrderValue(
+  items: Array<{ total?: number | null }> = [],
+): number {
+  return items.reduce((sum, item) => sum + (Number(item.total) || 0), 0);
+}
+
 /**
  * ISO interface defines the structure of a SO document
  */
@@ -30,6 +39,7 @@ export interface ISO extends Document {
     delivery_schedule?: Date;
     total?: number;
   }>;
+  order_value: number; // Sum of item totals, kept in sync on save
   category_id: mongoose.Types.ObjectId;
   subcategory_id?: mongoose.Types.ObjectId;
   party_name: string;
@@ -131,6 +141,11 @@ const soSchema = new Schema<ISO>(
       required: false,
       default: [],
     },
+    order_value: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     category_id: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Category',
@@ -213,6 +228,16 @@ soSchema.pre('save', function (next) {
   next();
 });
 
+/**
+ * Keep the order value in sync with the item totals
+ */
+soSchema.pre('save', function (next) {
+  if (this.isNew || this.isModified('items')) {
+    this.order_value = calculateOrderValue(this.items);
+  }
+  next();
+});
+
 /**
  * Index for soft delete queries
  */
@@ -1,4 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import {
+  IApprovalStageProgress,
+  approvalStageProgressSchema,
+} from './approvalChain.model';
 
 /**
  * SO Approval request types
@@ -27,7 +31,11 @@ export interface ISOApproval extends Document {
   requestedBy: mongoose.Types.ObjectId;
   approvalType: SOApprovalType;
   status: SOApprovalStatus;
-  approverRoles?: mongoose.Types.ObjectId[];
+  approverRoles?: mongoose.Types.ObjectId[]; // Approvers of the current stage
+
+  // Multi-stage approval chain (empty for single-step approvals)
+  stages?: IApprovalStageProgress[];
+  currentStage?: number;
 
   // Original data vs proposed changes
   originalData?: Record<string, unknown>;
@@ -36,6 +44,7 @@ export interface ISOApproval extends Document {
   // Approval workflow
   approvedBy?: mongoose.Types.ObjectId;
   rejectedBy?: mongoose.Types.ObjectId;
+  onBehalfOf?: mongoose.Types.ObjectId; // Delegator, when decided by a delegate
   approvalDate?: Date;
   rejectionReason?: string;
 
@@ -78,6 +87,14 @@ const soApprovalSchema = new Schema<ISOApproval>(
         ref: 'Role',
       },
     ],
+    stages: {
+      type: [approvalStageProgressSchema],
+      default: undefined,
+    },
+    currentStage: {
+      type: Number,
+      default: 0,
+    },
     originalData: {
       type: Schema.Types.Mixed,
     },
@@ -93,6 +110,10 @@ const soApprovalSchema = new Schema<ISOApproval>(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
     },
+    onBehalfOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
     approvalDate: {
       type: Date,
     },
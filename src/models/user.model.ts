@@ -1,9 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcrypt';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
+import { hashToken } from '../utils/crypto.util';
 import dotenv from 'dotenv';
 dotenv.config();
 
+/**
+ * Account status enum
+ */
+export enum UserStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended', // Temporarily blocked by an admin
+  DEACTIVATED = 'deactivated', // Account closed, kept for history
+}
+
 /**
  * IUser interface defines the structure of a User document
  */
@@ -14,14 +25,35 @@ export interface IUser extends Document {
   department: mongoose.Types.ObjectId;
   role: mongoose.Types.ObjectId;
   isApproved: boolean;
+  isServiceAccount: boolean;
+  status: UserStatus;
+  statusReason?: string | undefined;
+  statusChangedAt?: Date | undefined;
+  statusChangedBy?: mongoose.Types.ObjectId | undefined;
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId | undefined;
   createdBy?: mongoose.Types.ObjectId;
+  passwordHistory?: string[];
+  passwordResetToken?: string | undefined;
+  passwordResetExpires?: Date | undefined;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date | undefined;
+  lockUntil?: Date | undefined;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string | undefined;
+  twoFactorPendingSecret?: string | undefined;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number | undefined;
   createdAt?: Date;
   updatedAt?: Date;
 
   // Custom instance methods
   isPasswordCorrect(password: string): Promise<boolean>;
-  generateAccessToken(): string;
-  generateRefreshToken(): string;
+  generateAccessToken(sessionId?: string): string;
+  generateRefreshToken(sessionId: string): string;
+  createPasswordResetToken(): string;
+  isAccountActive(): boolean;
+  isPasswordReused(password: string): Promise<boolean>;
 }
 
 /**
@@ -61,10 +93,89 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: false,
     },
+    // Non-interactive account for integrations; authenticates with API keys
+    isServiceAccount: {
+      type: Boolean,
+      default: false,
+    },
+    // Suspended, deactivated and soft-deleted users cannot sign in, but the
+    // document is kept so historical references stay resolvable
+    status: {
+      type: String,
+      enum: Object.values(UserStatus),
+      default: UserStatus.ACTIVE,
+    },
+    statusReason: {
+      type: String,
+      trim: true,
+    },
+    statusChangedAt: {
+      type: Date,
+    },
+    statusChangedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
     },
+    // Bcrypt hashes of recent passwords (newest first), prevents reuse
+    passwordHistory: {
+      type: [String],
+      select: false,
+    },
+    // SHA-256 hash of the single-use password reset token
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    // Brute-force protection for login
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedLoginAt: {
+      type: Date,
+    },
+    lockUntil: {
+      type: Date,
+    },
+    // TOTP two-factor authentication (secrets are encrypted at rest)
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    // SHA-256 hashes of unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    // Last accepted TOTP time step, prevents code replay
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -77,12 +188,13 @@ const userSchema = new Schema<IUser>(
 
       // Generate JWT access token
       // Generate JWT access token
-      generateAccessToken: function (): string {
+      generateAccessToken: function (sessionId?: string): string {
         const payload = {
           _id: this._id,
           email: this.email,
           username: this.username,
           role: this.role,
+          ...(sessionId ? { sid: sessionId } : {}),
         };
 
         const secret = process.env['ACCESS_TOKEN_SECRET'];
@@ -105,10 +217,13 @@ const userSchema = new Schema<IUser>(
 
         return jwt.sign(payload, secret, options);
       },
-      // Generate JWT refresh token
-      generateRefreshToken(): string {
+      // Generate JWT refresh token bound to a session (device)
+      generateRefreshToken(sessionId: string): string {
         const payload = {
           _id: this._id,
+          sid: sessionId,
+          // Unique id so every rotated token differs
+          jti: crypto.randomBytes(16).toString('hex'),
         };
 
         const secret = process.env['REFRESH_TOKEN_SECRET'];
@@ -122,6 +237,41 @@ const userSchema = new Schema<IUser>(
 
         return jwt.sign(payload, secret, { expiresIn: expiry });
       },
+
+      // Check a new password against the current one and recent history.
+      // Requires `+password +passwordHistory` to be selected.
+      async isPasswordReused(password: string): Promise<boolean> {
+        const hashes = new Set<string>(this.passwordHistory || []);
+        if (this.password) hashes.add(this.password);
+
+        for (const hash of hashes) {
+          if (await bcrypt.compare(password, hash)) return true;
+        }
+        return false;
+      },
+
+      // Whether the account may authenticate (not suspended/deactivated/deleted)
+      isAccountActive(): boolean {
+        return (
+          !this.deletedAt && (!this.status || this.status === UserStatus.ACTIVE)
+        );
+      },
+
+      // Generate a password reset token; only its hash is stored
+      createPasswordResetToken(): string {
+        const resetToken = crypto.randomBytes(32).toString('hex');
+        const expiryMinutes = parseInt(
+          process.env['PASSWORD_RESET_TOKEN_EXPIRY_MINUTES'] || '30',
+          10,
+        );
+
+        this.passwordResetToken = hashToken(resetToken);
+        this.passwordResetExpires = new Date(
+          Date.now() + expiryMinutes * 60 * 1000,
+        );
+
+        return resetToken;
+      },
     },
   },
 );
@@ -133,10 +283,31 @@ userSchema.pre('save', async function (next) {
   if (this.isModified('password')) {
     const saltRounds = 10;
     this.password = await bcrypt.hash(this.password, saltRounds);
+
+    // Keep the last N password hashes when the history is loaded
+    if (this.isNew || this.isSelected('passwordHistory')) {
+      const historySize = parseInt(
+        process.env['PASSWORD_HISTORY_SIZE'] || '5',
+        10,
+      );
+      this.passwordHistory = [
+        this.password,
+        ...(this.passwordHistory || []),
+      ].slice(0, historySize);
+    }
   }
   next();
 });
 
+/**
+ * Query filter matching users that may sign in and receive work
+ * (documents created before account status existed count as active)
+ */
+export const activeUserFilter = {
+  deletedAt: null,
+  status: { $nin: [UserStatus.SUSPENDED, UserStatus.DEACTIVATED] },
+};
+
 /**
  * Export the User model
  */
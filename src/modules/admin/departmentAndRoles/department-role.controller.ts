@@ -131,7 +131,7 @@ class DepartmentAndRoleController {
   // ---------- Role CRUD ----------
 
   static createRole = asyncHandler(async (req: Request, res: Response) => {
-    const { name, description } = req.body;
+    const { name, description, requiresTwoFactor } = req.body;
 
     if (await Role.isNameTaken(name)) {
       throw new ApiError(
@@ -142,7 +142,7 @@ class DepartmentAndRoleController {
       );
     }
 
-    const role = await Role.create({ name, description });
+    const role = await Role.create({ name, description, requiresTwoFactor });
 
     res
       .status(StatusCodes.CREATED)
@@ -174,7 +174,7 @@ class DepartmentAndRoleController {
 
   static updateRole = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, requiresTwoFactor } = req.body;
 
     // Check if another role with the same name already exists
     const existing = await Role.findOne({ name, _id: { $ne: id } });
@@ -189,7 +189,7 @@ class DepartmentAndRoleController {
 
     const role = await Role.findByIdAndUpdate(
       id,
-      { name, description },
+      { name, description, requiresTwoFactor },
       { new: true },
     );
 
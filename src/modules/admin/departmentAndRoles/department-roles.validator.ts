@@ -10,6 +10,9 @@ export const createRoleSchema = Joi.object({
   description: Joi.string().trim().max(100).optional().messages({
     'string.max': 'Description should not exceed 100 characters',
   }),
+  requiresTwoFactor: Joi.boolean().optional().messages({
+    'boolean.base': 'requiresTwoFactor must be a boolean',
+  }),
 });
 
 export const createDepartmentSchema = Joi.object({
@@ -32,6 +35,9 @@ export const updateRoleSchema = Joi.object({
   description: Joi.string().trim().max(100).optional().messages({
     'string.max': 'Description should not exceed 100 characters',
   }),
+  requiresTwoFactor: Joi.boolean().optional().messages({
+    'boolean.base': 'requiresTwoFactor must be a boolean',
+  }),
 });
 export const updateDepartmentSchema = Joi.object({
   name: Joi.string().trim().lowercase().min(2).max(30).optional().messages({
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { ApiError } from '../../../../utils/ApiError';
-import PermissionConfigService from '../services/permissionConfig.service';
+import PermissionConfigService, {
+  SUB_ADMIN_VIEW_ACTIONS,
+} from '../services/permissionConfig.service';
 import { ActionType } from '../../../../models/permissionConfig.model';
+import { IApprovalStage } from '../../../../models/approvalChain.model';
 
 type RoleType = string | { name?: string; _id?: string };
 interface RequestWithAuth extends Request {
@@ -12,173 +15,262 @@ interface RequestWithAuth extends Request {
     adminOverride?: boolean;
     requiresApproval?: boolean;
     approverRoles?: string[];
+    approvalChain?: IApprovalStage[];
     reason?: string | undefined;
   };
+  apiKey?: { _id: string; scopes: ActionType[] };
 }
 
-export const checkPermission = (actions: ActionType[]) => {
-  return async (
-    req: Request,
-    _res: Response,
-    next: NextFunction,
-  ): Promise<void> => {
-    try {
-      // User must be authenticated and attached to req.user
-      const user = (req as RequestWithAuth).user;
-      if (!user) {
-        throw new ApiError(
-          'PERMISSION_CHECK',
-          StatusCodes.UNAUTHORIZED,
-          'USER_NOT_AUTHENTICATED',
-          'User authentication required',
-        );
+/**
+ * Rule context for a request (category and value of the affected record)
+ */
+export interface PermissionContext {
+  categoryId?: string | undefined;
+  machineValue?: number | undefined;
+}
+
+/**
+ * Derives the rule context from the request, e.g. by loading the SO or
+ * machine it targets. When given, it replaces the categoryId/machineValue
+ * fields of the body or query, which the caller could set at will.
+ */
+export type PermissionContextResolver = (
+  req: Request,
+) => Promise<PermissionContext> | PermissionContext;
+
+// Middlewares that enforce API key scopes. verifyJWT only accepts an API
+// key on routes that run one of them.
+const scopedHandlers = new WeakSet<object>();
+
+/**
+ * Mark a middleware as enforcing API key scopes
+ */
+export const enforcesApiKeyScopes = <T extends object>(handler: T): T => {
+  scopedHandlers.add(handler);
+  return handler;
+};
+
+/**
+ * Whether a route handler enforces API key scopes
+ */
+export const isApiKeyScoped = (handler: unknown): boolean =>
+  typeof handler === 'function' && scopedHandlers.has(handler);
+
+/**
+ * Reject API keys that lack one of the actions in their scopes
+ */
+const assertApiKeyScopes = (req: Request, actions: ActionType[]): void => {
+  const apiKey = (req as RequestWithAuth).apiKey;
+  if (!apiKey) return;
+
+  const missingScopes = actions.filter(
+    (action) => !apiKey.scopes.includes(action),
+  );
+  if (missingScopes.length > 0) {
+    throw new ApiError(
+      'PERMISSION_CHECK',
+      StatusCodes.FORBIDDEN,
+      'API_KEY_SCOPE_DENIED',
+      `API key is missing the required scope(s): ${missingScopes.join(', ')}`,
+    );
+  }
+};
+
+/**
+ * Require the actions in the scopes of an API key, without consulting the
+ * PermissionConfig rules. For read routes that any signed-in user may
+ * call but integrations only with the matching scope.
+ */
+export const requireApiKeyScope = (actions: ActionType[]) =>
+  enforcesApiKeyScopes(
+    (req: Request, _res: Response, next: NextFunction): void => {
+      try {
+        assertApiKeyScopes(req, actions);
+        next();
+      } catch (error) {
+        next(error);
       }
+    },
+  );
 
-      // Get user role - handle both Mongoose document and plain object
-      let userRoleName: string | null = null;
-      let userRoleId: string | null = null;
-
-      // Check if user.role is populated or just an ObjectId
-      if (user && user.role) {
-        if (typeof user.role === 'string') {
-          // Role is ObjectId string, need to populate
-          userRoleId = user.role;
-          const { User } = await import('../../../../models/user.model');
-          const populatedUser = await User.findById(user._id)
-            .populate('role', 'name')
-            .lean();
-          if (populatedUser?.role) {
-            const role = populatedUser.role as { name?: string; _id?: unknown };
+export const checkPermission = (
+  actions: ActionType[],
+  resolveContext?: PermissionContextResolver,
+) => {
+  return enforcesApiKeyScopes(
+    async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+      try {
+        // User must be authenticated and attached to req.user
+        const user = (req as RequestWithAuth).user;
+        if (!user) {
+          throw new ApiError(
+            'PERMISSION_CHECK',
+            StatusCodes.UNAUTHORIZED,
+            'USER_NOT_AUTHENTICATED',
+            'User authentication required',
+          );
+        }
+
+        // API keys may only perform the actions in their scopes, regardless
+        // of what the service account's role would otherwise allow
+        assertApiKeyScopes(req, actions);
+
+        // Get user role - handle both Mongoose document and plain object
+        let userRoleName: string | null = null;
+        let userRoleId: string | null = null;
+
+        // Check if user.role is populated or just an ObjectId
+        if (user && user.role) {
+          if (typeof user.role === 'string') {
+            // Role is ObjectId string, need to populate
+            userRoleId = user.role;
+            const { User } = await import('../../../../models/user.model');
+            const populatedUser = await User.findById(user._id)
+              .populate('role', 'name')
+              .lean();
+            if (populatedUser?.role) {
+              const role = populatedUser.role as {
+                name?: string;
+                _id?: unknown;
+              };
+              userRoleName = role?.name?.toLowerCase() || null;
+              userRoleId = role?._id?.toString() || userRoleId;
+            }
+          } else if (typeof user.role === 'object' && user.role !== null) {
+            // Role is already populated
+            const role = user.role as { name?: string; _id?: unknown };
             userRoleName = role?.name?.toLowerCase() || null;
-            userRoleId = role?._id?.toString() || userRoleId;
+            userRoleId = role?._id?.toString() || null;
           }
-        } else if (typeof user.role === 'object' && user.role !== null) {
-          // Role is already populated
-          const role = user.role as { name?: string; _id?: unknown };
-          userRoleName = role?.name?.toLowerCase() || null;
-          userRoleId = role?._id?.toString() || null;
         }
-      }
 
-      // Check by role name first
-      let isAdminRole = userRoleName === 'admin';
-      let isSubAdminRole = userRoleName === 'sub-admin';
-
-      // If not found by name, check by role ID
-      if (!isAdminRole && !isSubAdminRole && userRoleId) {
-        const { Role } = await import('../../../../models/role.model');
-        const adminRole = await Role.findOne({ name: 'admin' })
-          .select('_id')
-          .lean();
-        const subAdminRole = await Role.findOne({ name: 'sub-admin' })
-          .select('_id')
-          .lean();
-
-        if (adminRole?._id && userRoleId === adminRole._id.toString()) {
-          isAdminRole = true;
-        } else if (
-          subAdminRole?._id &&
-          userRoleId === subAdminRole._id.toString()
-        ) {
-          isSubAdminRole = true;
-        }
-      }
+        // Check by role name first
+        let isAdminRole = userRoleName === 'admin';
+        let isSubAdminRole = userRoleName === 'sub-admin';
 
-      if (isAdminRole) {
-        (req as RequestWithAuth).permissionInfo = {
-          actions,
-          adminOverride: true,
-          reason: 'Admin role override - full access granted',
-        };
-        return next();
-      }
+        // If not found by name, check by role ID
+        if (!isAdminRole && !isSubAdminRole && userRoleId) {
+          const { Role } = await import('../../../../models/role.model');
+          const adminRole = await Role.findOne({ name: 'admin' })
+            .select('_id')
+            .lean();
+          const subAdminRole = await Role.findOne({ name: 'sub-admin' })
+            .select('_id')
+            .lean();
+
+          if (adminRole?._id && userRoleId === adminRole._id.toString()) {
+            isAdminRole = true;
+          } else if (
+            subAdminRole?._id &&
+            userRoleId === subAdminRole._id.toString()
+          ) {
+            isSubAdminRole = true;
+          }
+        }
 
-      // Sub-admin bypass: allow VIEW actions only (read-only access)
-      if (isSubAdminRole) {
-        const viewActions = [
-          ActionType.VIEW_SO,
-          ActionType.VIEW_MACHINE,
-          ActionType.VIEW_QC_ENTRY,
-          ActionType.VIEW_QC_APPROVAL,
-        ];
-        const isViewAction = actions.every((action) =>
-          viewActions.includes(action),
-        );
-
-        if (isViewAction) {
+        if (isAdminRole) {
           (req as RequestWithAuth).permissionInfo = {
             actions,
-            adminOverride: false,
-            reason: 'Sub-admin role - read-only access granted',
+            adminOverride: true,
+            reason: 'Admin role override - full access granted',
           };
           return next();
         }
-        // For non-view actions, continue with permission check (may require approval)
-      }
 
-      // Extract context (categoryId, machineValue) from body or query
-      const body = (req as Request & { body: Record<string, unknown> }).body;
-      const query = (req as Request & { query: Record<string, unknown> }).query;
-      const categoryId =
-        (body?.['categoryId'] as string | undefined) ||
-        (body?.['category_id'] as string | undefined) ||
-        (query?.['categoryId'] as string | undefined);
-      const machineValueRaw =
-        (body?.['machineValue'] as string | number | undefined) ||
-        (query?.['machineValue'] as string | number | undefined);
-
-      // Check all actions
-      // Get user ID - handle both Mongoose document and plain object
-      const userId =
-        typeof user._id === 'string'
-          ? user._id
-          : (user._id as { toString?: () => string })?.toString?.() ||
-            String(user._id);
-
-      for (const action of actions) {
-        const result = await PermissionConfigService.checkPermission(
-          userId,
-          action,
-          categoryId,
-          machineValueRaw !== undefined
-            ? parseFloat(String(machineValueRaw))
-            : undefined,
-        );
-        if (!result.allowed) {
-          if (result.requiresApproval) {
-            // Allow request to proceed but mark that approval is required
-            const existingInfo: RequestWithAuth['permissionInfo'] =
-              (req as RequestWithAuth).permissionInfo || {};
+        // Sub-admin bypass: allow VIEW actions only (read-only access)
+        if (isSubAdminRole) {
+          const isViewAction = actions.every((action) =>
+            SUB_ADMIN_VIEW_ACTIONS.includes(action),
+          );
+
+          if (isViewAction) {
             (req as RequestWithAuth).permissionInfo = {
-              ...existingInfo,
               actions,
               adminOverride: false,
-              requiresApproval: true,
-              approverRoles: (result.approverRoles || []).map(String),
-              reason: result.reason,
+              reason: 'Sub-admin role - read-only access granted',
             };
-            continue; // do not block
+            return next();
           }
-          // Explicitly denied
-          throw new ApiError(
-            'PERMISSION_CHECK',
-            StatusCodes.FORBIDDEN,
-            'PERMISSION_DENIED',
-            `Action '${action}' denied. ${result.reason}`,
+          // For non-view actions, continue with permission check (may require approval)
+        }
+
+        // Extract context (categoryId, machineValue) from body or query
+        const body = (req as Request & { body: Record<string, unknown> }).body;
+        const query = (req as Request & { query: Record<string, unknown> })
+          .query;
+        const categoryId =
+          (body?.['categoryId'] as string | undefined) ||
+          (body?.['category_id'] as string | undefined) ||
+          (query?.['categoryId'] as string | undefined);
+        const machineValueRaw =
+          (body?.['machineValue'] as string | number | undefined) ||
+          (query?.['machineValue'] as string | number | undefined);
+        const resolved: PermissionContext = resolveContext
+          ? await resolveContext(req)
+          : {
+              categoryId,
+              machineValue:
+                machineValueRaw !== undefined
+                  ? parseFloat(String(machineValueRaw))
+                  : undefined,
+            };
+        const contextCategoryId = resolved.categoryId;
+        const contextValue = resolved.machineValue;
+
+        // Check all actions
+        // Get user ID - handle both Mongoose document and plain object
+        const userId =
+          typeof user._id === 'string'
+            ? user._id
+            : (user._id as { toString?: () => string })?.toString?.() ||
+              String(user._id);
+
+        for (const action of actions) {
+          const result = await PermissionConfigService.checkPermission(
+            userId,
+            action,
+            contextCategoryId,
+            contextValue,
           );
+          if (!result.allowed) {
+            if (result.requiresApproval) {
+              // Allow request to proceed but mark that approval is required
+              const existingInfo: RequestWithAuth['permissionInfo'] =
+                (req as RequestWithAuth).permissionInfo || {};
+              (req as RequestWithAuth).permissionInfo = {
+                ...existingInfo,
+                actions,
+                adminOverride: false,
+                requiresApproval: true,
+                approverRoles: (result.approverRoles || []).map(String),
+                ...(result.approvalChain && {
+                  approvalChain: result.approvalChain,
+                }),
+                reason: result.reason,
+              };
+              continue; // do not block
+            }
+            // Explicitly denied
+            throw new ApiError(
+              'PERMISSION_CHECK',
+              StatusCodes.FORBIDDEN,
+              'PERMISSION_DENIED',
+              `Action '${action}' denied. ${result.reason}`,
+            );
+          }
         }
-      }
 
-      // Attach/merge permission info for downstream use without overwriting earlier flags
-      const existing = (req as RequestWithAuth).permissionInfo || {};
-      (req as RequestWithAuth).permissionInfo = {
-        ...existing,
-        actions,
-        adminOverride: existing.adminOverride ?? false,
-      };
-      next();
-    } catch (error) {
-      next(error);
-    }
-  };
+        // Attach/merge permission info for downstream use without overwriting earlier flags
+        const existing = (req as RequestWithAuth).permissionInfo || {};
+        (req as RequestWithAuth).permissionInfo = {
+          ...existing,
+          actions,
+          adminOverride: existing.adminOverride ?? false,
+        };
+        next();
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
 };
@@ -6,8 +6,12 @@ import { ApiResponse } from '../../../utils/ApiResponse';
 import { ApiError } from '../../../utils/ApiError';
 import PermissionConfigService, {
   CreatePermissionConfigData,
+  ExplainPermissionData,
   UpdatePermissionConfigData,
 } from './services/permissionConfig.service';
+import PolicyService, { PolicyFormat } from './services/policy.service';
+import PermissionAnalysisService from './services/permissionAnalysis.service';
+import PermissionConfigRevisionService from './services/permissionConfigRevision.service';
 import ValidationService from './validators/permissionConfig.reference.validator';
 import { ActionType } from '../../../models/permissionConfig.model';
 
@@ -58,8 +62,12 @@ class PermissionConfigController {
         categoryIds,
         permission,
         approverRoles,
+        approvalChain,
         maxValue,
         priority,
+        validFrom,
+        validUntil,
+        schedule,
       } = req.body as CreatePermissionConfigData;
 
       if (!req.user) {
@@ -79,6 +87,7 @@ class PermissionConfigController {
           departmentIds,
           categoryIds,
           approverRoles,
+          approvalChain,
           createdBy: req.user._id,
         });
 
@@ -92,15 +101,25 @@ class PermissionConfigController {
           categoryIds,
           permission,
           approverRoles,
+          approvalChain,
           maxValue,
           priority,
+          validFrom,
+          validUntil,
+          schedule,
           createdBy: req.user._id,
         });
 
+        // Shadowing/conflict warnings do not block the change
+        const warnings =
+          await PermissionAnalysisService.getRuleWarnings(permissionConfig);
+
         const response = new ApiResponse(
           StatusCodes.CREATED,
-          permissionConfig,
-          'Permission configuration created successfully',
+          { ...permissionConfig.toObject(), warnings },
+          warnings.length
+            ? `Permission configuration created with ${warnings.length} warning(s)`
+            : 'Permission configuration created successfully',
         );
 
         res.status(StatusCodes.CREATED).json(response);
@@ -258,10 +277,19 @@ class PermissionConfigController {
    * PUT /api/permission-configs/:id
    */
   static updatePermissionConfig = asyncHandler(
-    async (req: Request, res: Response): Promise<void> => {
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
       const { id } = req.params;
       const updateData = req.body as UpdatePermissionConfigData;
 
+      if (!req.user) {
+        throw new ApiError(
+          'UPDATE_PERMISSION_CONFIG',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
       try {
         // Validate reference IDs before updating if they exist
         await ValidationService.validatePermissionConfigReferences({
@@ -270,6 +298,7 @@ class PermissionConfigController {
           departmentIds: updateData.departmentIds,
           categoryIds: updateData.categoryIds,
           approverRoles: updateData.approverRoles,
+          approvalChain: updateData.approvalChain,
         });
 
         if (!id) {
@@ -283,12 +312,19 @@ class PermissionConfigController {
         const permissionConfig = await PermissionConfigService.update(
           id,
           updateData,
+          req.user._id,
         );
 
+        // Shadowing/conflict warnings do not block the change
+        const warnings =
+          await PermissionAnalysisService.getRuleWarnings(permissionConfig);
+
         const response = new ApiResponse(
           StatusCodes.OK,
-          permissionConfig,
-          'Permission configuration updated successfully',
+          { ...permissionConfig, warnings },
+          warnings.length
+            ? `Permission configuration updated with ${warnings.length} warning(s)`
+            : 'Permission configuration updated successfully',
         );
 
         res.status(StatusCodes.OK).json(response);
@@ -311,9 +347,18 @@ class PermissionConfigController {
    * DELETE /api/permission-configs/:id
    */
   static deletePermissionConfig = asyncHandler(
-    async (req: Request, res: Response): Promise<void> => {
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
       const { id } = req.params;
 
+      if (!req.user) {
+        throw new ApiError(
+          'DELETE_PERMISSION_CONFIG',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
       if (!id) {
         throw new ApiError(
           'DELETE_PERMISSION_CONFIG',
@@ -324,7 +369,7 @@ class PermissionConfigController {
       }
 
       try {
-        await PermissionConfigService.delete(id);
+        await PermissionConfigService.delete(id, req.user._id);
 
         const response = new ApiResponse(
           StatusCodes.OK,
@@ -352,9 +397,18 @@ class PermissionConfigController {
    * PATCH /api/permission-configs/:id/toggle
    */
   static togglePermissionConfig = asyncHandler(
-    async (req: Request, res: Response): Promise<void> => {
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
       const { id } = req.params;
 
+      if (!req.user) {
+        throw new ApiError(
+          'TOGGLE_PERMISSION_CONFIG',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
       try {
         if (!id) {
           throw new ApiError(
@@ -364,8 +418,10 @@ class PermissionConfigController {
             'Permission configuration ID is required',
           );
         }
-        const updatedConfig =
-          await PermissionConfigService.toggleActiveStatus(id);
+        const updatedConfig = await PermissionConfigService.toggleActiveStatus(
+          id,
+          req.user._id,
+        );
 
         const response = new ApiResponse(
           StatusCodes.OK,
@@ -388,6 +444,90 @@ class PermissionConfigController {
     },
   );
 
+  /**
+   * List the revision history of a permission configuration
+   * GET /api/permission/:id/revisions?page=1&limit=20
+   */
+  static getPermissionConfigRevisions = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const id = req.params['id'] ?? '';
+      const page = Number(req.query['page']) || 1;
+      const limit = Number(req.query['limit']) || 20;
+
+      const result = await PermissionConfigRevisionService.getRevisions(
+        id,
+        page,
+        limit,
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        result,
+        'Permission configuration revisions retrieved successfully',
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
+  /**
+   * Diff a permission configuration between two revisions
+   * GET /api/permission/:id/revisions/diff?from=1&to=3
+   */
+  static diffPermissionConfigRevisions = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const id = req.params['id'] ?? '';
+
+      const diff = await PermissionConfigRevisionService.diffRevisions(
+        id,
+        Number(req.query['from']),
+        Number(req.query['to']),
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        diff,
+        'Permission configuration revisions compared successfully',
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
+  /**
+   * Restore a permission configuration to an earlier revision
+   * POST /api/permission/:id/rollback
+   */
+  static rollbackPermissionConfig = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const id = req.params['id'] ?? '';
+      const { revision } = req.body as { revision: number };
+
+      if (!req.user) {
+        throw new ApiError(
+          'ROLLBACK_PERMISSION_CONFIG',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
+      const permissionConfig = await PermissionConfigService.rollback(
+        id,
+        revision,
+        req.user._id,
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        permissionConfig,
+        `Permission configuration restored to revision ${revision}`,
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
   /**
    * Check user permissions for a specific action (POST)
    * POST /api/permission-configs/check
@@ -455,6 +595,120 @@ class PermissionConfigController {
     },
   );
 
+  /**
+   * Explain a permission decision with the full rule-evaluation trace
+   * POST /api/permission/explain
+   */
+  static explainPermission = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const {
+        action,
+        userId,
+        roleId,
+        departmentId,
+        categoryId,
+        machineValue,
+        at,
+      } = req.body as ExplainPermissionData;
+
+      const explanation = await PermissionConfigService.explainPermission({
+        action,
+        userId,
+        roleId,
+        departmentId,
+        categoryId,
+        machineValue,
+        at,
+      });
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        explanation,
+        'Permission explanation generated successfully',
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
+  /**
+   * Analyze rules for shadowing, duplicates, conflicts and stale references
+   * GET /api/permission/analysis?action=CREATE_MACHINE
+   */
+  static analyzePermissionConfigs = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const report = await PermissionAnalysisService.analyze({
+        action: req.query['action'] as ActionType | undefined,
+      });
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        report,
+        'Permission configuration analysis completed successfully',
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
+  /**
+   * Export the live permission rules as a policy document (JSON or YAML)
+   * GET /api/permission/policy/export?format=yaml
+   */
+  static exportPolicy = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const format = (req.query['format'] as PolicyFormat) || 'json';
+
+      const policy = await PolicyService.exportPolicy();
+      const document = PolicyService.serialize(policy, format);
+      const fileName = `permission-policy-${new Date().toISOString().split('T')[0]}.${format}`;
+
+      res.setHeader(
+        'Content-Type',
+        format === 'yaml' ? 'application/yaml' : 'application/json',
+      );
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}"`,
+      );
+      res.status(StatusCodes.OK).send(document);
+    },
+  );
+
+  /**
+   * Import a policy document; ?dryRun=true only reports the differences
+   * POST /api/permission/policy/import
+   */
+  static importPolicy = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      if (!req.user) {
+        throw new ApiError(
+          'IMPORT_POLICY',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
+      const dryRun = String(req.query['dryRun']) === 'true';
+      const policy = PolicyService.parse(req.body);
+      const report = await PolicyService.importPolicy(policy, {
+        dryRun,
+        importedBy: req.user._id,
+      });
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        report,
+        dryRun
+          ? 'Policy dry run completed successfully'
+          : 'Policy imported successfully',
+      );
+
+      res.status(StatusCodes.OK).json(response);
+    },
+  );
+
   /**
    * Get permissions for current user
    * GET /api/permission-configs/my-permissions?categoryId=xxx&machineValue=100
@@ -625,13 +879,13 @@ class PermissionConfigController {
   );
 
   /**
-   * Clear permission cache
+   * Clear permission cache on every instance
    * POST /api/permission-configs/clear-cache
    */
   static clearPermissionCache = asyncHandler(
     async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
       try {
-        PermissionConfigService.clearPermissionCache();
+        await PermissionConfigService.clearPermissionCache();
 
         const response = new ApiResponse(
           StatusCodes.OK,
@@ -670,7 +924,7 @@ class PermissionConfigController {
 
       try {
         // Clear cache first to get fresh data
-        PermissionConfigService.clearPermissionCache();
+        await PermissionConfigService.clearPermissionCache();
 
         // Check permission for current user
         const result = await PermissionConfigService.checkPermission(
@@ -0,0 +1,280 @@
+// services/approvalChain.service.ts
+import mongoose from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import {
+  IApprovalStage,
+  IApprovalStageProgress,
+  ApprovalStageStatus,
+} from '../../../../models/approvalChain.model';
+import { User } from '../../../../models/user.model';
+import { Role } from '../../../../models/role.model';
+import { ApiError } from '../../../../utils/ApiError';
+
+/**
+ * Fields of an approval request (machine, SO or QC) used by the chain
+ */
+export interface ChainedApproval {
+  stages?: IApprovalStageProgress[] | undefined;
+  currentStage?: number | undefined;
+  approverRoles?: mongoose.Types.ObjectId[] | undefined;
+}
+
+/**
+ * Result of a decision on the current stage:
+ * - REJECTED: the request is rejected
+ * - STAGE_PENDING: recorded; other roles of a parallel stage must approve
+ * - STAGE_APPROVED: the stage is done; nextStage is now pending
+ * - APPROVED: the final stage is done; the request can be applied
+ */
+export type StageDecisionOutcome =
+  | 'REJECTED'
+  | 'STAGE_PENDING'
+  | 'STAGE_APPROVED'
+  | 'APPROVED';
+
+export interface StageDecisionResult {
+  outcome: StageDecisionOutcome;
+  stage: IApprovalStageProgress;
+  stageIndex: number;
+  nextStage?: IApprovalStageProgress;
+}
+
+export interface StageDecisionData {
+  approverId: string;
+  onBehalfOf?: string | undefined; // Delegator whose role is checked
+  approved: boolean;
+  notes?: string | undefined;
+}
+
+class ApprovalChainService {
+  private static toIdStrings(ids?: unknown[]): string[] {
+    return (ids || []).map((id) => String(id));
+  }
+
+  /**
+   * Whether an approval request goes through stages
+   */
+  static hasChain(approval: ChainedApproval): boolean {
+    return (approval.stages?.length || 0) > 0;
+  }
+
+  /**
+   * Stage trackers for a new approval request; the first stage is pending
+   */
+  static buildStages(chain?: IApprovalStage[]): IApprovalStageProgress[] {
+    return (chain || []).map((stage, index) => ({
+      name: stage.name,
+      approverRoles: this.toIdStrings(stage.approverRoles).map(
+        (id) => new mongoose.Types.ObjectId(id),
+      ),
+      requireAll: stage.requireAll === true,
+      status:
+        index === 0 ? ApprovalStageStatus.PENDING : ApprovalStageStatus.WAITING,
+      decisions: [],
+    }));
+  }
+
+  /**
+   * Roles that can approve a new request: the first stage's, if any
+   */
+  static initialApproverRoles(
+    chain: IApprovalStage[] | undefined,
+    approverRoles: string[] = [],
+  ): string[] {
+    return chain?.length
+      ? this.toIdStrings(chain[0]!.approverRoles)
+      : approverRoles;
+  }
+
+  /**
+   * Roles of a stage that still have to approve it
+   */
+  static getOutstandingRoles(stage: IApprovalStageProgress): string[] {
+    const roles = this.toIdStrings(stage.approverRoles);
+    if (!stage.requireAll) return roles;
+
+    const approvedRoles = new Set(
+      stage.decisions
+        .filter((decision) => decision.approved)
+        .map((decision) => String(decision.role)),
+    );
+    return roles.filter((role) => !approvedRoles.has(role));
+  }
+
+  /**
+   * Role ID and (lowercase) role name of a user
+   */
+  static async getApproverRole(
+    approverId: string,
+  ): Promise<{ roleId: string | null; roleName: string | null }> {
+    const approver = await User.findById(approverId).select('role').lean();
+    const roleId = approver?.role ? String(approver.role) : null;
+    if (!roleId) return { roleId: null, roleName: null };
+
+    const role = await Role.findById(roleId).select('name').lean();
+    return { roleId, roleName: role?.name?.toLowerCase() || null };
+  }
+
+  /**
+   * Whether a user may decide the current stage of an approval
+   */
+  static async canDecide(
+    approval: ChainedApproval,
+    userId: string,
+  ): Promise<boolean> {
+    const stage = approval.stages?.[approval.currentStage || 0];
+    if (!stage || stage.status !== ApprovalStageStatus.PENDING) return false;
+
+    const { roleId, roleName } = await this.getApproverRole(userId);
+    return (
+      roleName === 'admin' ||
+      (!!roleId && this.getOutstandingRoles(stage).includes(roleId))
+    );
+  }
+
+  /**
+   * Record a decision on the current stage and advance the chain.
+   * Approvers must hold one of the stage's roles; admins may decide any
+   * stage and complete a parallel stage on their own. A delegate decides
+   * with the role of the delegator (onBehalfOf). The approval is
+   * modified in place and must be saved with saveDecision.
+   */
+  static async recordDecision(
+    approval: ChainedApproval,
+    data: StageDecisionData,
+    action: string,
+  ): Promise<StageDecisionResult> {
+    const stages = approval.stages || [];
+    const currentIndex = approval.currentStage || 0;
+    const stage = stages[currentIndex];
+    if (!stage || stage.status !== ApprovalStageStatus.PENDING) {
+      throw new ApiError(
+        action,
+        StatusCodes.CONFLICT,
+        'APPROVAL_STAGE_NOT_PENDING',
+        'The current approval stage is not awaiting a decision',
+      );
+    }
+
+    const { roleId, roleName } = await this.getApproverRole(
+      data.onBehalfOf || data.approverId,
+    );
+    const isAdmin = roleName === 'admin';
+    const stageRoles = this.toIdStrings(stage.approverRoles);
+    if (!isAdmin && (!roleId || !stageRoles.includes(roleId))) {
+      throw new ApiError(
+        action,
+        StatusCodes.FORBIDDEN,
+        'NOT_STAGE_APPROVER',
+        `You are not an approver for stage "${stage.name}"`,
+      );
+    }
+    if (
+      stage.requireAll &&
+      !isAdmin &&
+      !this.getOutstandingRoles(stage).includes(roleId!)
+    ) {
+      throw new ApiError(
+        action,
+        StatusCodes.CONFLICT,
+        'STAGE_ALREADY_APPROVED_BY_ROLE',
+        `Your role has already approved stage "${stage.name}"`,
+      );
+    }
+
+    const now = new Date();
+    stage.decisions.push({
+      approver: new mongoose.Types.ObjectId(data.approverId),
+      ...(data.onBehalfOf && {
+        onBehalfOf: new mongoose.Types.ObjectId(data.onBehalfOf),
+      }),
+      role: roleId ? new mongoose.Types.ObjectId(roleId) : null,
+      approved: data.approved,
+      ...(data.notes ? { notes: data.notes } : {}),
+      decidedAt: now,
+    });
+
+    if (!data.approved) {
+      stage.status = ApprovalStageStatus.REJECTED;
+      stage.completedAt = now;
+      return { outcome: 'REJECTED', stage, stageIndex: currentIndex };
+    }
+
+    if (
+      stage.requireAll &&
+      !isAdmin &&
+      this.getOutstandingRoles(stage).length > 0
+    ) {
+      return { outcome: 'STAGE_PENDING', stage, stageIndex: currentIndex };
+    }
+
+    stage.status = ApprovalStageStatus.APPROVED;
+    stage.completedAt = now;
+
+    const nextStage = stages[currentIndex + 1];
+    if (!nextStage) {
+      return { outcome: 'APPROVED', stage, stageIndex: currentIndex };
+    }
+
+    nextStage.status = ApprovalStageStatus.PENDING;
+    approval.currentStage = currentIndex + 1;
+    approval.approverRoles = this.toIdStrings(nextStage.approverRoles).map(
+      (id) => new mongoose.Types.ObjectId(id),
+    );
+    return {
+      outcome: 'STAGE_APPROVED',
+      stage,
+      stageIndex: currentIndex,
+      nextStage,
+    };
+  }
+
+  /**
+   * Save the chain of an approval after recordDecision. The write only
+   * applies while the request is pending and the decided stage still has
+   * the decisions that were read, so of two concurrent decisions the
+   * second fails with a conflict instead of overwriting the first.
+   * `fields` are saved along with the chain.
+   */
+  static async saveDecision<T>(
+    model: mongoose.Model<T>,
+    approval: ChainedApproval & { _id: unknown },
+    result: StageDecisionResult,
+    pendingStatus: string,
+    action: string,
+    fields: Record<string, unknown> = {},
+  ): Promise<void> {
+    const stagePath = `stages.${result.stageIndex}`;
+    const { modifiedCount } = await model.updateOne(
+      {
+        _id: approval._id,
+        status: pendingStatus,
+        [`${stagePath}.status`]: ApprovalStageStatus.PENDING,
+        [`${stagePath}.decisions`]: {
+          $size: result.stage.decisions.length - 1,
+        },
+      } as mongoose.RootFilterQuery<T>,
+      {
+        $set: {
+          stages: approval.stages,
+          currentStage: approval.currentStage || 0,
+          ...(approval.approverRoles
+            ? { approverRoles: approval.approverRoles }
+            : {}),
+          ...fields,
+        },
+      },
+    );
+
+    if (modifiedCount === 0) {
+      throw new ApiError(
+        action,
+        StatusCodes.CONFLICT,
+        'APPROVAL_DECISION_CONFLICT',
+        'The approval was decided by someone else in the meantime; reload it and try again',
+      );
+    }
+  }
+}
+
+export default ApprovalChainService;
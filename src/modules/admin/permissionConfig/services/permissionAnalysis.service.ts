@@ -0,0 +1,429 @@
+// services/permissionAnalysis.service.ts
+import {
+  PermissionConfig,
+  IPermissionConfig,
+  ActionType,
+} from '../../../../models/permissionConfig.model';
+import { Role } from '../../../../models/role.model';
+import { User } from '../../../../models/user.model';
+import { Department } from '../../../../models/department.model';
+import { Category } from '../../../../models/category.model';
+
+export type PermissionWarningType =
+  | 'SHADOWED'
+  | 'DUPLICATE'
+  | 'CONTRADICTORY'
+  | 'DANGLING_REFERENCE'
+  | 'NO_RULES';
+
+export interface PermissionWarning {
+  type: PermissionWarningType;
+  action: ActionType;
+  ruleIds: string[];
+  ruleNames: string[];
+  message: string;
+}
+
+export interface PermissionAnalysisReport {
+  analyzedRules: number;
+  summary: Record<PermissionWarningType, number>;
+  warnings: PermissionWarning[];
+  actionsWithoutRules: ActionType[];
+}
+
+// A rule in comparable form: references as sorted id strings
+interface AnalyzedRule {
+  id: string;
+  name: string;
+  action: ActionType;
+  permission: IPermissionConfig['permission'];
+  priority: number;
+  createdAt: number;
+  userIds: string[];
+  roleIds: string[];
+  departmentIds: string[];
+  categoryIds: string[];
+  approverRoles: string[];
+  approvalChain: Array<{
+    name: string;
+    approverRoles: string[];
+    requireAll: boolean;
+  }>;
+  maxValue: number | null;
+  validFrom: number | null;
+  validUntil: number | null;
+  schedule: IPermissionConfig['schedule'] | null;
+}
+
+// Conditions matched against the subject/request, besides users
+const CONDITION_FIELDS = ['roleIds', 'departmentIds', 'categoryIds'] as const;
+
+class PermissionAnalysisService {
+  private static toIdStrings(ids?: unknown[]): string[] {
+    return (ids || []).map((id) => String(id)).sort();
+  }
+
+  private static toRule(config: IPermissionConfig): AnalyzedRule {
+    return {
+      id: String(config._id),
+      name: config.name,
+      action: config.action,
+      permission: config.permission,
+      priority: config.priority,
+      createdAt: config.createdAt ? new Date(config.createdAt).getTime() : 0,
+      userIds: this.toIdStrings(config.userIds),
+      roleIds: this.toIdStrings(config.roleIds),
+      departmentIds: this.toIdStrings(config.departmentIds),
+      categoryIds: this.toIdStrings(config.categoryIds),
+      approverRoles: this.toIdStrings(config.approverRoles),
+      approvalChain: (config.approvalChain || []).map((stage) => ({
+        name: stage.name,
+        approverRoles: this.toIdStrings(stage.approverRoles),
+        requireAll: stage.requireAll === true,
+      })),
+      maxValue: config.maxValue ?? null,
+      validFrom: config.validFrom ? new Date(config.validFrom).getTime() : null,
+      validUntil: config.validUntil
+        ? new Date(config.validUntil).getTime()
+        : null,
+      schedule:
+        config.schedule?.daysOfWeek?.length || config.schedule?.startTime
+          ? config.schedule
+          : null,
+    };
+  }
+
+  private static isSubset(inner: string[], outer: string[]): boolean {
+    return inner.every((id) => outer.includes(id));
+  }
+
+  private static intersects(a: string[], b: string[]): boolean {
+    return a.some((id) => b.includes(id));
+  }
+
+  private static hasTimeConstraints(rule: AnalyzedRule): boolean {
+    return (
+      rule.validFrom !== null || rule.validUntil !== null || !!rule.schedule
+    );
+  }
+
+  /**
+   * Whether `a` is evaluated before `b` (same order as checkPermission)
+   */
+  private static precedes(a: AnalyzedRule, b: AnalyzedRule): boolean {
+    return (
+      a.priority > b.priority ||
+      (a.priority === b.priority && a.createdAt > b.createdAt)
+    );
+  }
+
+  /**
+   * Whether `a` matches every request that `b` matches.
+   * Subjects are assumed to have a role and a department, as every user
+   * does; rules with time constraints are never considered covering.
+   */
+  private static covers(a: AnalyzedRule, b: AnalyzedRule): boolean {
+    if (this.hasTimeConstraints(a)) return false;
+
+    // User-specific rules ignore every other condition
+    if (a.userIds.length) {
+      return b.userIds.length > 0 && this.isSubset(b.userIds, a.userIds);
+    }
+    if (b.userIds.length) return false;
+
+    for (const field of CONDITION_FIELDS) {
+      if (
+        a[field].length &&
+        !(b[field].length && this.isSubset(b[field], a[field]))
+      ) {
+        return false;
+      }
+    }
+
+    if (a.maxValue !== null) {
+      return b.maxValue !== null && b.maxValue <= a.maxValue;
+    }
+    return true;
+  }
+
+  /**
+   * Whether some request can match both rules
+   */
+  private static overlaps(a: AnalyzedRule, b: AnalyzedRule): boolean {
+    const startA = a.validFrom ?? -Infinity;
+    const startB = b.validFrom ?? -Infinity;
+    const endA = a.validUntil ?? Infinity;
+    const endB = b.validUntil ?? Infinity;
+    if (startA >= endB || startB >= endA) return false;
+
+    if (a.userIds.length && b.userIds.length) {
+      return this.intersects(a.userIds, b.userIds);
+    }
+    // A listed user may also hold the roles/departments of the other rule
+    if (a.userIds.length || b.userIds.length) return true;
+
+    return CONDITION_FIELDS.every(
+      (field) =>
+        !a[field].length ||
+        !b[field].length ||
+        this.intersects(a[field], b[field]),
+    );
+  }
+
+  /**
+   * Conditions and outcome of a rule, for finding exact duplicates
+   */
+  private static signature(rule: AnalyzedRule): string {
+    return JSON.stringify([
+      rule.permission,
+      rule.userIds,
+      rule.roleIds,
+      rule.departmentIds,
+      rule.categoryIds,
+      rule.approverRoles,
+      rule.approvalChain,
+      rule.maxValue,
+      rule.validFrom,
+      rule.validUntil,
+      rule.schedule,
+    ]);
+  }
+
+  private static warning(
+    type: PermissionWarningType,
+    action: ActionType,
+    rules: AnalyzedRule[],
+    message: string,
+  ): PermissionWarning {
+    return {
+      type,
+      action,
+      ruleIds: rules.map((rule) => rule.id),
+      ruleNames: rules.map((rule) => rule.name),
+      message,
+    };
+  }
+
+  /**
+   * Shadowed, duplicate and contradictory rules of one action.
+   * Rules must be in evaluation order.
+   */
+  private static analyzeAction(
+    action: ActionType,
+    rules: AnalyzedRule[],
+  ): PermissionWarning[] {
+    const warnings: PermissionWarning[] = [];
+
+    const bySignature = new Map<string, AnalyzedRule[]>();
+    rules.forEach((rule) => {
+      const key = this.signature(rule);
+      bySignature.set(key, [...(bySignature.get(key) || []), rule]);
+    });
+    bySignature.forEach((group) => {
+      if (group.length < 2) return;
+      warnings.push(
+        this.warning(
+          'DUPLICATE',
+          action,
+          group,
+          `Rules ${group.map((rule) => `"${rule.name}"`).join(', ')} have identical conditions and outcome`,
+        ),
+      );
+    });
+
+    rules.forEach((rule, index) => {
+      // Report only the first rule that shadows it; duplicates are
+      // reported above
+      const shadowing = rules
+        .slice(0, index)
+        .find(
+          (earlier) =>
+            this.signature(earlier) !== this.signature(rule) &&
+            this.precedes(earlier, rule) &&
+            this.covers(earlier, rule),
+        );
+      if (shadowing) {
+        warnings.push(
+          this.warning(
+            'SHADOWED',
+            action,
+            [rule, shadowing],
+            `Rule "${rule.name}" can never match: "${shadowing.name}" (priority ${shadowing.priority}) matches every request it does and is evaluated first`,
+          ),
+        );
+      }
+
+      rules.slice(index + 1).forEach((other) => {
+        if (
+          other.priority === rule.priority &&
+          other.permission !== rule.permission &&
+          this.overlaps(rule, other)
+        ) {
+          warnings.push(
+            this.warning(
+              'CONTRADICTORY',
+              action,
+              [rule, other],
+              `Rules "${rule.name}" (${rule.permission}) and "${other.name}" (${other.permission}) overlap at priority ${rule.priority}; the newer rule wins`,
+            ),
+          );
+        }
+      });
+    });
+
+    return warnings;
+  }
+
+  /**
+   * Rules that reference roles, users, departments or categories which
+   * no longer exist (or are deleted)
+   */
+  private static async findDanglingReferences(
+    rules: AnalyzedRule[],
+  ): Promise<PermissionWarning[]> {
+    const collect = (fields: Array<keyof AnalyzedRule>) => [
+      ...new Set(
+        rules.flatMap((rule) => fields.flatMap((f) => rule[f] as string[])),
+      ),
+    ];
+    const chainRoles = (rule: AnalyzedRule) =>
+      rule.approvalChain.flatMap((stage) => stage.approverRoles);
+    const roleIds = [
+      ...new Set([
+        ...collect(['roleIds', 'approverRoles']),
+        ...rules.flatMap(chainRoles),
+      ]),
+    ];
+    const userIds = collect(['userIds']);
+    const departmentIds = collect(['departmentIds']);
+    const categoryIds = collect(['categoryIds']);
+
+    const [roles, users, departments, categories] = await Promise.all([
+      Role.find({ _id: { $in: roleIds } })
+        .select('_id')
+        .lean(),
+      User.find({ _id: { $in: userIds }, deletedAt: null })
+        .select('_id')
+        .lean(),
+      Department.find({ _id: { $in: departmentIds } })
+        .select('_id')
+        .lean(),
+      Category.find({ _id: { $in: categoryIds }, deleted_at: null })
+        .select('_id')
+        .lean(),
+    ]);
+    const existing = new Set(
+      [...roles, ...users, ...departments, ...categories].map((doc) =>
+        String(doc._id),
+      ),
+    );
+
+    const labels: Array<[keyof AnalyzedRule, string]> = [
+      ['roleIds', 'role'],
+      ['approverRoles', 'approver role'],
+      ['userIds', 'user'],
+      ['departmentIds', 'department'],
+      ['categoryIds', 'category'],
+    ];
+
+    return rules.flatMap((rule) => {
+      const missing = [
+        ...labels.flatMap(([field, label]) =>
+          (rule[field] as string[])
+            .filter((id) => !existing.has(id))
+            .map((id) => `${label} ${id}`),
+        ),
+        ...[...new Set(chainRoles(rule))]
+          .filter((id) => !existing.has(id))
+          .map((id) => `approval chain role ${id}`),
+      ];
+      return missing.length
+        ? [
+            this.warning(
+              'DANGLING_REFERENCE',
+              rule.action,
+              [rule],
+              `Rule "${rule.name}" references deleted or missing ${missing.join(', ')}`,
+            ),
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * Analyze the active, unexpired rules (optionally of one action)
+   */
+  static async analyze(
+    filters: { action?: ActionType | undefined } = {},
+  ): Promise<PermissionAnalysisReport> {
+    const configs = await PermissionConfig.find({
+      ...(filters.action ? { action: filters.action } : {}),
+      isActive: true,
+      $or: [{ validUntil: null }, { validUntil: { $gt: new Date() } }],
+    })
+      .sort({ priority: -1, createdAt: -1 })
+      .lean();
+    const rules = configs.map((config) => this.toRule(config));
+
+    const byAction = new Map<ActionType, AnalyzedRule[]>();
+    rules.forEach((rule) => {
+      byAction.set(rule.action, [...(byAction.get(rule.action) || []), rule]);
+    });
+
+    const warnings: PermissionWarning[] = [];
+    byAction.forEach((actionRules, action) => {
+      warnings.push(...this.analyzeAction(action, actionRules));
+    });
+    warnings.push(...(await this.findDanglingReferences(rules)));
+
+    // Actions without rules are denied to everyone but admins
+    const actions = filters.action
+      ? [filters.action]
+      : Object.values(ActionType);
+    const actionsWithoutRules = actions.filter(
+      (action) => !byAction.has(action),
+    );
+    actionsWithoutRules.forEach((action) =>
+      warnings.push({
+        type: 'NO_RULES',
+        action,
+        ruleIds: [],
+        ruleNames: [],
+        message: `No active rules for ${action}; it is denied to everyone except admins`,
+      }),
+    );
+
+    const summary: Record<PermissionWarningType, number> = {
+      SHADOWED: 0,
+      DUPLICATE: 0,
+      CONTRADICTORY: 0,
+      DANGLING_REFERENCE: 0,
+      NO_RULES: 0,
+    };
+    warnings.forEach((warning) => {
+      summary[warning.type] += 1;
+    });
+
+    return {
+      analyzedRules: rules.length,
+      summary,
+      warnings,
+      actionsWithoutRules,
+    };
+  }
+
+  /**
+   * Warnings that involve one rule (shown after creating or updating it)
+   */
+  static async getRuleWarnings(
+    config: IPermissionConfig,
+  ): Promise<PermissionWarning[]> {
+    const ruleId = String(config._id);
+    const report = await this.analyze({ action: config.action });
+    return report.warnings.filter((warning) =>
+      warning.ruleIds.includes(ruleId),
+    );
+  }
+}
+
+export default PermissionAnalysisService;
@@ -0,0 +1,113 @@
+// services/permissionCacheSync.service.ts
+import mongoose from 'mongoose';
+import { CacheStamp } from '../../../../models/cacheStamp.model';
+
+const STAMP_KEY = 'permission-config';
+
+/**
+ * Keeps the permission rule cache consistent across instances through a
+ * versioned cache-stamp document. Rule changes bump the version; cached
+ * rules are only used while they were loaded at the current version.
+ *
+ * Long-running servers watch the stamp with a change stream and see new
+ * versions immediately. Change streams need a replica set, so on a single
+ * mongod (and on serverless instances, which never call start) the stamp
+ * is re-read at most every PERMISSION_CACHE_SYNC_MS instead.
+ */
+class PermissionCacheSyncService {
+  private static version = 0;
+  private static checkedAt = 0;
+  private static changeStream: mongoose.mongo.ChangeStream | null = null;
+
+  private static getSyncIntervalMs(): number {
+    return parseInt(process.env['PERMISSION_CACHE_SYNC_MS'] || '5000', 10);
+  }
+
+  private static setVersion(version: number): void {
+    this.version = Math.max(this.version, version);
+    this.checkedAt = Date.now();
+  }
+
+  /**
+   * Current rule version, as last seen by this instance
+   */
+  static async getVersion(): Promise<number> {
+    if (
+      this.changeStream ||
+      Date.now() - this.checkedAt < this.getSyncIntervalMs()
+    ) {
+      return this.version;
+    }
+
+    try {
+      const stamp = await CacheStamp.findOne({ key: STAMP_KEY })
+        .select('version')
+        .lean();
+      this.setVersion(stamp?.version ?? 0);
+    } catch (error) {
+      // Keep serving the cache; the rule TTL still bounds staleness
+      console.error('Failed to read permission cache stamp:', error);
+      this.checkedAt = Date.now();
+    }
+    return this.version;
+  }
+
+  /**
+   * Tell every instance that the rules changed
+   */
+  static async publish(): Promise<number> {
+    try {
+      const stamp = await CacheStamp.findOneAndUpdate(
+        { key: STAMP_KEY },
+        { $inc: { version: 1 } },
+        { upsert: true, new: true },
+      ).lean();
+      this.setVersion(stamp.version);
+    } catch (error) {
+      // The change itself is saved; other instances catch up via the TTL
+      console.error('Failed to publish permission cache stamp:', error);
+    }
+    return this.version;
+  }
+
+  /**
+   * Watch the stamp for changes made by other instances
+   */
+  static start(): void {
+    if (this.changeStream) return;
+
+    const changeStream = CacheStamp.watch([], {
+      fullDocument: 'updateLookup',
+    });
+    this.changeStream = changeStream;
+
+    changeStream.on('change', (change) => {
+      const stamp =
+        'fullDocument' in change
+          ? (change.fullDocument as { key?: string; version?: number } | null)
+          : null;
+      if (stamp?.key === STAMP_KEY && typeof stamp.version === 'number') {
+        this.setVersion(stamp.version);
+      }
+    });
+
+    changeStream.on('error', (error) => {
+      console.warn(
+        `⚠️  Permission cache change stream unavailable (${error.message}); checking the cache stamp every ${this.getSyncIntervalMs()}ms instead`,
+      );
+      this.stop();
+    });
+  }
+
+  /**
+   * Stop watching and fall back to re-reading the stamp
+   */
+  static stop(): void {
+    const changeStream = this.changeStream;
+    this.changeStream = null;
+    this.checkedAt = 0;
+    changeStream?.close().catch(() => undefined);
+  }
+}
+
+export default PermissionCacheSyncService;
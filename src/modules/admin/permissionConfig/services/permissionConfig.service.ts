@@ -4,19 +4,33 @@ import { StatusCodes } from 'http-status-codes';
 import {
   PermissionConfig,
   IPermissionConfig,
+  IPermissionSchedule,
   ActionType,
   PermissionLevel,
 } from '../../../../models/permissionConfig.model';
+import { IApprovalStage } from '../../../../models/approvalChain.model';
 import { IUser, User } from '../../../../models/user.model';
 import { Role } from '../../../../models/role.model';
+import { Department } from '../../../../models/department.model';
+import { PermissionRevisionOperation } from '../../../../models/permissionConfigRevision.model';
 
 import { ApiError } from '../../../../utils/ApiError';
 import { ERROR_MESSAGES } from '../permissionCongif.error.constants';
+import PermissionConfigRevisionService from './permissionConfigRevision.service';
+import PermissionCacheSyncService from './permissionCacheSync.service';
 
 // Constants
 const DEFAULT_PAGE_SIZE = 10;
 const DEFAULT_PRIORITY = 0;
 
+// Actions sub-admins may perform without a matching rule (read-only access)
+export const SUB_ADMIN_VIEW_ACTIONS: ActionType[] = [
+  ActionType.VIEW_SO,
+  ActionType.VIEW_MACHINE,
+  ActionType.VIEW_QC_ENTRY,
+  ActionType.VIEW_QC_APPROVAL,
+];
+
 // Populate options for consistent data fetching
 const POPULATE_OPTIONS = {
   roleIds: { path: 'roleIds', select: 'name' },
@@ -24,10 +38,17 @@ const POPULATE_OPTIONS = {
   departmentIds: { path: 'departmentIds', select: 'name' },
   categoryIds: { path: 'categoryIds', select: 'name' },
   approverRoles: { path: 'approverRoles', select: 'name' },
+  approvalChain: { path: 'approvalChain.approverRoles', select: 'name' },
   createdBy: { path: 'createdBy', select: 'username email' },
 } as const;
 
 // Types
+export interface ApprovalStageData {
+  name: string;
+  approverRoles: string[];
+  requireAll?: boolean | undefined;
+}
+
 export interface CreatePermissionConfigData {
   name: string;
   description: string;
@@ -38,8 +59,12 @@ export interface CreatePermissionConfigData {
   categoryIds?: string[] | undefined;
   permission: PermissionLevel;
   approverRoles?: string[] | undefined;
+  approvalChain?: ApprovalStageData[] | undefined;
   maxValue?: number | undefined;
   priority?: number | undefined;
+  validFrom?: Date | undefined;
+  validUntil?: Date | undefined;
+  schedule?: IPermissionSchedule | undefined;
   createdBy: string;
 }
 
@@ -53,15 +78,21 @@ export interface UpdatePermissionConfigData {
   categoryIds?: string[];
   permission?: PermissionLevel;
   approverRoles?: string[];
+  approvalChain?: ApprovalStageData[] | null;
   maxValue?: number;
   priority?: number;
   isActive?: boolean;
+  // null clears the constraint
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  schedule?: IPermissionSchedule | null;
 }
 
 export interface PermissionCheckResult {
   allowed: boolean;
   requiresApproval: boolean;
   approverRoles?: mongoose.Types.ObjectId[];
+  approvalChain?: IApprovalStage[];
   matchedRule?: IPermissionConfig;
   reason?: string;
   matchedBy?: string;
@@ -82,11 +113,82 @@ interface ConfigMatchResult {
   matchedBy?: string;
 }
 
+export type ConditionStatus =
+  | 'MATCHED'
+  | 'NOT_MATCHED'
+  | 'NOT_CONFIGURED' // The rule does not use this condition
+  | 'SKIPPED'; // Not evaluated (e.g. subject has no role)
+
+export interface ConditionEvaluation {
+  condition:
+    | 'schedule'
+    | 'user'
+    | 'role'
+    | 'department'
+    | 'category'
+    | 'maxValue';
+  status: ConditionStatus;
+  detail: string;
+}
+
+export interface RuleEvaluation extends ConfigMatchResult {
+  conditions: ConditionEvaluation[];
+}
+
+// Who a rule is evaluated for: a real user or a hypothetical role/department
+export interface PermissionSubject {
+  userId?: string | null | undefined;
+  roleId?: string | null | undefined;
+  departmentId?: string | null | undefined;
+}
+
+export interface ExplainPermissionData {
+  action: ActionType;
+  userId?: string | undefined;
+  roleId?: string | undefined;
+  departmentId?: string | undefined;
+  categoryId?: string | undefined;
+  machineValue?: number | undefined;
+  at?: Date | undefined; // Evaluate time constraints at this moment
+}
+
+export interface PermissionExplanation {
+  action: ActionType;
+  subject: {
+    userId: string | null;
+    username: string | null;
+    roleId: string | null;
+    roleName: string | null;
+    departmentId: string | null;
+    departmentName: string | null;
+    hypothetical: boolean;
+  };
+  context: {
+    categoryId: string | null;
+    machineValue: number | null;
+    at: Date;
+  };
+  adminOverride: boolean;
+  subAdminViewBypass: boolean;
+  rules: Array<
+    RuleEvaluation & {
+      ruleId: string;
+      name: string;
+      permission: PermissionLevel;
+      priority: number;
+      winner: boolean;
+    }
+  >;
+  winningRuleId: string | null;
+  result: PermissionCheckResult;
+}
+
 class PermissionConfigService {
   // Cache for permission configs to reduce database calls
   private static permissionCache = new Map<string, IPermissionConfig[]>();
   private static cacheTimeout = 5 * 60 * 1000; // 5 minutes
   private static lastCacheUpdate = 0;
+  private static cacheVersion = 0; // Rule version the cache was loaded at
   private static adminRoleIdCache: string | null = null;
   private static rolesCacheUpdatedAt = 0;
   private static rolesCacheTtlMs = 5 * 60 * 1000; // 5 minutes
@@ -100,10 +202,18 @@ class PermissionConfigService {
   }
 
   /**
-   * Clear permission cache (public method for external use)
+   * Clear the cache here and tell other instances the rules changed
    */
-  static clearPermissionCache(): void {
+  private static async invalidateCache(): Promise<void> {
     this.clearCache();
+    await PermissionCacheSyncService.publish();
+  }
+
+  /**
+   * Clear permission cache on every instance (public method for external use)
+   */
+  static async clearPermissionCache(): Promise<void> {
+    await this.invalidateCache();
   }
 
   /**
@@ -132,8 +242,9 @@ class PermissionConfigService {
    */
   private static getCachedConfigs(
     action: ActionType,
+    version: number,
   ): IPermissionConfig[] | null {
-    if (!this.isCacheValid()) {
+    if (!this.isCacheValid() || version !== this.cacheVersion) {
       this.clearCache();
       return null;
     }
@@ -146,7 +257,12 @@ class PermissionConfigService {
   private static cacheConfigs(
     action: ActionType,
     configs: IPermissionConfig[],
+    version: number,
   ): void {
+    if (version !== this.cacheVersion) {
+      this.permissionCache.clear();
+      this.cacheVersion = version;
+    }
     this.permissionCache.set(action, configs);
     this.lastCacheUpdate = Date.now();
   }
@@ -161,6 +277,22 @@ class PermissionConfigService {
     return ids.map((id) => new mongoose.Types.ObjectId(id));
   }
 
+  /**
+   * Convert approval chain stages, with role IDs as ObjectIds
+   */
+  private static convertApprovalChain(
+    chain?: ApprovalStageData[],
+  ): IApprovalStage[] | undefined {
+    if (!chain || chain.length === 0) return undefined;
+    return chain.map((stage) => ({
+      name: stage.name,
+      approverRoles: stage.approverRoles.map(
+        (id) => new mongoose.Types.ObjectId(id),
+      ),
+      requireAll: stage.requireAll === true,
+    }));
+  }
+
   /**
    * Create standardized populate query
    */
@@ -171,6 +303,7 @@ class PermissionConfigService {
       .populate(POPULATE_OPTIONS.departmentIds)
       .populate(POPULATE_OPTIONS.categoryIds)
       .populate(POPULATE_OPTIONS.approverRoles)
+      .populate(POPULATE_OPTIONS.approvalChain)
       .populate(POPULATE_OPTIONS.createdBy);
   }
 
@@ -251,15 +384,26 @@ class PermissionConfigService {
         departmentIds: this.convertToObjectIds(data.departmentIds),
         categoryIds: this.convertToObjectIds(data.categoryIds),
         approverRoles: this.convertToObjectIds(data.approverRoles),
+        approvalChain: this.convertApprovalChain(data.approvalChain),
         maxValue: data.maxValue,
+        validFrom: data.validFrom,
+        validUntil: data.validUntil,
+        schedule: data.schedule,
         createdBy: new mongoose.Types.ObjectId(data.createdBy),
       };
 
       const permissionConfig = new PermissionConfig(permissionConfigData);
       await permissionConfig.save();
 
+      await PermissionConfigRevisionService.record(
+        PermissionRevisionOperation.CREATE,
+        null,
+        permissionConfig,
+        data.createdBy,
+      );
+
       // Clear cache after creation
-      this.clearCache();
+      await this.invalidateCache();
 
       return permissionConfig;
     } catch (error) {
@@ -352,6 +496,7 @@ class PermissionConfigService {
   static async update(
     id: string,
     data: UpdatePermissionConfigData,
+    updatedBy: string,
   ): Promise<IPermissionConfig> {
     try {
       // Validate priority if being updated
@@ -375,6 +520,9 @@ class PermissionConfigService {
         'priority',
         'isActive',
         'maxValue',
+        'validFrom',
+        'validUntil',
+        'schedule',
       ];
       simpleFields.forEach((field) => {
         if (data[field as keyof UpdatePermissionConfigData] !== undefined) {
@@ -382,6 +530,11 @@ class PermissionConfigService {
         }
       });
 
+      // A new expiry date gets a new expiry notice
+      if (data.validUntil !== undefined) {
+        updateData['expiryNotifiedAt'] = null;
+      }
+
       // ID array field updates
       const idFields = [
         'roleIds',
@@ -398,6 +551,14 @@ class PermissionConfigService {
         }
       });
 
+      // null (or an empty chain) removes the chain
+      if (data.approvalChain !== undefined) {
+        updateData['approvalChain'] =
+          this.convertApprovalChain(data.approvalChain ?? undefined) ?? null;
+      }
+
+      const before = await PermissionConfig.findById(id).lean();
+
       const permissionConfig = await PermissionConfig.findByIdAndUpdate(
         id,
         updateData,
@@ -408,6 +569,7 @@ class PermissionConfigService {
         .populate(POPULATE_OPTIONS.departmentIds)
         .populate(POPULATE_OPTIONS.categoryIds)
         .populate(POPULATE_OPTIONS.approverRoles)
+        .populate(POPULATE_OPTIONS.approvalChain)
         .populate(POPULATE_OPTIONS.createdBy)
         .lean();
 
@@ -420,8 +582,15 @@ class PermissionConfigService {
         );
       }
 
+      await PermissionConfigRevisionService.record(
+        PermissionRevisionOperation.UPDATE,
+        before as IPermissionConfig,
+        permissionConfig as IPermissionConfig,
+        updatedBy,
+      );
+
       // Clear cache after update
-      this.clearCache();
+      await this.invalidateCache();
 
       return permissionConfig as IPermissionConfig;
     } catch (error) {
@@ -439,7 +608,8 @@ class PermissionConfigService {
   /**
    * Delete permission configuration (soft delete)
    */
-  static async delete(id: string): Promise<void> {
+  static async delete(id: string, deletedBy: string): Promise<void> {
+    const before = await PermissionConfig.findById(id).lean();
     const permissionConfig = await PermissionConfig.findByIdAndUpdate(
       id,
       { isActive: false },
@@ -455,16 +625,56 @@ class PermissionConfigService {
       );
     }
 
+    await PermissionConfigRevisionService.record(
+      PermissionRevisionOperation.DELETE,
+      before as IPermissionConfig,
+      permissionConfig,
+      deletedBy,
+    );
+
     // Clear cache after deletion
-    this.clearCache();
+    await this.invalidateCache();
   }
 
   /**
    * Toggle permission configuration active status
    */
-  static async toggleActiveStatus(id: string): Promise<IPermissionConfig> {
+  static async toggleActiveStatus(
+    id: string,
+    updatedBy: string,
+  ): Promise<IPermissionConfig> {
     const currentConfig = await this.getById(id);
-    return this.update(id, { isActive: !currentConfig.isActive });
+    return this.update(id, { isActive: !currentConfig.isActive }, updatedBy);
+  }
+
+  /**
+   * Restore a permission configuration to an earlier revision. A restored
+   * active rule must not share its priority with another active rule of
+   * the same action.
+   */
+  static async rollback(
+    id: string,
+    revision: number,
+    rolledBackBy: string,
+  ): Promise<IPermissionConfig> {
+    const permissionConfig = await PermissionConfigRevisionService.rollback(
+      id,
+      revision,
+      rolledBackBy,
+      async (snapshot) => {
+        if (snapshot['isActive'] === false) return;
+        await this.validatePriority(
+          Number(snapshot['priority'] ?? 0),
+          snapshot['action'] as ActionType,
+          id,
+        );
+      },
+    );
+
+    // Clear cache after rollback
+    await this.invalidateCache();
+
+    return permissionConfig;
   }
 
   /**
@@ -506,20 +716,25 @@ class PermissionConfigService {
         };
       }
 
-      // Try to get cached configs first
-      let permissionConfigs = this.getCachedConfigs(action);
+      // Try to get cached configs first. The version is read before
+      // loading so a change made meanwhile invalidates what is loaded.
+      const cacheVersion = await PermissionCacheSyncService.getVersion();
+      let permissionConfigs = this.getCachedConfigs(action, cacheVersion);
 
       if (!permissionConfigs) {
-        // Fetch from database if not cached
+        // Fetch from database if not cached. Expired rules are left out;
+        // the remaining time constraints are checked per request, so
+        // cached rules stay correct as their windows open and close.
         permissionConfigs = await PermissionConfig.find({
           action,
           isActive: true,
+          $or: [{ validUntil: null }, { validUntil: { $gt: new Date() } }],
         })
           .sort({ priority: -1, createdAt: -1 })
           .lean();
 
         // Cache the results
-        this.cacheConfigs(action, permissionConfigs);
+        this.cacheConfigs(action, permissionConfigs, cacheVersion);
       }
 
       if (permissionConfigs.length === 0) {
@@ -561,6 +776,157 @@ class PermissionConfigService {
     }
   }
 
+  /**
+   * Explain a permission decision: every active rule for the action in
+   * evaluation order, with per-condition results and the winning rule.
+   * Works for a real user or a hypothetical role/department; explicit
+   * role/department values override the user's own.
+   */
+  static async explainPermission(
+    data: ExplainPermissionData,
+  ): Promise<PermissionExplanation> {
+    let userId: string | null = null;
+    let username: string | null = null;
+    let roleId = data.roleId || null;
+    let departmentId = data.departmentId || null;
+
+    if (data.userId) {
+      const user = await User.findById(data.userId).lean();
+      if (!user) {
+        throw this.createError(
+          'EXPLAIN_PERMISSION',
+          StatusCodes.NOT_FOUND,
+          'USER_NOT_FOUND',
+          'User not found',
+        );
+      }
+      userId = user._id.toString();
+      username = user.username;
+      roleId = roleId || this.toIdString(user.role);
+      departmentId = departmentId || this.toIdString(user.department);
+    }
+
+    const [role, department] = await Promise.all([
+      roleId ? Role.findById(roleId).select('name').lean() : null,
+      departmentId
+        ? Department.findById(departmentId).select('name').lean()
+        : null,
+    ]);
+    if (roleId && !role) {
+      throw this.createError(
+        'EXPLAIN_PERMISSION',
+        StatusCodes.NOT_FOUND,
+        'ROLE_NOT_FOUND',
+        'Role not found',
+      );
+    }
+    if (departmentId && !department) {
+      throw this.createError(
+        'EXPLAIN_PERMISSION',
+        StatusCodes.NOT_FOUND,
+        'DEPARTMENT_NOT_FOUND',
+        'Department not found',
+      );
+    }
+
+    const at = data.at || new Date();
+
+    // Read from the database, not the cache, so recent edits are visible
+    const configs = await PermissionConfig.find({
+      action: data.action,
+      isActive: true,
+    })
+      .sort({ priority: -1, createdAt: -1 })
+      .lean();
+
+    const subject: PermissionSubject = { userId, roleId, departmentId };
+    let winner: IPermissionConfig | null = null;
+    let winnerMatchedBy = '';
+    const rules = configs.map((config) => {
+      const evaluation = this.evaluateConfig(
+        subject,
+        config,
+        data.categoryId,
+        data.machineValue,
+        at,
+      );
+      const isWinner = !winner && evaluation.matches;
+      if (isWinner) {
+        winner = config;
+        winnerMatchedBy = evaluation.matchedBy!;
+      }
+      return {
+        ruleId: config._id.toString(),
+        name: config.name,
+        permission: config.permission,
+        priority: config.priority,
+        ...evaluation,
+        winner: isWinner,
+      };
+    });
+
+    const adminRoleId = await this.getAdminRoleId();
+    const adminOverride = !!roleId && roleId === adminRoleId;
+    const subAdminViewBypass =
+      role?.name?.toLowerCase() === 'sub-admin' &&
+      SUB_ADMIN_VIEW_ACTIONS.includes(data.action);
+
+    // Same precedence as the permission middleware and checkPermission
+    let result: PermissionCheckResult;
+    if (adminOverride) {
+      result = {
+        allowed: true,
+        requiresApproval: false,
+        reason: 'Admin role override - full access granted',
+        matchedBy: 'admin role',
+      };
+    } else if (subAdminViewBypass) {
+      result = {
+        allowed: true,
+        requiresApproval: false,
+        reason: 'Sub-admin role - read-only access granted',
+        matchedBy: 'sub-admin role',
+      };
+    } else if (configs.length === 0) {
+      result = {
+        allowed: false,
+        requiresApproval: false,
+        reason: 'No permission rules found for this action',
+      };
+    } else if (winner) {
+      result = this.createPermissionResult(winner, winnerMatchedBy);
+    } else {
+      result = {
+        allowed: false,
+        requiresApproval: false,
+        reason: 'No matching permission rule found - access denied by default',
+      };
+    }
+
+    return {
+      action: data.action,
+      subject: {
+        userId,
+        username,
+        roleId,
+        roleName: role?.name || null,
+        departmentId,
+        departmentName: department?.name || null,
+        hypothetical: !data.userId || !!data.roleId || !!data.departmentId,
+      },
+      context: {
+        categoryId: data.categoryId || null,
+        machineValue: data.machineValue ?? null,
+        at,
+      },
+      adminOverride,
+      subAdminViewBypass,
+      rules,
+      winningRuleId: rules.find((rule) => rule.winner)?.ruleId || null,
+      result,
+    };
+  }
+
   /**
    * Create permission result based on config and match type
    */
@@ -588,6 +954,9 @@ class PermissionConfigService {
           ...baseResult,
           requiresApproval: true,
           ...(config.approverRoles && { approverRoles: config.approverRoles }),
+          ...(config.approvalChain?.length && {
+            approvalChain: config.approvalChain,
+          }),
           reason: `Approval required by ${matchedBy} permission rule`,
         };
 
@@ -649,6 +1018,21 @@ class PermissionConfigService {
     return permissions;
   }
 
+  /**
+   * Id string of an ObjectId, id string or populated document
+   */
+  private static toIdString(field: unknown): string | null {
+    if (!field) return null;
+    if (typeof field === 'string') return field;
+    if (typeof field === 'object' && '_id' in field) {
+      return (field as { _id: { toString(): string } })._id.toString();
+    }
+    if (typeof field === 'object' && 'toString' in field) {
+      return (field as { toString(): string }).toString();
+    }
+    return null;
+  }
+
   /**
    * Check if a permission config matches the user and context
    */
@@ -658,99 +1042,293 @@ class PermissionConfigService {
     categoryId?: string,
     machineValue?: number,
   ): ConfigMatchResult {
-    const conditions: string[] = [];
-
-    // Helper function to safely get ID string from ObjectId or populated object
-    const getSafeIdString = (field: unknown): string | null => {
-      if (!field) return null;
-      if (typeof field === 'string') return field;
-      if (typeof field === 'object' && field !== null && '_id' in field) {
-        const objWithId = field as { _id: { toString(): string } };
-        return objWithId._id.toString();
-      }
-      if (typeof field === 'object' && field !== null && 'toString' in field) {
-        const objWithToString = field as { toString(): string };
-        return objWithToString.toString();
-      }
-      return null;
+    const { matches, matchedBy } = this.evaluateConfig(
+      {
+        userId: this.toIdString(user._id),
+        roleId: this.toIdString(user.role),
+        departmentId: this.toIdString(user.department),
+      },
+      config,
+      categoryId,
+      machineValue,
+    );
+    return matchedBy ? { matches, matchedBy } : { matches };
+  }
+
+  /**
+   * Weekday and HH:mm of a moment in a timezone
+   */
+  private static getLocalTime(
+    date: Date,
+    timezone: string,
+  ): { day: number; time: string } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: string) =>
+      parts.find((entry) => entry.type === type)?.value || '';
+
+    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    return {
+      day: days.indexOf(part('weekday')),
+      time: `${part('hour')}:${part('minute')}`,
     };
+  }
 
-    // Check user-specific rules (highest priority)
-    if (config.userIds?.length) {
-      const userIdStrings = config.userIds.map((id) => id.toString());
-      const userId = getSafeIdString(user._id);
-      if (userId && userIdStrings.includes(userId)) {
-        return { matches: true, matchedBy: 'user-specific rule' };
-      }
-      // If user-specific rule exists but doesn't match, return false
-      return { matches: false };
+  /**
+   * Check the validity period and recurring schedule of a rule
+   */
+  private static evaluateSchedule(
+    config: IPermissionConfig,
+    now: Date,
+  ): ConditionEvaluation {
+    const { validFrom, validUntil, schedule } = config;
+    const hasSchedule =
+      !!schedule?.daysOfWeek?.length ||
+      !!(schedule?.startTime && schedule?.endTime);
+
+    if (!validFrom && !validUntil && !hasSchedule) {
+      return {
+        condition: 'schedule',
+        status: 'NOT_CONFIGURED',
+        detail: 'Rule has no time constraints',
+      };
+    }
+    if (validFrom && now < new Date(validFrom)) {
+      return {
+        condition: 'schedule',
+        status: 'NOT_MATCHED',
+        detail: `Rule is not valid before ${new Date(validFrom).toISOString()}`,
+      };
     }
+    if (validUntil && now >= new Date(validUntil)) {
+      return {
+        condition: 'schedule',
+        status: 'NOT_MATCHED',
+        detail: `Rule expired at ${new Date(validUntil).toISOString()}`,
+      };
+    }
+
+    if (schedule && hasSchedule) {
+      const timezone =
+        schedule.timezone || process.env['PERMISSION_TIMEZONE'] || 'UTC';
+      const { day, time } = this.getLocalTime(now, timezone);
 
-    // Check role-specific rules
-    if (config.roleIds?.length && user.role) {
-      const roleIdStrings = config.roleIds.map((id) => id.toString());
-      // Handle both ObjectId and populated object cases
-      let userRoleId: string | null = null;
-      if (typeof user.role === 'object' && user.role._id) {
-        userRoleId = user.role._id.toString();
-      } else if (user.role?.toString) {
-        userRoleId = user.role.toString();
+      if (schedule.daysOfWeek?.length && !schedule.daysOfWeek.includes(day)) {
+        return {
+          condition: 'schedule',
+          status: 'NOT_MATCHED',
+          detail: `Rule does not apply on this weekday (${timezone})`,
+        };
       }
 
-      if (!userRoleId || !roleIdStrings.includes(userRoleId)) {
-        return { matches: false };
+      const { startTime, endTime } = schedule;
+      if (startTime && endTime) {
+        // HH:mm strings compare correctly as text
+        const inWindow =
+          startTime <= endTime
+            ? time >= startTime && time < endTime
+            : time >= startTime || time < endTime;
+        if (!inWindow) {
+          return {
+            condition: 'schedule',
+            status: 'NOT_MATCHED',
+            detail: `Time ${time} is outside ${startTime}-${endTime} (${timezone})`,
+          };
+        }
       }
-      conditions.push('role');
     }
 
-    // Check department-specific rules
-    if (config.departmentIds?.length && user.department) {
-      const deptIdStrings = config.departmentIds.map((id) => id.toString());
-      // Handle both ObjectId and populated object cases
-      let userDeptId: string | null = null;
-      if (typeof user.department === 'object' && user.department._id) {
-        userDeptId = user.department._id.toString();
-      } else if (user.department?.toString) {
-        userDeptId = user.department.toString();
-      }
+    return {
+      condition: 'schedule',
+      status: 'MATCHED',
+      detail: 'Rule is within its validity period and schedule',
+    };
+  }
 
-      if (!userDeptId || !deptIdStrings.includes(userDeptId)) {
-        return { matches: false };
-      }
-      conditions.push('department');
+  /**
+   * Evaluate every condition of a rule for a subject and context.
+   * Rules outside their validity period or schedule never match.
+   * User-specific rules only consider the user; otherwise all configured
+   * conditions must match, and a rule without conditions matches everyone.
+   */
+  private static evaluateConfig(
+    subject: PermissionSubject,
+    config: IPermissionConfig,
+    categoryId?: string,
+    machineValue?: number,
+    now: Date = new Date(),
+  ): RuleEvaluation {
+    const conditions: ConditionEvaluation[] = [];
+    const toStrings = (ids?: mongoose.Types.ObjectId[]) =>
+      (ids || []).map((id) => id.toString());
+
+    const schedule = this.evaluateSchedule(config, now);
+    conditions.push(schedule);
+    if (schedule.status === 'NOT_MATCHED') {
+      (['user', 'role', 'department', 'category', 'maxValue'] as const).forEach(
+        (condition) =>
+          conditions.push({
+            condition,
+            status: 'SKIPPED',
+            detail: 'Rule is not in effect at this time',
+          }),
+      );
+      return { matches: false, conditions };
     }
 
-    // Check category-specific rules
-    if (config.categoryIds?.length) {
-      if (!categoryId) {
-        return { matches: false };
-      }
-      const categoryIdStrings = config.categoryIds.map((id) => id.toString());
-      if (!categoryIdStrings.includes(categoryId)) {
-        return { matches: false };
-      }
-      conditions.push('category');
+    // User-specific rules (highest priority) ignore every other condition
+    const userIds = toStrings(config.userIds);
+    if (userIds.length) {
+      const matched = !!subject.userId && userIds.includes(subject.userId);
+      conditions.push({
+        condition: 'user',
+        status: matched ? 'MATCHED' : 'NOT_MATCHED',
+        detail: matched
+          ? 'User is listed in the rule'
+          : subject.userId
+            ? 'User is not listed in the rule'
+            : 'Rule targets specific users; no user given',
+      });
+      (['role', 'department', 'category', 'maxValue'] as const).forEach(
+        (condition) =>
+          conditions.push({
+            condition,
+            status: 'SKIPPED',
+            detail: 'User-specific rules ignore other conditions',
+          }),
+      );
+      return matched
+        ? { matches: true, matchedBy: 'user-specific rule', conditions }
+        : { matches: false, conditions };
     }
+    conditions.push({
+      condition: 'user',
+      status: 'NOT_CONFIGURED',
+      detail: 'Rule does not target specific users',
+    });
 
-    // Check value-based rules
-    if (config.maxValue !== undefined) {
-      if (machineValue === undefined || machineValue > config.maxValue) {
-        return { matches: false };
+    const matchedConditions: string[] = [];
+    let failed = false;
+
+    // Role and department are only checked when the subject has one
+    const membership = [
+      {
+        condition: 'role' as const,
+        ids: toStrings(config.roleIds),
+        value: subject.roleId,
+      },
+      {
+        condition: 'department' as const,
+        ids: toStrings(config.departmentIds),
+        value: subject.departmentId,
+      },
+    ];
+    for (const { condition, ids, value } of membership) {
+      if (!ids.length) {
+        conditions.push({
+          condition,
+          status: 'NOT_CONFIGURED',
+          detail: `Rule does not restrict by ${condition}`,
+        });
+      } else if (!value) {
+        conditions.push({
+          condition,
+          status: 'SKIPPED',
+          detail: `Subject has no ${condition}`,
+        });
+      } else if (ids.includes(value)) {
+        conditions.push({
+          condition,
+          status: 'MATCHED',
+          detail: `Subject ${condition} is listed in the rule`,
+        });
+        matchedConditions.push(condition);
+      } else {
+        conditions.push({
+          condition,
+          status: 'NOT_MATCHED',
+          detail: `Subject ${condition} is not listed in the rule`,
+        });
+        failed = true;
       }
-      conditions.push('value');
+    }
+
+    // Category-specific rules need a category in the request
+    const categoryIds = toStrings(config.categoryIds);
+    if (!categoryIds.length) {
+      conditions.push({
+        condition: 'category',
+        status: 'NOT_CONFIGURED',
+        detail: 'Rule does not restrict by category',
+      });
+    } else if (categoryId && categoryIds.includes(categoryId)) {
+      conditions.push({
+        condition: 'category',
+        status: 'MATCHED',
+        detail: 'Category is listed in the rule',
+      });
+      matchedConditions.push('category');
+    } else {
+      conditions.push({
+        condition: 'category',
+        status: 'NOT_MATCHED',
+        detail: categoryId
+          ? 'Category is not listed in the rule'
+          : 'Rule requires a category; none given',
+      });
+      failed = true;
+    }
+
+    // Value-based rules need a value up to maxValue
+    if (config.maxValue === undefined || config.maxValue === null) {
+      conditions.push({
+        condition: 'maxValue',
+        status: 'NOT_CONFIGURED',
+        detail: 'Rule has no value limit',
+      });
+    } else if (machineValue !== undefined && machineValue <= config.maxValue) {
+      conditions.push({
+        condition: 'maxValue',
+        status: 'MATCHED',
+        detail: `Value ${machineValue} is within ${config.maxValue}`,
+      });
+      matchedConditions.push('value');
+    } else {
+      conditions.push({
+        condition: 'maxValue',
+        status: 'NOT_MATCHED',
+        detail:
+          machineValue === undefined
+            ? `Rule requires a value up to ${config.maxValue}; none given`
+            : `Value ${machineValue} exceeds ${config.maxValue}`,
+      });
+      failed = true;
+    }
+
+    if (failed) {
+      return { matches: false, conditions };
     }
 
     // If we have conditions and all passed, it's a match
-    if (conditions.length > 0) {
-      return { matches: true, matchedBy: `${conditions.join(' + ')} rule` };
+    if (matchedConditions.length > 0) {
+      return {
+        matches: true,
+        matchedBy: `${matchedConditions.join(' + ')} rule`,
+        conditions,
+      };
     }
 
     // If no conditions are specified, it's a global rule (matches everyone)
     if (this.isGlobalRule(config)) {
-      return { matches: true, matchedBy: 'global rule' };
+      return { matches: true, matchedBy: 'global rule', conditions };
     }
 
-    return { matches: false };
+    return { matches: false, conditions };
   }
 
   /**
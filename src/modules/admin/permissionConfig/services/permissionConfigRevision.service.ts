@@ -0,0 +1,288 @@
+// services/permissionConfigRevision.service.ts
+import mongoose from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import {
+  PermissionConfig,
+  IPermissionConfig,
+} from '../../../../models/permissionConfig.model';
+import { IApprovalStage } from '../../../../models/approvalChain.model';
+import {
+  PermissionConfigRevision,
+  IPermissionConfigRevision,
+  PermissionRevisionOperation,
+} from '../../../../models/permissionConfigRevision.model';
+import { ApiError } from '../../../../utils/ApiError';
+
+// Rule fields captured in each revision
+const REVISION_FIELDS = [
+  'name',
+  'description',
+  'action',
+  'roleIds',
+  'userIds',
+  'departmentIds',
+  'categoryIds',
+  'permission',
+  'approverRoles',
+  'approvalChain',
+  'maxValue',
+  'isActive',
+  'priority',
+  'validFrom',
+  'validUntil',
+  'schedule',
+] as const;
+
+// Fields that are removed, rather than set, when absent from a revision
+const OPTIONAL_FIELDS = [
+  'approvalChain',
+  'maxValue',
+  'validFrom',
+  'validUntil',
+  'schedule',
+];
+
+type RuleSnapshot = Record<string, unknown>;
+
+// Populated references are recorded by id
+const toId = (item: unknown): string =>
+  String((item as { _id?: unknown })?._id ?? item);
+
+export interface RevisionFieldDiff {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevisionDiff {
+  permissionConfigId: string;
+  from: number;
+  to: number;
+  changes: RevisionFieldDiff[];
+}
+
+class PermissionConfigRevisionService {
+  /**
+   * Comparable copy of the revisioned fields of a rule
+   */
+  static snapshot(config: IPermissionConfig): RuleSnapshot {
+    const source = config as unknown as Record<string, unknown>;
+    const snapshot: RuleSnapshot = {};
+    REVISION_FIELDS.forEach((field) => {
+      const value = source[field];
+      if (value === undefined || value === null) return;
+      snapshot[field] =
+        field === 'approvalChain'
+          ? (value as IApprovalStage[]).map((stage) => ({
+              name: stage.name,
+              approverRoles: stage.approverRoles.map(toId),
+              requireAll: stage.requireAll === true,
+            }))
+          : Array.isArray(value)
+            ? value.map(toId)
+            : value instanceof Date
+              ? value.toISOString()
+              : JSON.parse(JSON.stringify(value));
+    });
+    return snapshot;
+  }
+
+  private static diffSnapshots(
+    from: RuleSnapshot | null,
+    to: RuleSnapshot,
+  ): RevisionFieldDiff[] {
+    return REVISION_FIELDS.filter(
+      (field) =>
+        JSON.stringify(from?.[field] ?? null) !==
+        JSON.stringify(to[field] ?? null),
+    ).map((field) => ({
+      field,
+      from: from?.[field] ?? null,
+      to: to[field] ?? null,
+    }));
+  }
+
+  /**
+   * Append a revision for a change to a rule
+   */
+  static async record(
+    operation: PermissionRevisionOperation,
+    before: IPermissionConfig | null,
+    after: IPermissionConfig,
+    changedBy: string,
+    rolledBackTo?: number,
+  ): Promise<IPermissionConfigRevision> {
+    const beforeSnapshot = before ? this.snapshot(before) : null;
+    const afterSnapshot = this.snapshot(after);
+    const changedFields = this.diffSnapshots(beforeSnapshot, afterSnapshot).map(
+      (change) => change.field,
+    );
+
+    // Concurrent changes can race for the next number; retry on conflict
+    for (let attempt = 0; ; attempt++) {
+      const latest = await PermissionConfigRevision.findOne({
+        permissionConfig: after._id,
+      })
+        .sort({ revision: -1 })
+        .select('revision')
+        .lean();
+
+      try {
+        return await PermissionConfigRevision.create({
+          permissionConfig: after._id,
+          revision: (latest?.revision || 0) + 1,
+          operation,
+          before: beforeSnapshot,
+          after: afterSnapshot,
+          changedFields,
+          changedBy: new mongoose.Types.ObjectId(changedBy),
+          ...(rolledBackTo ? { rolledBackTo } : {}),
+        });
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000 || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private static async getRevision(
+    permissionConfigId: string,
+    revision: number,
+    action: string,
+  ): Promise<IPermissionConfigRevision> {
+    const entry = await PermissionConfigRevision.findOne({
+      permissionConfig: permissionConfigId,
+      revision,
+    }).lean();
+    if (!entry) {
+      throw new ApiError(
+        action,
+        StatusCodes.NOT_FOUND,
+        'REVISION_NOT_FOUND',
+        `Revision ${revision} not found for this permission configuration`,
+      );
+    }
+    return entry as IPermissionConfigRevision;
+  }
+
+  /**
+   * Revisions of a rule, newest first
+   */
+  static async getRevisions(
+    permissionConfigId: string,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    if (!(await PermissionConfig.exists({ _id: permissionConfigId }))) {
+      throw new ApiError(
+        'GET_PERMISSION_CONFIG_REVISIONS',
+        StatusCodes.NOT_FOUND,
+        'PERMISSION_CONFIG_NOT_FOUND',
+        'Permission configuration not found',
+      );
+    }
+
+    const query = { permissionConfig: permissionConfigId };
+    const [revisions, total] = await Promise.all([
+      PermissionConfigRevision.find(query)
+        .populate('changedBy', 'username email')
+        .sort({ revision: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      PermissionConfigRevision.countDocuments(query),
+    ]);
+
+    return {
+      revisions,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+    };
+  }
+
+  /**
+   * Field differences between the rule as of two revisions
+   */
+  static async diffRevisions(
+    permissionConfigId: string,
+    from: number,
+    to: number,
+  ): Promise<RevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.getRevision(permissionConfigId, from, 'DIFF_PERMISSION_REVISIONS'),
+      this.getRevision(permissionConfigId, to, 'DIFF_PERMISSION_REVISIONS'),
+    ]);
+
+    return {
+      permissionConfigId,
+      from,
+      to,
+      changes: this.diffSnapshots(fromRevision.after, toRevision.after),
+    };
+  }
+
+  /**
+   * Restore a rule to its state as of a revision. The rollback itself is
+   * recorded as a new revision. `validate` can reject the restored state
+   * before anything is written.
+   */
+  static async rollback(
+    permissionConfigId: string,
+    revision: number,
+    rolledBackBy: string,
+    validate?: (snapshot: Record<string, unknown>) => Promise<void>,
+  ): Promise<IPermissionConfig> {
+    const target = await this.getRevision(
+      permissionConfigId,
+      revision,
+      'ROLLBACK_PERMISSION_CONFIG',
+    );
+    const current = await PermissionConfig.findById(permissionConfigId).lean();
+    if (!current) {
+      throw new ApiError(
+        'ROLLBACK_PERMISSION_CONFIG',
+        StatusCodes.NOT_FOUND,
+        'PERMISSION_CONFIG_NOT_FOUND',
+        'Permission configuration not found',
+      );
+    }
+
+    if (validate) await validate(target.after);
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    REVISION_FIELDS.forEach((field) => {
+      const value = target.after[field];
+      if (value !== undefined) {
+        $set[field] = value;
+      } else if (OPTIONAL_FIELDS.includes(field)) {
+        $unset[field] = 1;
+      } else {
+        $set[field] = [];
+      }
+    });
+    // A restored expiry date gets a new expiry notice
+    $set['expiryNotifiedAt'] = null;
+
+    const restored = await PermissionConfig.findByIdAndUpdate(
+      permissionConfigId,
+      { $set, ...(Object.keys($unset).length ? { $unset } : {}) },
+      { new: true, runValidators: true },
+    ).lean();
+
+    await this.record(
+      PermissionRevisionOperation.ROLLBACK,
+      current as IPermissionConfig,
+      restored as IPermissionConfig,
+      rolledBackBy,
+      revision,
+    );
+
+    return restored as IPermissionConfig;
+  }
+}
+
+export default PermissionConfigRevisionService;
@@ -0,0 +1,118 @@
+// services/permissionExpiry.service.ts
+import { Types } from 'mongoose';
+import {
+  PermissionConfig,
+  IPermissionConfig,
+} from '../../../../models/permissionConfig.model';
+import { User } from '../../../../models/user.model';
+import { NotificationType } from '../../../../models/notification.model';
+import mailConfig from '../../../../config/mail.config';
+import notificationEmitter from '../../../notification/services/notificationEmitter.service';
+
+class PermissionExpiryService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  private static getNoticeHours(): number {
+    return parseInt(process.env['PERMISSION_EXPIRY_NOTICE_HOURS'] || '48', 10);
+  }
+
+  /**
+   * Tell the creator of a rule, in-app and by email, that it expires soon
+   */
+  private static async notifyCreator(config: IPermissionConfig): Promise<void> {
+    const creator = await User.findById(config.createdBy)
+      .select('email username')
+      .lean();
+    if (!creator) return;
+
+    const expiresAt = new Date(config.validUntil!).toISOString();
+    const message = `Permission rule "${config.name}" (${config.action}) expires on ${expiresAt}. Extend its validUntil date if the access is still needed.`;
+
+    await notificationEmitter.createAndEmitNotification({
+      recipientId: creator._id.toString(),
+      type: NotificationType.PERMISSION_RULE_EXPIRING,
+      title: 'Permission rule expiring soon',
+      message,
+      metadata: {
+        permissionConfigId: (config._id as Types.ObjectId).toString(),
+        action: config.action,
+        validUntil: expiresAt,
+      },
+    });
+
+    try {
+      await mailConfig.sendMail({
+        to: creator.email,
+        subject: `Permission rule "${config.name}" expires soon`,
+        text: `Hello ${creator.username},\n\n${message}`,
+      });
+    } catch (error) {
+      console.error('Failed to send permission expiry email:', error);
+    }
+  }
+
+  /**
+   * Notify creators of active rules that expire within the notice period.
+   * Each rule is notified once per validUntil date.
+   */
+  static async notifyExpiringRules(now: Date = new Date()): Promise<number> {
+    const noticeUntil = new Date(
+      now.getTime() + this.getNoticeHours() * 60 * 60 * 1000,
+    );
+
+    const configs = await PermissionConfig.find({
+      isActive: true,
+      validUntil: { $gt: now, $lte: noticeUntil },
+      expiryNotifiedAt: null,
+    });
+
+    let notified = 0;
+    for (const config of configs) {
+      // Claim the rule first so parallel runs do not notify twice
+      const claimed = await PermissionConfig.updateOne(
+        { _id: config._id, expiryNotifiedAt: null },
+        { $set: { expiryNotifiedAt: now } },
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      await this.notifyCreator(config);
+      notified += 1;
+    }
+
+    return notified;
+  }
+
+  /**
+   * Check for expiring rules periodically
+   * (PERMISSION_EXPIRY_CHECK_MINUTES, default 60)
+   */
+  static start(): void {
+    if (this.timer) return;
+
+    const intervalMinutes = parseInt(
+      process.env['PERMISSION_EXPIRY_CHECK_MINUTES'] || '60',
+      10,
+    );
+    const run = () => {
+      this.notifyExpiringRules().catch((error) =>
+        console.error('Permission expiry check failed:', error),
+      );
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default PermissionExpiryService;
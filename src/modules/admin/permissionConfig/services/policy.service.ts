@@ -0,0 +1,841 @@
+// services/policy.service.ts
+import mongoose from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import YAML from 'yaml';
+import { PermissionRevisionOperation } from '../../../../models/permissionConfigRevision.model';
+import {
+  PermissionConfig,
+  IPermissionConfig,
+  ActionType,
+  PermissionLevel,
+  IPermissionSchedule,
+} from '../../../../models/permissionConfig.model';
+import { Role } from '../../../../models/role.model';
+import { Department } from '../../../../models/department.model';
+import { Category } from '../../../../models/category.model';
+import { User } from '../../../../models/user.model';
+import { ApiError } from '../../../../utils/ApiError';
+import { withTransactionFallback } from '../../../../utils/transaction.util';
+import { Policy } from '../../../../scripts/policy';
+import { policyDocumentSchema } from '../validators/permissionConfig.validator';
+import PermissionConfigService from './permissionConfig.service';
+import PermissionConfigRevisionService from './permissionConfigRevision.service';
+
+export type PolicyFormat = 'json' | 'yaml';
+
+type PolicyRule = Policy['rules'][number];
+
+// An approval stage with approver roles as sorted id strings
+interface NormalizedStage {
+  name: string;
+  approverRoles: string[];
+  requireAll: boolean;
+}
+
+// Reference fields of a rule and the policy key they are written under
+const REFERENCE_FIELDS = [
+  { field: 'roleIds', key: 'roles' },
+  { field: 'userIds', key: 'users' },
+  { field: 'departmentIds', key: 'departments' },
+  { field: 'categoryIds', key: 'categories' },
+  { field: 'approverRoles', key: 'approverRoles' },
+] as const;
+
+type ReferenceField = (typeof REFERENCE_FIELDS)[number]['field'];
+
+// A rule in comparable form: references as sorted id strings, dates as
+// ISO strings
+interface NormalizedRule {
+  name: string;
+  action: ActionType;
+  description: string;
+  permission: PermissionLevel;
+  priority: number;
+  isActive: boolean;
+  maxValue: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  schedule: IPermissionSchedule | null;
+  roleIds: string[];
+  userIds: string[];
+  departmentIds: string[];
+  categoryIds: string[];
+  approverRoles: string[];
+  approvalChain: NormalizedStage[] | null;
+}
+
+export interface PolicyFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PolicyRuleChange {
+  name: string;
+  action: ActionType;
+  permission: PermissionLevel;
+  changes?: PolicyFieldChange[];
+}
+
+export interface PolicyImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  canApply: boolean;
+  summary: {
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+  };
+  added: PolicyRuleChange[];
+  changed: PolicyRuleChange[];
+  removed: PolicyRuleChange[];
+  unresolved: {
+    roles: string[];
+    departments: string[];
+    users: string[];
+    categories: string[];
+  };
+  priorityConflicts: Array<{
+    action: ActionType;
+    priority: number;
+    rules: string[];
+  }>;
+}
+
+// A rule write of an import; deactivate marks rules missing from the policy
+interface PolicyOperation {
+  id?: string;
+  rule: NormalizedRule;
+  deactivate?: boolean;
+  resetExpiryNotice?: boolean;
+}
+
+// Lookups between names (lowercased) and ids, in both directions
+interface ReferenceLookups {
+  roles: Map<string, string>;
+  departments: Map<string, string>;
+  categories: Map<string, string>;
+  users: Map<string, string>;
+  names: Map<string, string>; // id -> display name
+}
+
+class PolicyService {
+  private static ruleKey(rule: { action: string; name: string }): string {
+    return `${rule.action}::${rule.name}`;
+  }
+
+  private static toIdStrings(ids?: unknown[]): string[] {
+    return (ids || []).map((id) => String(id)).sort();
+  }
+
+  private static toISOString(date?: Date | string | null): string | null {
+    return date ? new Date(date).toISOString() : null;
+  }
+
+  /**
+   * Schedule with a fixed key order and sorted days, so equal schedules
+   * serialize alike
+   */
+  private static normalizeSchedule(
+    schedule?: IPermissionSchedule | null,
+  ): IPermissionSchedule | null {
+    if (!schedule) return null;
+    return {
+      ...(schedule.daysOfWeek?.length
+        ? { daysOfWeek: [...schedule.daysOfWeek].sort((a, b) => a - b) }
+        : {}),
+      ...(schedule.startTime && schedule.endTime
+        ? { startTime: schedule.startTime, endTime: schedule.endTime }
+        : {}),
+      ...(schedule.timezone ? { timezone: schedule.timezone } : {}),
+    };
+  }
+
+  private static normalizeConfig(config: IPermissionConfig): NormalizedRule {
+    return {
+      name: config.name,
+      action: config.action,
+      description: config.description,
+      permission: config.permission,
+      priority: config.priority,
+      isActive: config.isActive,
+      maxValue: config.maxValue ?? null,
+      validFrom: this.toISOString(config.validFrom),
+      validUntil: this.toISOString(config.validUntil),
+      schedule: this.normalizeSchedule(config.schedule),
+      roleIds: this.toIdStrings(config.roleIds),
+      userIds: this.toIdStrings(config.userIds),
+      departmentIds: this.toIdStrings(config.departmentIds),
+      categoryIds: this.toIdStrings(config.categoryIds),
+      approverRoles: this.toIdStrings(config.approverRoles),
+      approvalChain: config.approvalChain?.length
+        ? config.approvalChain.map((stage) => ({
+            name: stage.name,
+            approverRoles: this.toIdStrings(stage.approverRoles),
+            requireAll: !!stage.requireAll,
+          }))
+        : null,
+    };
+  }
+
+  /**
+   * Load name <-> id lookups for everything a policy can reference
+   */
+  private static async loadLookups(): Promise<ReferenceLookups> {
+    const [roles, departments, categories, users] = await Promise.all([
+      Role.find().select('name').lean(),
+      Department.find().select('name').lean(),
+      Category.find().select('name').lean(),
+      User.find().select('username email').lean(),
+    ]);
+
+    const lookups: ReferenceLookups = {
+      roles: new Map(),
+      departments: new Map(),
+      categories: new Map(),
+      users: new Map(),
+      names: new Map(),
+    };
+    roles.forEach((role) => {
+      lookups.roles.set(role.name.toLowerCase(), role._id.toString());
+      lookups.names.set(role._id.toString(), role.name);
+    });
+    departments.forEach((department) => {
+      lookups.departments.set(
+        department.name.toLowerCase(),
+        department._id.toString(),
+      );
+      lookups.names.set(department._id.toString(), department.name);
+    });
+    categories.forEach((category) => {
+      lookups.categories.set(
+        category.name.toLowerCase(),
+        category._id.toString(),
+      );
+      lookups.names.set(category._id.toString(), category.name);
+    });
+    users.forEach((user) => {
+      lookups.users.set(user.email.toLowerCase(), user._id.toString());
+      lookups.users.set(user.username.toLowerCase(), user._id.toString());
+      lookups.names.set(user._id.toString(), user.email);
+    });
+    return lookups;
+  }
+
+  /**
+   * Build the live PermissionConfig set as a Policy document
+   */
+  static async exportPolicy(): Promise<Policy> {
+    const [configs, lookups] = await Promise.all([
+      PermissionConfig.find().sort({ action: 1, priority: -1, name: 1 }).lean(),
+      this.loadLookups(),
+    ]);
+
+    const names = (ids?: unknown[]) =>
+      (ids || []).map((id) => lookups.names.get(String(id)) || String(id));
+
+    const rules: PolicyRule[] = configs.map((config) => {
+      const rule: PolicyRule = {
+        name: config.name,
+        description: config.description,
+        action: config.action,
+        permission: config.permission,
+        priority: config.priority,
+        isActive: config.isActive,
+      };
+      REFERENCE_FIELDS.forEach(({ field, key }) => {
+        const values = names(config[field]);
+        if (values.length) rule[key] = values;
+      });
+      if (config.maxValue !== undefined && config.maxValue !== null) {
+        rule.maxValue = config.maxValue;
+      }
+      const validFrom = this.toISOString(config.validFrom);
+      const validUntil = this.toISOString(config.validUntil);
+      const schedule = this.normalizeSchedule(config.schedule);
+      if (validFrom) rule.validFrom = validFrom;
+      if (validUntil) rule.validUntil = validUntil;
+      if (schedule) rule.schedule = schedule;
+      if (config.approvalChain?.length) {
+        rule.approvalChain = config.approvalChain.map((stage) => ({
+          name: stage.name,
+          approverRoles: names(stage.approverRoles),
+          ...(stage.requireAll ? { requireAll: true } : {}),
+        }));
+      }
+      return rule;
+    });
+
+    // Approver roles are exported per rule, so no defaults are needed
+    return {
+      roles: [...lookups.roles.keys()].sort(),
+      departments: [...lookups.departments.values()]
+        .map((id) => lookups.names.get(id)!)
+        .sort(),
+      approvers: { defaultRoles: [] },
+      rules,
+    };
+  }
+
+  /**
+   * Serialize a policy as JSON or YAML
+   */
+  static serialize(policy: Policy, format: PolicyFormat): string {
+    return format === 'yaml'
+      ? YAML.stringify(policy)
+      : JSON.stringify(policy, null, 2);
+  }
+
+  /**
+   * Parse and validate a policy document
+   */
+  static parse(input: {
+    policy?: unknown;
+    content?: string;
+    format?: PolicyFormat;
+  }): Policy {
+    let raw: unknown = input.policy;
+    if (input.content !== undefined) {
+      try {
+        raw =
+          input.format === 'yaml'
+            ? YAML.parse(input.content)
+            : JSON.parse(input.content);
+      } catch (error) {
+        throw new ApiError(
+          'IMPORT_POLICY',
+          StatusCodes.BAD_REQUEST,
+          'INVALID_POLICY_DOCUMENT',
+          `Policy document could not be parsed: ${
+            error instanceof Error ? error.message : 'invalid syntax'
+          }`,
+        );
+      }
+    }
+
+    const { error, value } = policyDocumentSchema.validate(raw, {
+      abortEarly: false,
+    });
+    if (error) {
+      throw new ApiError(
+        'IMPORT_POLICY',
+        StatusCodes.BAD_REQUEST,
+        'INVALID_POLICY_DOCUMENT',
+        'Policy document validation failed',
+        error.details.map((detail) => ({
+          field: detail.path.join('.'),
+          message: detail.message,
+        })),
+      );
+    }
+    return value as Policy;
+  }
+
+  /**
+   * Expand overrides into user-specific rules, the same way the seed
+   * script does
+   */
+  private static expandOverrides(policy: Policy): PolicyRule[] {
+    return (policy.overrides || []).map((override) => ({
+      name: `Override ${override.type} ${override.user} ${override.action}`,
+      description: 'User-specific override generated from policy',
+      action: override.action,
+      permission: override.type === 'user-allow' ? 'ALLOWED' : 'DENIED',
+      users: [override.user],
+      ...(override.department ? { departments: [override.department] } : {}),
+      priority: override.priority ?? 100,
+    }));
+  }
+
+  /**
+   * Approver role names of a rule: explicit roles, else the department
+   * approvers, else the default approvers for rules that need approval.
+   * An approval chain replaces the fallbacks.
+   */
+  private static approverRoleNames(rule: PolicyRule, policy: Policy): string[] {
+    if (rule.approverRoles?.length) return rule.approverRoles;
+    if (rule.approvalChain?.length) return [];
+
+    if (rule.useDepartmentApprovers && rule.departments?.length) {
+      return [
+        ...new Set(
+          rule.departments.flatMap(
+            (department) =>
+              policy.approvers.perDepartment?.[department] ||
+              policy.approvers.defaultRoles,
+          ),
+        ),
+      ];
+    }
+
+    if (rule.permission === 'REQUIRES_APPROVAL') {
+      return policy.approvers.defaultRoles;
+    }
+    return [];
+  }
+
+  /**
+   * Resolve every name in the policy to ids; unknown names are collected
+   */
+  private static resolvePolicy(
+    policy: Policy,
+    lookups: ReferenceLookups,
+  ): {
+    rules: NormalizedRule[];
+    unresolved: PolicyImportReport['unresolved'];
+  } {
+    const unresolved = {
+      roles: new Set<string>(),
+      departments: new Set<string>(),
+      users: new Set<string>(),
+      categories: new Set<string>(),
+    };
+    const resolve = (
+      values: string[] | undefined,
+      map: Map<string, string>,
+      missing: Set<string>,
+    ): string[] =>
+      (values || [])
+        .map((value) => {
+          const id = map.get(value.toLowerCase().trim());
+          if (!id) missing.add(value);
+          return id;
+        })
+        .filter((id): id is string => !!id)
+        .sort();
+
+    resolve(policy.roles, lookups.roles, unresolved.roles);
+    resolve(policy.departments, lookups.departments, unresolved.departments);
+
+    const rules = [...policy.rules, ...this.expandOverrides(policy)].map(
+      (rule): NormalizedRule => ({
+        name: rule.name,
+        action: rule.action as ActionType,
+        description: rule.description || rule.name,
+        permission: rule.permission as PermissionLevel,
+        priority: rule.priority,
+        isActive: rule.isActive !== false,
+        maxValue: rule.maxValue ?? null,
+        validFrom: this.toISOString(rule.validFrom),
+        validUntil: this.toISOString(rule.validUntil),
+        schedule: this.normalizeSchedule(rule.schedule),
+        roleIds: resolve(rule.roles, lookups.roles, unresolved.roles),
+        userIds: resolve(rule.users, lookups.users, unresolved.users),
+        departmentIds: resolve(
+          rule.departments,
+          lookups.departments,
+          unresolved.departments,
+        ),
+        categoryIds: resolve(
+          rule.categories,
+          lookups.categories,
+          unresolved.categories,
+        ),
+        approverRoles: [
+          ...new Set(
+            resolve(
+              this.approverRoleNames(rule, policy),
+              lookups.roles,
+              unresolved.roles,
+            ),
+          ),
+        ],
+        approvalChain: rule.approvalChain?.length
+          ? rule.approvalChain.map((stage) => ({
+              name: stage.name,
+              approverRoles: [
+                ...new Set(
+                  resolve(stage.approverRoles, lookups.roles, unresolved.roles),
+                ),
+              ],
+              requireAll: !!stage.requireAll,
+            }))
+          : null,
+      }),
+    );
+
+    return {
+      rules,
+      unresolved: {
+        roles: [...unresolved.roles],
+        departments: [...unresolved.departments],
+        users: [...unresolved.users],
+        categories: [...unresolved.categories],
+      },
+    };
+  }
+
+  /**
+   * Field-by-field differences between two rules, with names for ids
+   */
+  private static diffRules(
+    before: NormalizedRule,
+    after: NormalizedRule,
+    lookups: ReferenceLookups,
+  ): PolicyFieldChange[] {
+    const changes: PolicyFieldChange[] = [];
+    const scalarFields = [
+      'description',
+      'permission',
+      'priority',
+      'isActive',
+      'maxValue',
+      'validFrom',
+      'validUntil',
+    ] as const;
+    scalarFields.forEach((field) => {
+      if (before[field] !== after[field]) {
+        changes.push({ field, before: before[field], after: after[field] });
+      }
+    });
+    if (JSON.stringify(before.schedule) !== JSON.stringify(after.schedule)) {
+      changes.push({
+        field: 'schedule',
+        before: before.schedule,
+        after: after.schedule,
+      });
+    }
+
+    const names = (ids: string[]) =>
+      ids.map((id) => lookups.names.get(id) || id);
+    REFERENCE_FIELDS.forEach(({ field, key }) => {
+      if (before[field].join(',') !== after[field].join(',')) {
+        changes.push({
+          field: key,
+          before: names(before[field]),
+          after: names(after[field]),
+        });
+      }
+    });
+
+    const stageNames = (chain: NormalizedStage[] | null) =>
+      chain?.map((stage) => ({
+        ...stage,
+        approverRoles: names(stage.approverRoles),
+      })) ?? null;
+    if (
+      JSON.stringify(before.approvalChain) !==
+      JSON.stringify(after.approvalChain)
+    ) {
+      changes.push({
+        field: 'approvalChain',
+        before: stageNames(before.approvalChain),
+        after: stageNames(after.approvalChain),
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Active rules sharing a priority for the same action, which the
+   * permission config API does not allow
+   */
+  private static findPriorityConflicts(
+    rules: NormalizedRule[],
+  ): PolicyImportReport['priorityConflicts'] {
+    const groups = new Map<string, NormalizedRule[]>();
+    rules
+      .filter((rule) => rule.isActive && rule.priority > 0)
+      .forEach((rule) => {
+        const key = `${rule.action}::${rule.priority}`;
+        groups.set(key, [...(groups.get(key) || []), rule]);
+      });
+
+    return [...groups.values()]
+      .filter((group) => group.length > 1)
+      .map((group) => ({
+        action: group[0]!.action,
+        priority: group[0]!.priority,
+        rules: group.map((rule) => rule.name),
+      }));
+  }
+
+  /**
+   * Build the write for a rule (create or update). Optional fields the
+   * rule does not set are left out; see unsetFields.
+   */
+  private static toDocument(rule: NormalizedRule): Record<string, unknown> {
+    const toObjectIds = (ids: string[]) =>
+      ids.map((id) => new mongoose.Types.ObjectId(id));
+    const references = Object.fromEntries(
+      REFERENCE_FIELDS.map(({ field }) => [
+        field,
+        toObjectIds(rule[field as ReferenceField]),
+      ]),
+    );
+    return {
+      name: rule.name,
+      action: rule.action,
+      description: rule.description,
+      permission: rule.permission,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      ...references,
+      ...(rule.maxValue === null ? {} : { maxValue: rule.maxValue }),
+      ...(rule.validFrom ? { validFrom: new Date(rule.validFrom) } : {}),
+      ...(rule.validUntil ? { validUntil: new Date(rule.validUntil) } : {}),
+      ...(rule.schedule ? { schedule: rule.schedule } : {}),
+      ...(rule.approvalChain
+        ? {
+            approvalChain: rule.approvalChain.map((stage) => ({
+              ...stage,
+              approverRoles: toObjectIds(stage.approverRoles),
+            })),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Optional fields a rule does not set, to clear them on update
+   */
+  private static unsetFields(rule: NormalizedRule): Record<string, 1> {
+    const optionalFields = [
+      'maxValue',
+      'validFrom',
+      'validUntil',
+      'schedule',
+      'approvalChain',
+    ] as const;
+    return Object.fromEntries(
+      optionalFields
+        .filter((field) => rule[field] === null)
+        .map((field) => [field, 1 as const]),
+    );
+  }
+
+  /**
+   * Import a policy. A dry run only reports added, changed and removed
+   * rules; otherwise the whole change is applied atomically. Rules that
+   * exist in the database but not in the policy are deactivated.
+   */
+  static async importPolicy(
+    policy: Policy,
+    options: { dryRun: boolean; importedBy: string },
+  ): Promise<PolicyImportReport> {
+    const [existingConfigs, lookups] = await Promise.all([
+      PermissionConfig.find().lean(),
+      this.loadLookups(),
+    ]);
+    const { rules, unresolved } = this.resolvePolicy(policy, lookups);
+
+    const incoming = new Map<string, NormalizedRule>();
+    for (const rule of rules) {
+      const key = this.ruleKey(rule);
+      if (incoming.has(key)) {
+        throw new ApiError(
+          'IMPORT_POLICY',
+          StatusCodes.BAD_REQUEST,
+          'DUPLICATE_POLICY_RULE',
+          `Rule "${rule.name}" is defined more than once for ${rule.action}`,
+        );
+      }
+      incoming.set(key, rule);
+    }
+
+    const existing = new Map(
+      existingConfigs.map((config) => [
+        this.ruleKey(config),
+        { id: config._id.toString(), rule: this.normalizeConfig(config) },
+      ]),
+    );
+
+    const report: PolicyImportReport = {
+      dryRun: options.dryRun,
+      applied: false,
+      canApply: false,
+      summary: { added: 0, changed: 0, removed: 0, unchanged: 0 },
+      added: [],
+      changed: [],
+      removed: [],
+      unresolved,
+      priorityConflicts: this.findPriorityConflicts(rules),
+    };
+    const operations: PolicyOperation[] = [];
+
+    incoming.forEach((rule, key) => {
+      const current = existing.get(key);
+      const summary = {
+        name: rule.name,
+        action: rule.action,
+        permission: rule.permission,
+      };
+      if (!current) {
+        report.added.push(summary);
+        operations.push({ rule });
+        return;
+      }
+      const changes = this.diffRules(current.rule, rule, lookups);
+      if (changes.length) {
+        report.changed.push({ ...summary, changes });
+        operations.push({
+          id: current.id,
+          rule,
+          // A new expiry date gets a new expiry notice
+          resetExpiryNotice: changes.some(
+            (change) => change.field === 'validUntil',
+          ),
+        });
+      } else {
+        report.summary.unchanged += 1;
+      }
+    });
+
+    existing.forEach((current, key) => {
+      if (incoming.has(key) || !current.rule.isActive) return;
+      report.removed.push({
+        name: current.rule.name,
+        action: current.rule.action,
+        permission: current.rule.permission,
+      });
+      operations.push({ id: current.id, rule: current.rule, deactivate: true });
+    });
+
+    report.summary.added = report.added.length;
+    report.summary.changed = report.changed.length;
+    report.summary.removed = report.removed.length;
+
+    // Dropping an unknown name could widen a rule (e.g. a role rule
+    // without roles becomes global), so unresolved names block the import
+    const hasUnresolved = Object.values(unresolved).some(
+      (names) => names.length > 0,
+    );
+    report.canApply = !hasUnresolved && report.priorityConflicts.length === 0;
+
+    if (options.dryRun) return report;
+
+    if (!report.canApply) {
+      throw new ApiError(
+        'IMPORT_POLICY',
+        StatusCodes.UNPROCESSABLE_ENTITY,
+        'POLICY_NOT_APPLICABLE',
+        'Policy has unresolved names or priority conflicts; run a dry run for details',
+      );
+    }
+
+    if (operations.length > 0) {
+      const affectedIds = await this.applyOperations(
+        operations,
+        options.importedBy,
+      );
+      await PermissionConfigService.clearPermissionCache();
+
+      const before = new Map(
+        existingConfigs.map((config) => [config._id.toString(), config]),
+      );
+      const after = await PermissionConfig.find({
+        _id: { $in: affectedIds },
+      }).lean();
+      for (const config of after) {
+        await PermissionConfigRevisionService.record(
+          PermissionRevisionOperation.IMPORT,
+          before.get(config._id.toString()) ?? null,
+          config,
+          options.importedBy,
+        );
+      }
+    }
+
+    report.applied = true;
+    return report;
+  }
+
+  /**
+   * Apply rule writes in a transaction. Standalone MongoDB servers do not
+   * support transactions; there the previous state is restored by hand if
+   * a write fails. Returns the ids of all written rules.
+   */
+  private static async applyOperations(
+    operations: PolicyOperation[],
+    importedBy: string,
+  ): Promise<mongoose.Types.ObjectId[]> {
+    // Ids of new rules are assigned up front so a failed write can be undone
+    const insertedIds: mongoose.Types.ObjectId[] = [];
+    const writes = operations.map(
+      ({ id, rule, deactivate, resetExpiryNotice }) => {
+        if (deactivate) {
+          return {
+            updateOne: {
+              filter: { _id: new mongoose.Types.ObjectId(id) },
+              update: { $set: { isActive: false } },
+            },
+          };
+        }
+        const document = this.toDocument(rule);
+        if (id) {
+          const $unset = this.unsetFields(rule);
+          return {
+            updateOne: {
+              filter: { _id: new mongoose.Types.ObjectId(id) },
+              update: {
+                $set: {
+                  ...document,
+                  ...(resetExpiryNotice ? { expiryNotifiedAt: null } : {}),
+                },
+                ...(Object.keys($unset).length ? { $unset } : {}),
+              },
+            },
+          };
+        }
+        const _id = new mongoose.Types.ObjectId();
+        insertedIds.push(_id);
+        return {
+          insertOne: {
+            document: {
+              _id,
+              ...document,
+              createdBy: new mongoose.Types.ObjectId(importedBy),
+            },
+          },
+        };
+      },
+    );
+
+    const affectedIds = [
+      ...operations
+        .filter((operation) => operation.id)
+        .map((operation) => new mongoose.Types.ObjectId(operation.id)),
+      ...insertedIds,
+    ];
+
+    // Snapshot for the fallback without transactions, restored on failure
+    const snapshot = await PermissionConfig.find({
+      _id: { $in: affectedIds },
+    }).lean();
+
+    try {
+      await withTransactionFallback(
+        async (session) => {
+          await PermissionConfig.bulkWrite(writes, {
+            ordered: true,
+            ...(session ? { session } : {}),
+          });
+        },
+        async () => {
+          await PermissionConfig.deleteMany({ _id: { $in: insertedIds } });
+          await Promise.all(
+            snapshot.map((config) =>
+              PermissionConfig.replaceOne({ _id: config._id }, config),
+            ),
+          );
+        },
+      );
+    } catch (error) {
+      throw this.applyFailed(error);
+    }
+    return affectedIds;
+  }
+
+  private static applyFailed(error: unknown): ApiError {
+    console.error('Policy import failed:', error);
+    return new ApiError(
+      'IMPORT_POLICY',
+      StatusCodes.INTERNAL_SERVER_ERROR,
+      'POLICY_IMPORT_FAILED',
+      'Failed to apply policy; no changes were kept',
+    );
+  }
+}
+
+export default PolicyService;
@@ -237,6 +237,7 @@ class ValidationService {
     departmentIds?: string[] | undefined;
     categoryIds?: string[] | undefined;
     approverRoles?: string[] | undefined;
+    approvalChain?: Array<{ approverRoles: string[] }> | null | undefined;
     createdBy?: string | undefined;
   }): Promise<void> {
     const validationPromises = [];
@@ -303,6 +304,24 @@ class ValidationService {
       );
     }
 
+    // Validate approval chain stage roles
+    const chainRoles = [
+      ...new Set(
+        (data.approvalChain || []).flatMap((stage) => stage.approverRoles),
+      ),
+    ];
+    if (chainRoles.length > 0) {
+      validationPromises.push(
+        this.validateRoleIds(chainRoles).then((result) => {
+          if (!result.isValid) {
+            errors.push(
+              `Invalid approval chain role IDs: ${result.invalidIds.join(', ')}`,
+            );
+          }
+        }),
+      );
+    }
+
     // Validate createdBy
     if (data.createdBy) {
       validationPromises.push(
@@ -10,6 +10,89 @@ import {
  */
 const objectIdPattern = /^[0-9a-fA-F]{24}$/;
 
+/**
+ * 24-hour HH:mm time pattern
+ */
+const timeOfDayPattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Recurring weekday/time-of-day window of a rule
+ */
+const scheduleSchema = Joi.object({
+  daysOfWeek: Joi.array()
+    .items(Joi.number().integer().min(0).max(6))
+    .unique()
+    .optional()
+    .messages({
+      'array.base': 'Days of week must be an array',
+      'number.min': 'Days of week must be between 0 (Sunday) and 6 (Saturday)',
+      'number.max': 'Days of week must be between 0 (Sunday) and 6 (Saturday)',
+      'array.unique': 'Days of week must not contain duplicates',
+    }),
+  startTime: Joi.string().pattern(timeOfDayPattern).optional().messages({
+    'string.pattern.base': 'Start time must be in HH:mm format',
+  }),
+  endTime: Joi.string().pattern(timeOfDayPattern).optional().messages({
+    'string.pattern.base': 'End time must be in HH:mm format',
+  }),
+  timezone: Joi.string()
+    .optional()
+    .custom((value, helpers) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return value;
+      } catch {
+        return helpers.error('any.invalid');
+      }
+    })
+    .messages({
+      'any.invalid': 'Timezone must be a valid IANA timezone name',
+    }),
+})
+  .and('startTime', 'endTime')
+  .or('daysOfWeek', 'startTime')
+  .messages({
+    'object.and': 'Start time and end time must be given together',
+    'object.missing': 'Schedule needs days of week or a time window',
+  });
+
+/**
+ * Sequential approval stages of a rule
+ */
+const approvalChainSchema = Joi.array()
+  .items(
+    Joi.object({
+      name: Joi.string().trim().min(1).max(100).required().messages({
+        'string.empty': 'Stage name cannot be empty',
+        'any.required': 'Stage name is required',
+      }),
+      approverRoles: Joi.array()
+        .items(
+          Joi.string()
+            .pattern(objectIdPattern)
+            .message('Invalid approver role ID format'),
+        )
+        .min(1)
+        .unique()
+        .required()
+        .messages({
+          'array.min': 'Each stage needs at least one approver role',
+          'array.unique': 'Stage approver roles must not contain duplicates',
+          'any.required': 'Stage approver roles are required',
+        }),
+      requireAll: Joi.boolean().optional().messages({
+        'boolean.base': 'requireAll must be a boolean value',
+      }),
+    }),
+  )
+  .max(10)
+  .unique('name')
+  .messages({
+    'array.base': 'Approval chain must be an array',
+    'array.max': 'Approval chain cannot have more than 10 stages',
+    'array.unique': 'Approval chain stage names must be unique',
+  });
+
 /**
  * Validation schema for creating permission configuration
  */
@@ -92,15 +175,23 @@ export const createPermissionConfigSchema = Joi.object({
     )
     .when('permission', {
       is: PermissionLevel.REQUIRES_APPROVAL,
-      then: Joi.required(),
+      then: Joi.when('approvalChain', {
+        is: Joi.exist(),
+        then: Joi.optional(),
+        otherwise: Joi.required(),
+      }),
       otherwise: Joi.optional(),
     })
     .messages({
       'array.base': 'Approver roles must be an array',
       'any.required':
-        'Approver roles are required when permission is REQUIRES_APPROVAL',
+        'Approver roles or an approval chain are required when permission is REQUIRES_APPROVAL',
     }),
 
+  approvalChain: approvalChainSchema.min(1).optional().messages({
+    'array.min': 'Approval chain needs at least one stage',
+  }),
+
   maxValue: Joi.number().positive().optional().messages({
     'number.base': 'Max value must be a number',
     'number.positive': 'Max value must be positive',
@@ -112,6 +203,23 @@ export const createPermissionConfigSchema = Joi.object({
     'number.min': 'Priority cannot be less than 0',
     'number.max': 'Priority cannot exceed 1000',
   }),
+
+  validFrom: Joi.date().iso().optional().messages({
+    'date.base': 'Valid from must be a valid date',
+    'date.format': 'Valid from must be an ISO date',
+  }),
+
+  validUntil: Joi.date()
+    .iso()
+    .greater(Joi.ref('validFrom'))
+    .optional()
+    .messages({
+      'date.base': 'Valid until must be a valid date',
+      'date.format': 'Valid until must be an ISO date',
+      'date.greater': 'Valid until must be after valid from',
+    }),
+
+  schedule: scheduleSchema.optional(),
 })
   .custom((value, helpers) => {
     // At least one condition must be specified
@@ -213,6 +321,9 @@ export const updatePermissionConfigSchema = Joi.object({
       'array.base': 'Approver roles must be an array',
     }),
 
+  // null or an empty array removes the chain
+  approvalChain: approvalChainSchema.optional().allow(null),
+
   maxValue: Joi.number().positive().optional().allow(null).messages({
     'number.base': 'Max value must be a number',
     'number.positive': 'Max value must be positive',
@@ -228,6 +339,27 @@ export const updatePermissionConfigSchema = Joi.object({
   isActive: Joi.boolean().optional().messages({
     'boolean.base': 'isActive must be a boolean value',
   }),
+
+  validFrom: Joi.date().iso().optional().allow(null).messages({
+    'date.base': 'Valid from must be a valid date',
+    'date.format': 'Valid from must be an ISO date',
+  }),
+
+  validUntil: Joi.date()
+    .iso()
+    .when('validFrom', {
+      is: Joi.date().required(),
+      then: Joi.date().greater(Joi.ref('validFrom')),
+    })
+    .optional()
+    .allow(null)
+    .messages({
+      'date.base': 'Valid until must be a valid date',
+      'date.format': 'Valid until must be an ISO date',
+      'date.greater': 'Valid until must be after valid from',
+    }),
+
+  schedule: scheduleSchema.optional().allow(null),
 })
   .min(1)
   .messages({
@@ -256,6 +388,50 @@ export const checkPermissionSchema = Joi.object({
   }),
 });
 
+/**
+ * Validation schema for explaining a permission decision (POST body).
+ * Either a user or a hypothetical role/department is required.
+ */
+export const explainPermissionSchema = Joi.object({
+  action: Joi.string()
+    .valid(...Object.values(ActionType))
+    .required()
+    .messages({
+      'any.only': `Action must be one of: ${Object.values(ActionType).join(', ')}`,
+      'any.required': 'Action is required',
+    }),
+
+  userId: Joi.string().pattern(objectIdPattern).optional().messages({
+    'string.pattern.base': 'Invalid user ID format',
+  }),
+
+  roleId: Joi.string().pattern(objectIdPattern).optional().messages({
+    'string.pattern.base': 'Invalid role ID format',
+  }),
+
+  departmentId: Joi.string().pattern(objectIdPattern).optional().messages({
+    'string.pattern.base': 'Invalid department ID format',
+  }),
+
+  categoryId: Joi.string().pattern(objectIdPattern).optional().messages({
+    'string.pattern.base': 'Invalid category ID format',
+  }),
+
+  machineValue: Joi.number().positive().optional().messages({
+    'number.base': 'Machine value must be a number',
+    'number.positive': 'Machine value must be positive',
+  }),
+
+  at: Joi.date().iso().optional().messages({
+    'date.base': 'At must be a valid date',
+    'date.format': 'At must be an ISO date',
+  }),
+})
+  .or('userId', 'roleId', 'departmentId')
+  .messages({
+    'object.missing': 'Provide a userId or a hypothetical roleId/departmentId',
+  });
+
 /**
  * Validation schema for ID parameter
  */
@@ -360,3 +536,139 @@ export const categoryValidationSchema = Joi.object({
       'any.required': 'Category IDs array is required',
     }),
 });
+
+/**
+ * Validation schema for a policy document (see src/scripts/policy.ts)
+ */
+const policyNameList = Joi.array().items(Joi.string().trim().min(1));
+
+export const policyDocumentSchema = Joi.object({
+  roles: policyNameList.default([]),
+  departments: policyNameList.default([]),
+  approvers: Joi.object({
+    defaultRoles: policyNameList.default([]),
+    perDepartment: Joi.object()
+      .pattern(Joi.string(), policyNameList)
+      .optional(),
+  }).default({ defaultRoles: [] }),
+  rules: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string().trim().min(3).max(100).required(),
+        description: Joi.string().trim().max(500).allow('').optional(),
+        action: Joi.string()
+          .valid(...Object.values(ActionType))
+          .required(),
+        permission: Joi.string()
+          .valid(...Object.values(PermissionLevel))
+          .required(),
+        roles: policyNameList.optional(),
+        users: policyNameList.optional(),
+        departments: policyNameList.optional(),
+        categories: policyNameList.optional(),
+        maxValue: Joi.number().positive().optional(),
+        useDepartmentApprovers: Joi.boolean().optional(),
+        approverRoles: policyNameList.optional(),
+        approvalChain: Joi.array()
+          .items(
+            Joi.object({
+              name: Joi.string().trim().min(1).max(100).required(),
+              approverRoles: policyNameList.min(1).required(),
+              requireAll: Joi.boolean().optional(),
+            }),
+          )
+          .min(1)
+          .max(10)
+          .unique('name')
+          .optional(),
+        priority: Joi.number().integer().min(0).max(1000).required(),
+        isActive: Joi.boolean().optional(),
+        validFrom: Joi.date().iso().raw().optional(),
+        validUntil: Joi.date()
+          .iso()
+          .raw()
+          .when('validFrom', {
+            is: Joi.exist(),
+            then: Joi.date().greater(Joi.ref('validFrom')),
+          })
+          .optional(),
+        schedule: scheduleSchema.optional(),
+      }),
+    )
+    .required(),
+  overrides: Joi.array()
+    .items(
+      Joi.object({
+        type: Joi.string().valid('user-allow', 'user-deny').required(),
+        action: Joi.string()
+          .valid(...Object.values(ActionType))
+          .required(),
+        user: Joi.string().trim().required(),
+        department: Joi.string().trim().optional(),
+        priority: Joi.number().integer().min(0).max(1000).optional(),
+      }),
+    )
+    .optional(),
+});
+
+/**
+ * Validation schema for policy import (POST body).
+ * Either a parsed policy object or a JSON/YAML document as text.
+ */
+export const policyImportSchema = Joi.object({
+  policy: Joi.object().optional(),
+  content: Joi.string().optional(),
+  format: Joi.string().valid('json', 'yaml').default('json'),
+})
+  .xor('policy', 'content')
+  .messages({
+    'object.missing': 'Provide either a policy object or document content',
+    'object.xor': 'Provide either a policy object or document content',
+  });
+
+/**
+ * Validation schema for policy export/import query parameters
+ */
+export const policyQuerySchema = Joi.object({
+  format: Joi.string().valid('json', 'yaml').optional(),
+  dryRun: Joi.boolean().optional(),
+});
+
+/**
+ * Validation schema for rule analysis query
+ */
+export const permissionAnalysisQuerySchema = Joi.object({
+  action: Joi.string()
+    .valid(...Object.values(ActionType))
+    .optional()
+    .messages({
+      'any.only': `Action must be one of: ${Object.values(ActionType).join(', ')}`,
+    }),
+});
+
+const revisionNumber = (label: string) =>
+  Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': `${label} must be a number`,
+      'number.integer': `${label} must be an integer`,
+      'number.min': `${label} must be at least 1`,
+      'any.required': `${label} is required`,
+    });
+
+/**
+ * Validation schema for comparing two revisions of a rule
+ */
+export const revisionDiffQuerySchema = Joi.object({
+  from: revisionNumber('From revision'),
+  to: revisionNumber('To revision'),
+});
+
+/**
+ * Validation schema for rolling a rule back to a revision
+ */
+export const rollbackPermissionConfigSchema = Joi.object({
+  revision: revisionNumber('Revision'),
+});
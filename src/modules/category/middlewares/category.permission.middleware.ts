@@ -0,0 +1,35 @@
+// middlewares/category.permission.middleware.ts
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { SequenceManagement } from '../../../models/category.model';
+import { PermissionContextResolver } from '../../admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+
+/**
+ * Permission context resolvers for category and sequence routes, so rules
+ * can be limited to categories (categoryIds)
+ */
+class CategoryPermissionMiddleware {
+  /**
+   * Context for acting on a category (req.params.id)
+   */
+  static categoryContext: PermissionContextResolver = (req: Request) => ({
+    categoryId: req.params['id'],
+  });
+
+  /**
+   * Context for acting on an existing sequence configuration (req.params.id)
+   */
+  static existingSequenceContext: PermissionContextResolver = async (
+    req: Request,
+  ) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const sequence = await SequenceManagement.findById(id)
+      .select('category_id')
+      .lean();
+    return { categoryId: sequence?.category_id?.toString() };
+  };
+}
+
+export default CategoryPermissionMiddleware;
@@ -6,6 +6,8 @@ import {
   ISequenceManagement,
 } from '../../../models/category.model';
 import { Machine } from '../../../models/machine.model';
+import { MachineRevisionOperation } from '../../../models/machineRevision.model';
+import MachineRevisionService from '../../machine/services/machineRevision.service';
 import { ApiError } from '../../../utils/ApiError';
 import { StatusCodes } from 'http-status-codes';
 import { ERROR_MESSAGES } from '../category.error.constants';
@@ -788,8 +790,9 @@ class SequenceService {
 
       // Perform bulk update using Promise.all for parallel execution
       if (updates.length > 0) {
-        const updatePromises = updates.map((update) =>
-          Machine.findByIdAndUpdate(
+        const updatePromises = updates.map(async (update) => {
+          const machine = await Machine.findById(update.machineId);
+          const updatedMachine = await Machine.findByIdAndUpdate(
             update.machineId,
             {
               $set: {
@@ -799,8 +802,16 @@ class SequenceService {
               },
             },
             { new: true },
-          ),
-        );
+          );
+          if (machine && updatedMachine) {
+            await MachineRevisionService.record(
+              MachineRevisionOperation.SEQUENCE,
+              machine,
+              updatedMachine,
+              updatedBy,
+            );
+          }
+        });
 
         await Promise.all(updatePromises);
 
@@ -32,6 +32,9 @@ class ExportController {
         case 'user_management':
           await ExportService.exportUsersToExcel(res, filters);
           break;
+        case 'user_invitations':
+          await ExportService.exportPendingInvitationsToExcel(res, filters);
+          break;
         case 'machine_management':
           await ExportService.exportMachinesToExcel(res, filters);
           break;
@@ -4,6 +4,7 @@ import { Response } from 'express';
 import ExcelJS from 'exceljs';
 import mongoose from 'mongoose';
 import { User } from '../../../models/user.model';
+import { Invitation, InvitationStatus } from '../../../models/invitation.model';
 import { Machine } from '../../../models/machine.model';
 import { SO } from '../../../models/so.model';
 import { Category } from '../../../models/category.model';
@@ -150,6 +151,103 @@ export class ExportService {
     );
   }
 
+  /**
+   * Export pending user invitations to Excel
+   */
+  static async exportPendingInvitationsToExcel(
+    res: Response,
+    filters: ExportFilters = {},
+  ): Promise<void> {
+    const excel = new ExcelUtil('Pending Invitations');
+
+    const columns = [
+      { header: 'Invitation ID', key: '_id', width: 25 },
+      { header: 'Email', key: 'email', width: 30 },
+      { header: 'Role', key: 'role', width: 15 },
+      { header: 'Department', key: 'department', width: 20 },
+      { header: 'Invited By', key: 'invitedBy', width: 20 },
+      { header: 'Status', key: 'status', width: 15 },
+      { header: 'Times Sent', key: 'sendCount', width: 12 },
+      { header: 'Last Sent', key: 'lastSentAt', width: 20 },
+      { header: 'Expires At', key: 'expiresAt', width: 20 },
+      { header: 'Created Date', key: 'createdAt', width: 20 },
+    ];
+
+    const sortBy = (filters['sortBy'] as string) || 'createdAt';
+    const sortOrder = (filters['sortOrder'] as string) || 'desc';
+    const dataStartRow = excel.addFilterSortHeader(
+      filters,
+      sortBy,
+      sortOrder,
+      undefined,
+      columns.length,
+    );
+
+    excel.setColumns(columns, dataStartRow);
+
+    // Pending invitations, including expired ones that were never accepted
+    const query: Record<string, unknown> = {
+      status: InvitationStatus.PENDING,
+    };
+    if (filters['search']) {
+      query['email'] = { $regex: filters['search'], $options: 'i' };
+    }
+    if (filters['role']) query['role'] = filters['role'];
+    if (filters['department']) query['department'] = filters['department'];
+
+    const sort: Record<string, 1 | -1> = {};
+    sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+    const invitations = await Invitation.find(query)
+      .populate('role', 'name')
+      .populate('department', 'name')
+      .populate('invitedBy', 'username')
+      .sort(sort)
+      .lean();
+
+    const now = new Date();
+    for (const invitation of invitations) {
+      const role = invitation.role as unknown as { name?: string } | null;
+      const department = invitation.department as unknown as {
+        name?: string;
+      } | null;
+      const invitedBy = invitation.invitedBy as unknown as {
+        username?: string;
+      } | null;
+      const isExpired = new Date(invitation.expiresAt) <= now;
+
+      const rowNumber = excel.addRow({
+        _id: invitation._id.toString(),
+        email: invitation.email,
+        role: role?.name || '-',
+        department: department?.name || '-',
+        invitedBy: invitedBy?.username || '-',
+        status: isExpired ? 'Expired' : 'Pending',
+        sendCount: invitation.sendCount,
+        lastSentAt: invitation.lastSentAt
+          ? new Date(invitation.lastSentAt).toLocaleString()
+          : '-',
+        expiresAt: new Date(invitation.expiresAt).toLocaleString(),
+        createdAt: invitation.createdAt
+          ? new Date(invitation.createdAt).toLocaleString()
+          : '-',
+      });
+
+      excel.applyStatusStyle(
+        rowNumber,
+        'status',
+        isExpired ? 'inactive' : 'pending',
+      );
+    }
+
+    excel.addExportInfoSheet(filters, sortBy, sortOrder, invitations.length);
+
+    await excel.generateAndSend(
+      res,
+      `pending_invitations_export_${new Date().toISOString().split('T')[0]}.xlsx`,
+    );
+  }
+
   /**
    * Export users to PDF (individual)
    */
@@ -272,6 +370,7 @@ export class ExportService {
     const columns = [
       { header: 'Machine ID', key: '_id', width: 25 },
       { header: 'Name', key: 'name', width: 25 },
+      { header: 'SO Number', key: 'so_number', width: 20 },
       { header: 'Category', key: 'category', width: 20 },
       { header: 'Sequence', key: 'sequence', width: 15 },
       { header: 'Party Name', key: 'party_name', width: 20 },
@@ -569,6 +668,7 @@ export class ExportService {
       // Extract SO data - so_id is populated as an object
       const soIdValue = (machine as Record<string, unknown>)['so_id'];
       let soName = '-';
+      let soNumber = '-';
       let categoryName = '-';
       let partyName = '-';
       let mobileNumber = '-';
@@ -576,6 +676,7 @@ export class ExportService {
       if (soIdValue && typeof soIdValue === 'object' && soIdValue !== null) {
         const so = soIdValue as Record<string, unknown>;
         soName = String(so['name'] || '-');
+        soNumber = String(so['so_number'] || '-');
         partyName = String(so['party_name'] || '-');
         mobileNumber = String(so['mobile_number'] || '-');
 
@@ -595,6 +696,7 @@ export class ExportService {
       const rowData: Record<string, unknown> = {
         _id: (machine as Record<string, unknown>)['_id']?.toString() || '-',
         name: soName,
+        so_number: soNumber,
         category: categoryName,
         sequence:
           (machine as Record<string, unknown>)['machine_sequence'] || '-',
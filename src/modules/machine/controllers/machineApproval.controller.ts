@@ -13,11 +13,16 @@ import { ApiError } from '../../../utils/ApiError';
 import {
   ApprovalType,
   ApprovalStatus,
+  IMachineApproval,
 } from '../../../models/machineApproval.model';
+import { DelegationScope } from '../../../models/approvalDelegation.model';
 import {
   notifyMachineApproved,
   notifyMachineRejected,
+  notifyDecisionOnBehalf,
 } from '../../notification/helpers/notification.helper';
+import ApprovalChainService from '../../admin/permissionConfig/services/approvalChain.service';
+import ApprovalDelegationService from '../../user/services/approvalDelegation.service';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -231,9 +236,32 @@ class MachineApprovalController {
         );
       }
 
+      // Approvers decide themselves; a delegate decides on behalf of an
+      // approver whose approvals are delegated to them
+      const existingApproval = await MachineApprovalService.getApprovalById(id);
+      const canDecide = (userId: string) =>
+        MachineApprovalController.canDecide(existingApproval, userId);
+      let onBehalfOf: string | undefined;
+      if (!(await canDecide(req.user._id))) {
+        onBehalfOf = await ApprovalDelegationService.findDelegatorFor(
+          req.user._id,
+          DelegationScope.MACHINE_APPROVAL,
+          canDecide,
+        );
+        if (!onBehalfOf) {
+          throw new ApiError(
+            'PROCESS_APPROVAL',
+            StatusCodes.FORBIDDEN,
+            'INSUFFICIENT_PERMISSIONS',
+            'You are not an approver for this request',
+          );
+        }
+      }
+
       const decisionData: ApprovalDecisionData = {
         approvalId: id,
         approvedBy: req.user._id,
+        onBehalfOf,
         approved,
         approverNotes,
         rejectionReason,
@@ -241,6 +269,29 @@ class MachineApprovalController {
 
       const updatedApproval =
         await MachineApprovalService.processApprovalDecision(decisionData);
+      const approverName = req.user?.username || req.user?.email || 'Admin';
+
+      if (onBehalfOf) {
+        await notifyDecisionOnBehalf(
+          onBehalfOf,
+          req.user._id,
+          approverName,
+          id,
+          MachineApprovalController.getMachineName(updatedApproval),
+          approved,
+        );
+      }
+
+      // An intermediate stage was approved; the request stays pending
+      if (updatedApproval.status === ApprovalStatus.PENDING) {
+        const response = new ApiResponse(
+          StatusCodes.OK,
+          updatedApproval,
+          'Approval stage recorded; awaiting the next approvers',
+        );
+        res.status(response.statusCode).json(response);
+        return;
+      }
 
       // Emit notification to requester
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -250,31 +301,13 @@ class MachineApprovalController {
           ? approval.machineId
           : approval?.machineId?._id?.toString();
 
-      // Extract machine name from SO (machines now reference SOs)
-      let machineName = 'Machine';
-      const machineIdValue = approval?.machineId;
-      if (
-        machineIdValue &&
-        typeof machineIdValue === 'object' &&
-        machineIdValue !== null
-      ) {
-        const soIdValue = machineIdValue.so_id;
-        if (soIdValue && typeof soIdValue === 'object' && soIdValue !== null) {
-          machineName =
-            soIdValue.customer ||
-            soIdValue.name ||
-            soIdValue.so_number ||
-            'Machine';
-        } else if (machineIdValue.name) {
-          machineName = machineIdValue.name;
-        }
-      }
+      const machineName =
+        MachineApprovalController.getMachineName(updatedApproval);
 
       const requesterId =
         typeof approval?.requestedBy === 'string'
           ? approval.requestedBy
           : approval?.requestedBy?._id?.toString();
-      const approverName = req.user?.username || req.user?.email || 'Admin';
 
       if (requesterId && machineId) {
         if (approved) {
@@ -414,6 +447,33 @@ class MachineApprovalController {
         approverRoleId = (user.role as { _id?: string })?._id?.toString();
       }
 
+      // Delegates also see the approvals of the approvers they stand in for
+      const delegators = req.user
+        ? await ApprovalDelegationService.getActiveDelegators(
+            req.user._id,
+            DelegationScope.MACHINE_APPROVAL,
+          )
+        : [];
+      if (!delegators.length && req.user) {
+        const { roleName } = await ApprovalChainService.getApproverRole(
+          req.user._id,
+        );
+        if (roleName !== 'admin' && roleName !== 'manager') {
+          throw new ApiError(
+            'GET_PENDING_APPROVALS',
+            StatusCodes.FORBIDDEN,
+            'INSUFFICIENT_PERMISSIONS',
+            'Only approvers can view pending approvals',
+          );
+        }
+      }
+      const approverRoleIds = new Set(
+        [
+          approverRoleId,
+          ...delegators.map((delegator) => delegator.roleId),
+        ].filter((roleId): roleId is string => Boolean(roleId)),
+      );
+
       // Build filters for pending approvals with enhanced search support
       const additionalFilters: Partial<ApprovalFilters> = {};
 
@@ -476,7 +536,7 @@ class MachineApprovalController {
       // Filter by approver role if needed (this is a simplified approach)
       // In a production system, you might want to add this to the aggregation pipeline
       let filteredApprovals = result.approvals;
-      if (approverRoleId) {
+      if (approverRoleIds.size) {
         // Filter approvals that match the approver's role
         // Note: This is done post-query. For better performance, add to aggregation pipeline
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -486,7 +546,7 @@ class MachineApprovalController {
             (role: string | { _id?: string | mongoose.Types.ObjectId }) => {
               const roleId =
                 typeof role === 'string' ? role : role?._id?.toString();
-              return roleId === approverRoleId;
+              return !!roleId && approverRoleIds.has(roleId);
             },
           );
         });
@@ -558,6 +618,38 @@ class MachineApprovalController {
       res.status(response.statusCode).json(response);
     },
   );
+
+  /**
+   * Whether a user may decide an approval: the approvers of the current
+   * stage of a chained approval, otherwise admins and managers
+   */
+  private static async canDecide(
+    approval: IMachineApproval,
+    userId: string,
+  ): Promise<boolean> {
+    if (ApprovalChainService.hasChain(approval)) {
+      return ApprovalChainService.canDecide(approval, userId);
+    }
+    const { roleName } = await ApprovalChainService.getApproverRole(userId);
+    return roleName === 'admin' || roleName === 'manager';
+  }
+
+  /**
+   * Display name of the machine of a populated approval (from its SO)
+   */
+  private static getMachineName(approval: IMachineApproval): string {
+    const machine = approval.machineId as unknown as {
+      name?: string;
+      so_id?: { customer?: string; name?: string; so_number?: string };
+    } | null;
+    if (!machine || typeof machine !== 'object') return 'Machine';
+
+    const so = machine.so_id;
+    if (so && typeof so === 'object') {
+      return so.customer || so.name || so.so_number || 'Machine';
+    }
+    return machine.name || 'Machine';
+  }
 }
 
 export default MachineApprovalController;
@@ -7,7 +7,8 @@ import {
   QCApprovalStatus,
   QCApprovalType,
 } from '../../../models/qcApproval.model';
-import { Machine } from '../../../models/machine.model';
+import { Machine, MachineLifecycleState } from '../../../models/machine.model';
+import MachineService from '../services/machine.service';
 import { User } from '../../../models/user.model';
 import {
   PermissionConfig,
@@ -20,6 +21,12 @@ import { asyncHandler } from '../../../utils/asyncHandler';
 import { QAMachineEntry } from '../../../models/qcMachine.model';
 import notificationEmitter from '../../notification/services/notificationEmitter.service';
 import { NotificationType } from '../../../models/notification.model';
+import { IApprovalStage } from '../../../models/approvalChain.model';
+import ApprovalChainService from '../../admin/permissionConfig/services/approvalChain.service';
+import {
+  getUsersByRoleIds,
+  notifyStageApprovers,
+} from '../../notification/helpers/notification.helper';
 
 /**
  * Get approvers for QC approval based on permission configuration
@@ -77,6 +84,42 @@ const getQCApprovers = async (): Promise<string[]> => {
   }
 };
 
+/**
+ * Approval chain of the highest-priority active QC approval rule that
+ * defines one
+ */
+const getQCApprovalChain = async (): Promise<IApprovalStage[] | undefined> => {
+  const config = await PermissionConfig.findOne({
+    action: ActionType.APPROVE_QC_APPROVAL,
+    isActive: true,
+    'approvalChain.0': { $exists: true },
+  })
+    .sort({ priority: -1, createdAt: -1 })
+    .select('approvalChain')
+    .lean();
+  return config?.approvalChain;
+};
+
+/**
+ * Approvers and stage trackers for a new QC approval: the first stage's
+ * approvers when a chain applies, otherwise the configured QC approvers
+ */
+const getInitialQCApprovers = async () => {
+  const approvalChain = await getQCApprovalChain();
+  if (!approvalChain?.length) {
+    return { approvers: await getQCApprovers() };
+  }
+
+  const firstStageRoles =
+    ApprovalChainService.initialApproverRoles(approvalChain);
+  return {
+    approvers: await getUsersByRoleIds(firstStageRoles),
+    approverRoles: firstStageRoles,
+    stages: ApprovalChainService.buildStages(approvalChain),
+    currentStage: 0,
+  };
+};
+
 /**
  * Get QC approval statistics
  */
@@ -1640,7 +1683,7 @@ export const createQCApproval = asyncHandler(
     }
 
     // Get approvers based on permission configuration
-    const approvers = await getQCApprovers();
+    const approvalRouting = await getInitialQCApprovers();
 
     const approval = new QCApproval({
       machineId,
@@ -1655,7 +1698,7 @@ export const createQCApproval = asyncHandler(
         ? new Date(nextInspectionDate)
         : undefined,
       requestNotes,
-      approvers, // Assign approvers based on permission configuration
+      ...approvalRouting, // Assign approvers based on permission configuration
       proposedChanges: {
         qcNotes,
         qcFindings,
@@ -1813,8 +1856,11 @@ export const createQCApprovalForEntry = async (
   );
 
   console.log('[QC Approval Controller] Getting approvers...');
-  const approvers = await getQCApprovers();
-  console.log('[QC Approval Controller] Approvers found:', approvers.length);
+  const approvalRouting = await getInitialQCApprovers();
+  console.log(
+    '[QC Approval Controller] Approvers found:',
+    approvalRouting.approvers.length,
+  );
 
   console.log('[QC Approval Controller] Creating new QC approval...');
   console.log(
@@ -1873,7 +1919,7 @@ export const createQCApprovalForEntry = async (
       ? new Date(nextInspectionDate)
       : undefined,
     requestNotes,
-    approvers,
+    ...approvalRouting,
     proposedChanges: {
       qcNotes,
       qcFindings,
@@ -1960,7 +2006,7 @@ export const createQCApprovalForEntry = async (
 
   // Send notifications to approvers about the new QC approval
   try {
-    const approvers = await getQCApprovers();
+    const approvers = approvalRouting.approvers;
     if (approvers.length > 0) {
       const machine = await Machine.findById(machineId)
         .populate({
@@ -2348,6 +2394,58 @@ export const processQCApprovalAction = asyncHandler(
       approval.proposedChanges = {};
     }
 
+    // Multi-stage approvals complete only when the final stage approves
+    if (ApprovalChainService.hasChain(approval)) {
+      const result = await ApprovalChainService.recordDecision(
+        approval,
+        { approverId: userId, approved: action === 'approve', notes },
+        'PROCESS_QC_APPROVAL',
+      );
+      const nextStageApprovers = result.nextStage
+        ? (
+            await getUsersByRoleIds(result.nextStage.approverRoles.map(String))
+          ).map((id) => new mongoose.Types.ObjectId(id))
+        : undefined;
+      await ApprovalChainService.saveDecision(
+        QCApproval,
+        approval,
+        result,
+        QCApprovalStatus.PENDING,
+        'PROCESS_QC_APPROVAL',
+        nextStageApprovers ? { approvers: nextStageApprovers } : {},
+      );
+
+      if (
+        result.outcome === 'STAGE_APPROVED' ||
+        result.outcome === 'STAGE_PENDING'
+      ) {
+        if (result.nextStage) {
+          await notifyStageApprovers(
+            approval._id?.toString() || '',
+            'QC approval',
+            result.nextStage.name,
+            result.nextStage.approverRoles.map(String),
+            userId,
+            `/qc/approval-management?approvalId=${approval._id}`,
+          );
+        }
+
+        const pendingApproval = await QCApproval.findById(approval._id)
+          .populate('requestedBy', 'username name email')
+          .lean();
+        res
+          .status(200)
+          .json(
+            new ApiResponse(
+              200,
+              pendingApproval,
+              'Approval stage recorded; awaiting the next approvers',
+            ),
+          );
+        return;
+      }
+    }
+
     if (action === 'approve') {
       approval.status = QCApprovalStatus.APPROVED;
       approval.approvedBy = userId;
@@ -2385,6 +2483,16 @@ export const processQCApprovalAction = asyncHandler(
 
     await approval.save();
 
+    // A machine in production passes QC with its approval
+    if (action === 'approve') {
+      await MachineService.advanceLifecycle(
+        String(approval.machineId),
+        MachineLifecycleState.QC_PASSED,
+        userId,
+        'QC approval approved',
+      );
+    }
+
     const updatedApproval = await QCApproval.findById(approval._id)
       .populate({
         path: 'machineId',
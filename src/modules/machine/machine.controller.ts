@@ -6,6 +6,7 @@ import { StatusCodes } from 'http-status-codes';
 // import { ApiError } from '../../../utils/ApiError';
 import MachineService, {
   CreateMachineData,
+  CreateMachinesFromSOData,
   UpdateMachineData,
   MachineFilters,
 } from './services/machine.service';
@@ -27,9 +28,17 @@ import {
   deleteMachineDocuments,
 } from '../../middlewares/multer.middleware';
 import MachineApprovalService from './services/machineApproval.service';
+import MachineRevisionService from './services/machineRevision.service';
+import MachineImportService from './services/machineImport.service';
+import MachineTrashService from './services/machineTrash.service';
 import { ApprovalType } from '../../models/machineApproval.model';
+import { IApprovalStage } from '../../models/approvalChain.model';
 import { getUsersByRoleIds } from '../notification/helpers/notification.helper';
-import { Machine, IMachine } from '../../models/machine.model';
+import {
+  Machine,
+  IMachine,
+  MachineLifecycleState,
+} from '../../models/machine.model';
 import { SO } from '../../models/so.model';
 import { SequenceManagement } from '../../models/category.model';
 import { Category } from '../../models/category.model';
@@ -118,6 +127,15 @@ async function getQCApprovers(): Promise<string[]> {
   }
 }
 
+/**
+ * Result of the CREATE_MACHINE permission check
+ */
+interface CreatePermissionInfo {
+  requiresApproval?: boolean;
+  approverRoles?: Array<string | { toString?: () => string }>;
+  approvalChain?: IApprovalStage[];
+}
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     _id: string;
@@ -239,14 +257,8 @@ class MachineController {
       // imagePaths kept for previous logic; not used in new flow
 
       // Determine if approval is required from permission context
-      const perm = (
-        req as unknown as {
-          permissionInfo?: {
-            requiresApproval?: boolean;
-            approverRoles?: Array<string | { toString?: () => string }>;
-          };
-        }
-      ).permissionInfo;
+      const perm = (req as unknown as { permissionInfo?: CreatePermissionInfo })
+        .permissionInfo;
 
       const isAdmin =
         (req.user.role || '').toString().toLowerCase() === 'admin';
@@ -326,31 +338,11 @@ class MachineController {
 
       // If approval is required, create an approval request entry
       if (perm?.requiresApproval) {
-        const approverRolesResolved = Array.isArray(perm?.approverRoles)
-          ? perm.approverRoles
-              .map((r) => (typeof r === 'string' ? r : r?.toString?.()))
-              .filter((v): v is string => Boolean(v))
-          : undefined;
-        const approvalPayload: {
-          machineId: string;
-          requestedBy: string;
-          approvalType: ApprovalType;
-          proposedChanges: { action: string };
-          requestNotes: string;
-          approverRoles?: string[];
-        } = {
-          machineId: (
-            machine as { _id: { toString(): string } }
-          )._id.toString(),
-          requestedBy: req.user._id,
-          approvalType: ApprovalType.MACHINE_CREATION,
-          proposedChanges: { action: 'CREATE_MACHINE' },
-          requestNotes: 'Technician machine creation request',
-        };
-        if (approverRolesResolved) {
-          approvalPayload.approverRoles = approverRolesResolved;
-        }
-        await MachineApprovalService.createApprovalRequest(approvalPayload);
+        const approvalRequest = await MachineController.requestCreationApproval(
+          (machine as { _id: { toString(): string } })._id.toString(),
+          req.user._id,
+          perm,
+        );
 
         // Emit notification to approvers
         const machineId = (
@@ -378,8 +370,11 @@ class MachineController {
           ? `For SO ${soNumber}, ${customerName} machine is being created`
           : `${customerName} machine is being created`;
 
+        // Chained approvals go to the approvers of the first stage
         await notificationEmitter.createAndEmitToMultipleUsers(
-          await getUsersByRoleIds(approverRolesResolved || []),
+          await getUsersByRoleIds(
+            (approvalRequest.approverRoles || []).map(String),
+          ),
           {
             senderId: req.user._id,
             type: NotificationType.MACHINE_CREATED,
@@ -410,100 +405,285 @@ class MachineController {
   );
 
   /**
-   * Get all machines with pagination
-   * GET /api/machines
+   * Create an approval request for a new machine
    */
-  static getAllMachines = asyncHandler(
+  private static async requestCreationApproval(
+    machineId: string,
+    requestedBy: string,
+    perm: CreatePermissionInfo,
+  ) {
+    const approverRolesResolved = Array.isArray(perm.approverRoles)
+      ? perm.approverRoles
+          .map((r) => (typeof r === 'string' ? r : r?.toString?.()))
+          .filter((v): v is string => Boolean(v))
+      : undefined;
+    const approvalPayload: {
+      machineId: string;
+      requestedBy: string;
+      approvalType: ApprovalType;
+      proposedChanges: { action: string };
+      requestNotes: string;
+      approverRoles?: string[];
+      approvalChain?: IApprovalStage[];
+    } = {
+      machineId,
+      requestedBy,
+      approvalType: ApprovalType.MACHINE_CREATION,
+      proposedChanges: { action: 'CREATE_MACHINE' },
+      requestNotes: 'Technician machine creation request',
+    };
+    if (approverRolesResolved) {
+      approvalPayload.approverRoles = approverRolesResolved;
+    }
+    if (perm.approvalChain) {
+      approvalPayload.approvalChain = perm.approvalChain;
+    }
+    return MachineApprovalService.createApprovalRequest(approvalPayload);
+  }
+
+  /**
+   * Create machines for units of an SO's line items
+   * POST /api/machines/from-so
+   */
+  static createMachinesFromSO = asyncHandler(
     async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-      // Validate with lenient options: allow unknown fields and don't abort early
-      const { error, value } = machinePaginationQuerySchema.validate(
-        req.query,
-        {
-          abortEarly: false, // Collect all errors, not just the first one
-          stripUnknown: true, // Remove unknown fields instead of erroring
-          allowUnknown: true, // Allow unknown query parameters
-        },
-      );
-      if (error) {
-        // Log the full error for debugging
-        console.error('[Machine Controller] Validation error:', {
-          query: req.query,
-          errors: error.details,
-        });
+      if (!req.user) {
         throw new ApiError(
-          'GET_MACHINES_VALIDATION',
-          StatusCodes.BAD_REQUEST,
-          'VALIDATION_ERROR',
-          error.details?.map((d) => d.message).join('; ') || 'Validation error',
+          'CREATE_MACHINES_FROM_SO',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
         );
       }
 
-      const filters: MachineFilters = {};
-      if (value.category_id) filters.category_id = value.category_id;
-      if (typeof value.is_approved === 'boolean')
-        filters.is_approved = value.is_approved;
-      if (value.created_by) filters.created_by = value.created_by;
-      // Only add search if it's a non-empty string (after validation, empty strings become undefined)
-      if (
-        value.search &&
-        typeof value.search === 'string' &&
-        value.search.trim().length > 0
-      ) {
-        filters.search = value.search.trim();
-      }
-      if (typeof value.has_sequence === 'boolean')
-        filters.has_sequence = value.has_sequence;
-      // Only add metadata filters if they're non-empty strings
-      if (
-        value.metadata_key &&
-        typeof value.metadata_key === 'string' &&
-        value.metadata_key.trim().length > 0
-      ) {
-        filters.metadata_key = value.metadata_key.trim();
-      }
-      if (
-        value.metadata_value &&
-        typeof value.metadata_value === 'string' &&
-        value.metadata_value.trim().length > 0
-      ) {
-        filters.metadata_value = value.metadata_value.trim();
+      // Same approval rules as creating a single machine
+      const perm = (req as unknown as { permissionInfo?: CreatePermissionInfo })
+        .permissionInfo;
+      const isAdmin =
+        (req.user.role || '').toString().toLowerCase() === 'admin';
+      const shouldAutoApprove = isAdmin || perm?.requiresApproval === false;
+
+      const { so_id, items, dispatch_date } = req.body as {
+        so_id: string;
+        items: CreateMachinesFromSOData['items'];
+        dispatch_date?: Date | null | '';
+      };
+      const machines = await MachineService.createFromSOItems({
+        so_id,
+        items,
+        created_by: req.user._id,
+        dispatch_date: dispatch_date || null,
+        is_approved: shouldAutoApprove,
+      });
+
+      if (perm?.requiresApproval && machines.length) {
+        const approvalRequests = [];
+        for (const machine of machines) {
+          approvalRequests.push(
+            await MachineController.requestCreationApproval(
+              String(machine._id),
+              req.user._id,
+              perm,
+            ),
+          );
+        }
+
+        // One notice for the whole batch, to the approvers of the first stage
+        const so = machines[0]?.so_id as unknown as {
+          so_number?: string;
+        } | null;
+        const soNumber = so?.so_number || '';
+        const requesterName =
+          req.user.username || req.user.email || 'Unknown User';
+        const machineIds = machines.map((machine) => String(machine._id));
+        await notificationEmitter.createAndEmitToMultipleUsers(
+          await getUsersByRoleIds(
+            (approvalRequests[0]?.approverRoles || []).map(String),
+          ),
+          {
+            senderId: req.user._id,
+            type: NotificationType.MACHINE_CREATED,
+            title: 'New Machines Created',
+            message: `${requesterName} created ${machines.length} machine(s) for SO ${soNumber} that require approval`,
+            relatedEntityType: 'machine',
+            relatedEntityId: machineIds[0]!,
+            actionUrl: '/dispatch/approvals',
+            actionLabel: 'View Approvals',
+            metadata: {
+              machineIds,
+              soNumber,
+              requesterId: req.user._id,
+              requesterName,
+            },
+          },
+        );
       }
-      if (value.dispatch_date_from)
-        filters.dispatch_date_from = value.dispatch_date_from;
-      if (value.dispatch_date_to)
-        filters.dispatch_date_to = value.dispatch_date_to;
-      if (value.so_date_from) filters.so_date_from = value.so_date_from;
-      if (value.so_date_to) filters.so_date_to = value.so_date_to;
-      if (value.po_date_from) filters.po_date_from = value.po_date_from;
-      if (value.po_date_to) filters.po_date_to = value.po_date_to;
-      // Specific field filters - only add if non-empty strings
-      if (
-        value.party_name &&
-        typeof value.party_name === 'string' &&
-        value.party_name.trim().length > 0
-      ) {
-        filters.party_name = value.party_name.trim();
+
+      const message = perm?.requiresApproval
+        ? `${machines.length} machine(s) created successfully. Awaiting approval.`
+        : `${machines.length} machine(s) created successfully.`;
+      const response = new ApiResponse(StatusCodes.CREATED, machines, message);
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Import machines from an .xlsx or .csv file in the export layout
+   * POST /api/machines/import?dryRun=true
+   */
+  static importMachines = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      if (!req.user) {
+        throw new ApiError(
+          'IMPORT_MACHINES',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
       }
-      if (
-        value.machine_sequence &&
-        typeof value.machine_sequence === 'string' &&
-        value.machine_sequence.trim().length > 0
-      ) {
-        filters.machine_sequence = value.machine_sequence.trim();
+      if (!req.file) {
+        throw new ApiError(
+          'IMPORT_MACHINES',
+          StatusCodes.BAD_REQUEST,
+          'FILE_REQUIRED',
+          'An .xlsx or .csv file is required',
+        );
       }
-      if (
-        value.location &&
-        typeof value.location === 'string' &&
-        value.location.trim().length > 0
-      ) {
-        filters.location = value.location.trim();
+
+      const dryRun =
+        req.query['dryRun'] === 'true' || req.body?.dryRun === 'true';
+      const report = await MachineImportService.importMachines(
+        req.file.buffer,
+        req.file.originalname,
+        { dryRun, importedBy: req.user._id },
+      );
+
+      let statusCode: number = StatusCodes.OK;
+      let message = 'Import validated successfully';
+      if (report.invalidRows > 0) {
+        statusCode = dryRun ? StatusCodes.OK : StatusCodes.UNPROCESSABLE_ENTITY;
+        message = `${report.invalidRows} row(s) have errors${dryRun ? '' : ', no machines were imported'}`;
+      } else if (!dryRun && report.imported) {
+        statusCode = StatusCodes.CREATED;
+        message = `${report.createdRows} machine(s) created and ${report.updatedRows} updated`;
+      } else if (!dryRun) {
+        message = 'No machine changes to import';
       }
-      if (value.so_id) filters.so_id = value.so_id;
-      if (value.sortBy) filters.sortBy = value.sortBy;
-      if (value.sortOrder) filters.sortOrder = value.sortOrder;
 
-      const page = parseInt(value.page as string) || 1;
-      const limit = parseInt(value.limit as string) || 10;
+      const response = new ApiResponse(statusCode, report, message);
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Validate list query parameters into machine filters
+   */
+  private static parseListQuery(
+    query: Request['query'],
+    action: string,
+  ): { page: number; limit: number; filters: MachineFilters } {
+    // Validate with lenient options: allow unknown fields and don't abort early
+    const { error, value } = machinePaginationQuerySchema.validate(query, {
+      abortEarly: false, // Collect all errors, not just the first one
+      stripUnknown: true, // Remove unknown fields instead of erroring
+      allowUnknown: true, // Allow unknown query parameters
+    });
+    if (error) {
+      // Log the full error for debugging
+      console.error('[Machine Controller] Validation error:', {
+        query,
+        errors: error.details,
+      });
+      throw new ApiError(
+        action,
+        StatusCodes.BAD_REQUEST,
+        'VALIDATION_ERROR',
+        error.details?.map((d) => d.message).join('; ') || 'Validation error',
+      );
+    }
+
+    const filters: MachineFilters = {};
+    if (value.category_id) filters.category_id = value.category_id;
+    if (typeof value.is_approved === 'boolean')
+      filters.is_approved = value.is_approved;
+    if (value.created_by) filters.created_by = value.created_by;
+    if (value.lifecycle_state?.length)
+      filters.lifecycle_state = value.lifecycle_state;
+    // Only add search if it's a non-empty string (after validation, empty strings become undefined)
+    if (
+      value.search &&
+      typeof value.search === 'string' &&
+      value.search.trim().length > 0
+    ) {
+      filters.search = value.search.trim();
+    }
+    if (typeof value.has_sequence === 'boolean')
+      filters.has_sequence = value.has_sequence;
+    // Only add metadata filters if they're non-empty strings
+    if (
+      value.metadata_key &&
+      typeof value.metadata_key === 'string' &&
+      value.metadata_key.trim().length > 0
+    ) {
+      filters.metadata_key = value.metadata_key.trim();
+    }
+    if (
+      value.metadata_value &&
+      typeof value.metadata_value === 'string' &&
+      value.metadata_value.trim().length > 0
+    ) {
+      filters.metadata_value = value.metadata_value.trim();
+    }
+    if (value.dispatch_date_from)
+      filters.dispatch_date_from = value.dispatch_date_from;
+    if (value.dispatch_date_to)
+      filters.dispatch_date_to = value.dispatch_date_to;
+    if (value.so_date_from) filters.so_date_from = value.so_date_from;
+    if (value.so_date_to) filters.so_date_to = value.so_date_to;
+    if (value.po_date_from) filters.po_date_from = value.po_date_from;
+    if (value.po_date_to) filters.po_date_to = value.po_date_to;
+    // Specific field filters - only add if non-empty strings
+    if (
+      value.party_name &&
+      typeof value.party_name === 'string' &&
+      value.party_name.trim().length > 0
+    ) {
+      filters.party_name = value.party_name.trim();
+    }
+    if (
+      value.machine_sequence &&
+      typeof value.machine_sequence === 'string' &&
+      value.machine_sequence.trim().length > 0
+    ) {
+      filters.machine_sequence = value.machine_sequence.trim();
+    }
+    if (
+      value.location &&
+      typeof value.location === 'string' &&
+      value.location.trim().length > 0
+    ) {
+      filters.location = value.location.trim();
+    }
+    if (value.so_id) filters.so_id = value.so_id;
+    if (value.sortBy) filters.sortBy = value.sortBy;
+    if (value.sortOrder) filters.sortOrder = value.sortOrder;
+
+    const page = parseInt(value.page as string) || 1;
+    const limit = parseInt(value.limit as string) || 10;
+
+    return { page, limit, filters };
+  }
+
+  /**
+   * Get all machines with pagination
+   * GET /api/machines
+   */
+  static getAllMachines = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const { page, limit, filters } = MachineController.parseListQuery(
+        req.query,
+        'GET_MACHINES_VALIDATION',
+      );
 
       const result = await MachineService.getAll(page, limit, filters);
       const response = new ApiResponse(
@@ -515,6 +695,31 @@ class MachineController {
     },
   );
 
+  /**
+   * Get soft-deleted machines (the trash), with the same filters as the
+   * machine list
+   * GET /api/machines/trash
+   */
+  static getTrashMachines = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const { page, limit, filters } = MachineController.parseListQuery(
+        req.query,
+        'GET_MACHINE_TRASH_VALIDATION',
+      );
+
+      const result = await MachineService.getAll(page, limit, {
+        ...filters,
+        deleted: true,
+      });
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        { ...result, retentionDays: MachineTrashService.getRetentionDays() },
+        'Deleted machines retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
   /**
    * Get machine by ID
    * GET /api/machines/:id
@@ -1318,7 +1523,7 @@ class MachineController {
         );
       }
 
-      await MachineService.delete(value.id);
+      await MachineService.delete(value.id, req.user?._id?.toString());
 
       const response = new ApiResponse(
         StatusCodes.OK,
@@ -1329,6 +1534,26 @@ class MachineController {
     },
   );
 
+  /**
+   * Restore a machine from the trash
+   * POST /api/machines/:id/restore
+   */
+  static restoreMachine = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const machine = await MachineService.restore(
+        req.params['id'] as string,
+        req.user?._id?.toString(),
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        machine,
+        'Machine restored successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
   /**
    * Get approved machines
    * GET /api/machines/approved
@@ -1455,6 +1680,102 @@ class MachineController {
     },
   );
 
+  /**
+   * Get a machine's lifecycle state, transition history and next states
+   * GET /api/machines/:id/lifecycle
+   */
+  static getMachineLifecycle = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const lifecycle = await MachineService.getLifecycle(
+        req.params['id'] as string,
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        lifecycle,
+        'Machine lifecycle retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Move a machine to another lifecycle state
+   * PATCH /api/machines/:id/lifecycle
+   */
+  static transitionMachineLifecycle = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      if (!req.user) {
+        throw new ApiError(
+          'MACHINE_LIFECYCLE_TRANSITION',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
+      const { state, notes } = req.body as {
+        state: MachineLifecycleState;
+        notes?: string;
+      };
+      const machine = await MachineService.transitionLifecycle(
+        req.params['id'] as string,
+        state,
+        req.user._id.toString(),
+        notes,
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        machine,
+        `Machine moved to ${state}`,
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * List the change history of a machine
+   * GET /api/machines/:id/history?page=1&limit=20
+   */
+  static getMachineHistory = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const result = await MachineRevisionService.getRevisions(
+        req.params['id'] as string,
+        Number(req.query['page']) || 1,
+        Number(req.query['limit']) || 20,
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        result,
+        'Machine history retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Diff a machine between two revisions
+   * GET /api/machines/:id/history/diff?from=1&to=3
+   */
+  static diffMachineRevisions = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const diff = await MachineRevisionService.diffRevisions(
+        req.params['id'] as string,
+        Number(req.query['from']),
+        Number(req.query['to']),
+      );
+
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        diff,
+        'Machine revisions compared successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
   /**
    * Get machine statistics
    * GET /api/machines/statistics
@@ -6,6 +6,7 @@ export const ERROR_MESSAGES = {
       GET: 'FETCHING_MACHINE',
       UPDATE: 'UPDATE_MACHINE',
       DELETE: 'DELETE_MACHINE',
+      RESTORE: 'RESTORE_MACHINE',
       LIST: 'FETCHING_MACHINES',
     },
     NOT_FOUND: {
@@ -40,6 +41,10 @@ export const ERROR_MESSAGES = {
       code: 'DELETE_MACHINE_ERROR',
       message: 'Failed to delete machine',
     },
+    RESTORE_ERROR: {
+      code: 'RESTORE_MACHINE_ERROR',
+      message: 'Failed to restore machine',
+    },
     APPROVAL_ERROR: {
       code: 'UPDATE_APPROVAL_ERROR',
       message: 'Failed to update machine approval status',
@@ -0,0 +1,167 @@
+// middlewares/machine.permission.middleware.ts
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Machine, MachineLifecycleState } from '../../../models/machine.model';
+import { SO } from '../../../models/so.model';
+import {
+  enforcesApiKeyScopes,
+  PermissionContext,
+  PermissionContextResolver,
+} from '../../admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+import { requirePermission } from '../../../middlewares/require-permission.middleware';
+import { asyncHandler } from '../../../utils/asyncHandler';
+import MachineService from '../services/machine.service';
+
+/**
+ * Permission context resolvers for machine routes.
+ * A machine's value is its entered machine_value, or else the order value
+ * of its SO; its category is the SO's category.
+ */
+class MachinePermissionMiddleware {
+  /**
+   * Category and order value of an SO
+   */
+  private static async getSOContext(soId: unknown): Promise<PermissionContext> {
+    if (!soId || !mongoose.Types.ObjectId.isValid(String(soId))) return {};
+
+    const so = await SO.findById(String(soId))
+      .select('category_id order_value')
+      .lean();
+    if (!so) return {};
+
+    return {
+      categoryId: so.category_id?.toString(),
+      machineValue: so.order_value,
+    };
+  }
+
+  /**
+   * Context for creating a machine (body validated: so_id, machine_value)
+   */
+  static createContext: PermissionContextResolver = async (req: Request) => {
+    const body = req.body as { so_id?: string; machine_value?: number };
+    const soContext = await this.getSOContext(body.so_id);
+
+    return {
+      ...soContext,
+      ...(typeof body.machine_value === 'number'
+        ? { machineValue: body.machine_value }
+        : {}),
+    };
+  };
+
+  /**
+   * Context of a machine: its SO's category, and its machine_value or else
+   * the SO's order value
+   */
+  private static async getMachineContext(
+    soId: unknown,
+    machineValue?: number | null,
+  ): Promise<PermissionContext> {
+    const soContext = await this.getSOContext(soId);
+    return {
+      ...soContext,
+      ...(typeof machineValue === 'number' ? { machineValue } : {}),
+    };
+  }
+
+  /**
+   * Context for acting on an existing machine (req.params.id), from the
+   * stored machine only
+   */
+  static existingMachineContext: PermissionContextResolver = async (
+    req: Request,
+  ) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const machine = await Machine.findOne({ _id: id, deletedAt: null })
+      .select('so_id machine_value')
+      .lean();
+    if (!machine) return {};
+
+    // so_id is populated by the find hook
+    return this.getMachineContext(machine.so_id?._id, machine.machine_value);
+  };
+
+  /**
+   * Context for updating a machine (req.params.id, body validated: so_id,
+   * machine_value). A new SO gives the category; the value is the larger
+   * of the stored and the updated one.
+   */
+  static updateMachineContext: PermissionContextResolver = async (
+    req: Request,
+  ) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const machine = await Machine.findOne({ _id: id, deletedAt: null })
+      .select('so_id machine_value')
+      .lean();
+    if (!machine) return {};
+
+    const body = (req.body || {}) as {
+      so_id?: string;
+      machine_value?: number | null;
+    };
+    const stored = await this.getMachineContext(
+      machine.so_id?._id,
+      machine.machine_value,
+    );
+    const updated = await this.getMachineContext(
+      body.so_id || machine.so_id?._id,
+      body.machine_value !== undefined
+        ? body.machine_value
+        : machine.machine_value,
+    );
+    const values = [stored.machineValue, updated.machineValue].filter(
+      (value): value is number => typeof value === 'number',
+    );
+
+    return {
+      categoryId: updated.categoryId ?? stored.categoryId,
+      ...(values.length ? { machineValue: Math.max(...values) } : {}),
+    };
+  };
+
+  /**
+   * Context for acting on a machine in the trash (req.params.id)
+   */
+  static deletedMachineContext: PermissionContextResolver = async (
+    req: Request,
+  ) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const machine = await Machine.findOne({ _id: id, deletedAt: { $ne: null } })
+      .select('so_id machine_value')
+      .lean();
+    if (!machine) return {};
+
+    return this.getMachineContext(machine.so_id?._id, machine.machine_value);
+  };
+
+  /**
+   * Permission check for a lifecycle transition (req.params.id, body.state).
+   * The action depends on the machine's current state and the target state.
+   */
+  static lifecycleTransition = enforcesApiKeyScopes(
+    asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const machine =
+        id && mongoose.Types.ObjectId.isValid(id)
+          ? await Machine.findOne({ _id: id, deletedAt: null })
+              .select('lifecycle_state')
+              .lean()
+          : null;
+      const action = MachineService.getLifecycleAction(
+        machine?.lifecycle_state,
+        (req.body as { state: MachineLifecycleState }).state,
+      );
+
+      requirePermission(action, this.existingMachineContext)(req, res, next);
+    }),
+  );
+}
+
+export default MachinePermissionMiddleware;
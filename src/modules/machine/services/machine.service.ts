@@ -7,9 +7,26 @@ import { StatusCodes } from 'http-status-codes';
 import mongoose from 'mongoose';
 import { User } from '../../../models/user.model';
 
-import { IMachine, Machine } from '../../../models/machine.model';
+import {
+  IMachine,
+  Machine,
+  MachineLifecycleState,
+  MACHINE_LIFECYCLE_TRANSITIONS,
+  IMachineLifecycleTransition,
+  IMachineDeletionClosures,
+} from '../../../models/machine.model';
+import {
+  MachineApproval,
+  ApprovalStatus,
+} from '../../../models/machineApproval.model';
+import { QCApproval, QCApprovalStatus } from '../../../models/qcApproval.model';
+import { QAMachineEntry } from '../../../models/qcMachine.model';
+import { ActionType } from '../../../models/permissionConfig.model';
+import { MachineRevisionOperation } from '../../../models/machineRevision.model';
+import MachineRevisionService from './machineRevision.service';
 import { SO } from '../../../models/so.model';
 import { ApiError } from '../../../utils/ApiError';
+import { withTransactionFallback } from '../../../utils/transaction.util';
 import { ERROR_MESSAGES } from '../machine.error.constant';
 import {
   sanitizeMachine,
@@ -20,6 +37,29 @@ import {
   SequenceGenerationData,
 } from '../../category/services/sequence.service';
 import { ISO } from '../../../models/so.model';
+
+/**
+ * Permission action for moving a machine into each lifecycle state
+ */
+const LIFECYCLE_ACTIONS: Record<MachineLifecycleState, ActionType> = {
+  [MachineLifecycleState.DRAFT]: ActionType.APPROVE_MACHINE,
+  [MachineLifecycleState.PENDING_APPROVAL]: ActionType.SUBMIT_MACHINE,
+  [MachineLifecycleState.APPROVED]: ActionType.APPROVE_MACHINE,
+  [MachineLifecycleState.IN_PRODUCTION]: ActionType.START_MACHINE_PRODUCTION,
+  [MachineLifecycleState.QC_PASSED]: ActionType.PASS_MACHINE_QC,
+  [MachineLifecycleState.READY_TO_DISPATCH]:
+    ActionType.MARK_MACHINE_READY_TO_DISPATCH,
+  [MachineLifecycleState.DISPATCHED]: ActionType.DISPATCH_MACHINE,
+  [MachineLifecycleState.INSTALLED]: ActionType.INSTALL_MACHINE,
+  [MachineLifecycleState.DECOMMISSIONED]: ActionType.DECOMMISSION_MACHINE,
+};
+
+export interface MachineLifecycleInfo {
+  state: MachineLifecycleState;
+  history: IMachineLifecycleTransition[];
+  allowedTransitions: MachineLifecycleState[];
+}
+
 export interface CreateMachineData {
   so_id: string; // Reference to SO (Sales Order)
   created_by: string;
@@ -31,10 +71,26 @@ export interface CreateMachineData {
   }>;
   location?: string;
   dispatch_date?: Date | string;
+  machine_value?: number;
+  machine_sequence?: string; // Usually generated later; set by imports
   metadata?: Record<string, unknown>;
   is_approved?: boolean;
 }
 
+export interface CreateMachinesFromSOData {
+  so_id: string;
+  items: Array<{
+    no: number; // SO line item number
+    quantity?: number; // Machines to create; defaults to the units left
+  }>;
+  created_by: string;
+  dispatch_date?: Date | null;
+  is_approved?: boolean;
+}
+
+// Most machines created from an SO in one request
+const MAX_MACHINES_PER_SO_REQUEST = 100;
+
 export interface UpdateMachineData {
   so_id?: string; // Update SO reference if needed
   images?: string[];
@@ -45,6 +101,7 @@ export interface UpdateMachineData {
   }>;
   location?: string;
   dispatch_date?: Date | string | null;
+  machine_value?: number | null;
   machine_sequence?: string; // Can be updated but usually auto-generated
   metadata?: Record<string, unknown>;
   removedDocuments?: Array<{
@@ -69,6 +126,8 @@ export interface MachineFilters {
   category_id?: string; // Filter by SO's category_id
   is_approved?: boolean;
   created_by?: string;
+  lifecycle_state?: MachineLifecycleState[];
+  deleted?: boolean; // List soft-deleted machines (the trash) instead
   search?: string; // Search in SO name, SO party_name, location, machine_sequence
   has_sequence?: boolean;
   metadata_key?: string;
@@ -91,7 +150,8 @@ export interface MachineFilters {
     | 'party_name' // Sort by SO party_name
     | 'machine_sequence'
     | 'location'
-    | 'created_by';
+    | 'created_by'
+    | 'deletedAt';
   sortOrder?: 'asc' | 'desc';
 }
 
@@ -149,8 +209,13 @@ class MachineService {
         }
       }
 
-      // Machine sequence will be auto-generated later if needed
-      // For now, leave it as null
+      const isApproved =
+        typeof data.is_approved === 'boolean' ? data.is_approved : false;
+      const lifecycleState = isApproved
+        ? MachineLifecycleState.APPROVED
+        : MachineLifecycleState.PENDING_APPROVAL;
+
+      // Machine sequence is auto-generated later unless one is given
       const machine = new Machine({
         so_id: data.so_id,
         created_by: data.created_by,
@@ -158,10 +223,19 @@ class MachineService {
         documents: data.documents || [],
         location: data.location ? data.location.trim() : undefined,
         dispatch_date: dispatchDate,
-        machine_sequence: null, // Auto-generated later if needed
+        machine_value: data.machine_value ?? null,
+        machine_sequence: data.machine_sequence?.trim() || null,
         metadata: data.metadata || {},
-        is_approved:
-          typeof data.is_approved === 'boolean' ? data.is_approved : false,
+        is_approved: isApproved,
+        lifecycle_state: lifecycleState,
+        lifecycle_history: [
+          {
+            from: null,
+            to: lifecycleState,
+            changed_by: data.created_by,
+            changed_at: new Date(),
+          },
+        ],
       });
 
       await machine.save();
@@ -180,6 +254,13 @@ class MachineService {
         { path: 'created_by', select: 'username email' },
       ]);
 
+      await MachineRevisionService.record(
+        MachineRevisionOperation.CREATE,
+        null,
+        machine,
+        data.created_by,
+      );
+
       return machine;
     } catch (error) {
       if (error instanceof ApiError) throw error;
@@ -192,6 +273,156 @@ class MachineService {
     }
   }
 
+  /**
+   * Create machines for units of SO line items in one transaction: one
+   * machine per unit, each with a generated sequence and the SO location.
+   * Units that already have a machine (metadata.so_item_no) are not
+   * counted again. Sequence numbers are reserved before the machines are
+   * written, so a failed request can leave gaps in the sequence.
+   */
+  static async createFromSOItems(
+    data: CreateMachinesFromSOData,
+  ): Promise<IMachine[]> {
+    const so = await SO.findOne({
+      _id: data.so_id,
+      deletedAt: null,
+      is_active: true,
+    }).lean();
+    if (!so) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.CREATE,
+        StatusCodes.BAD_REQUEST,
+        'SO_NOT_FOUND',
+        'SO not found or is not active. Please select a valid active SO.',
+      );
+    }
+
+    // Units to create for each selected item
+    const selections = await Promise.all(
+      data.items.map(async (selection) => {
+        const item = so.items.find((soItem) => soItem.no === selection.no);
+        if (!item) {
+          throw new ApiError(
+            ERROR_MESSAGES.MACHINE.ACTION.CREATE,
+            StatusCodes.BAD_REQUEST,
+            'SO_ITEM_NOT_FOUND',
+            `SO ${so.so_number} has no item ${selection.no}`,
+          );
+        }
+
+        const existing = await Machine.countDocuments({
+          so_id: so._id,
+          deletedAt: null,
+          'metadata.so_item_no': item.no,
+        });
+        const remaining = Math.max(
+          Math.floor(item.quantity || 0) - existing,
+          0,
+        );
+        const quantity = selection.quantity ?? remaining;
+        if (quantity < 1 || quantity > remaining) {
+          throw new ApiError(
+            ERROR_MESSAGES.MACHINE.ACTION.CREATE,
+            StatusCodes.CONFLICT,
+            'SO_ITEM_QUANTITY_EXCEEDED',
+            `Item ${item.no} has ${remaining} unit(s) without a machine`,
+          );
+        }
+        return { item, quantity };
+      }),
+    );
+
+    const total = selections.reduce((sum, { quantity }) => sum + quantity, 0);
+    if (total > MAX_MACHINES_PER_SO_REQUEST) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.CREATE,
+        StatusCodes.BAD_REQUEST,
+        'TOO_MANY_MACHINES',
+        `Cannot create more than ${MAX_MACHINES_PER_SO_REQUEST} machines at once`,
+      );
+    }
+
+    const sequenceData: SequenceGenerationData = {
+      categoryId: String(so.category_id),
+    };
+    if (so.subcategory_id) {
+      sequenceData.subcategoryId = String(so.subcategory_id);
+    }
+
+    const isApproved = data.is_approved === true;
+    const lifecycleState = isApproved
+      ? MachineLifecycleState.APPROVED
+      : MachineLifecycleState.PENDING_APPROVAL;
+    const now = new Date();
+    const documents: Array<Record<string, unknown>> = [];
+    for (const { item, quantity } of selections) {
+      for (let unit = 1; unit <= quantity; unit++) {
+        documents.push({
+          _id: new mongoose.Types.ObjectId(),
+          so_id: so._id,
+          created_by: data.created_by,
+          machine_sequence:
+            await SequenceService.generateSequence(sequenceData),
+          location: so.location,
+          dispatch_date: data.dispatch_date ?? null,
+          metadata: {
+            so_item_no: item.no,
+            item_code: item.item_code,
+          },
+          is_approved: isApproved,
+          lifecycle_state: lifecycleState,
+          lifecycle_history: [
+            {
+              from: null,
+              to: lifecycleState,
+              changed_by: data.created_by,
+              changed_at: now,
+            },
+          ],
+        });
+      }
+    }
+    const machineIds = documents.map((doc) => doc['_id']);
+
+    try {
+      await withTransactionFallback(
+        async (session) => {
+          await Machine.insertMany(documents, session ? { session } : {});
+        },
+        async () => {
+          await Machine.deleteMany({ _id: { $in: machineIds } });
+        },
+      );
+    } catch (error) {
+      throw this.createFromSOFailed(error);
+    }
+
+    const machines = await Machine.find({ _id: { $in: machineIds } }).sort({
+      _id: 1,
+    });
+    await Promise.all(
+      machines.map((machine) =>
+        MachineRevisionService.record(
+          MachineRevisionOperation.CREATE,
+          null,
+          machine,
+          data.created_by,
+        ),
+      ),
+    );
+    return machines;
+  }
+
+  private static createFromSOFailed(error: unknown): ApiError {
+    console.error('Creating machines from SO items failed:', error);
+    return new ApiError(
+      ERROR_MESSAGES.MACHINE.ACTION.CREATE,
+      StatusCodes.INTERNAL_SERVER_ERROR,
+      'CREATE_MACHINES_FROM_SO_ERROR',
+      'Failed to create machines from SO items',
+    );
+  }
+
   /**
    * Get all machines with pagination and filters
    */
@@ -202,7 +433,9 @@ class MachineService {
   ): Promise<MachineListResult> {
     try {
       const skip = (page - 1) * limit;
-      const query: Record<string, unknown> = { deletedAt: null };
+      const query: Record<string, unknown> = {
+        deletedAt: filters.deleted ? { $ne: null } : null,
+      };
 
       // Apply filters
       if (filters.so_id) {
@@ -241,6 +474,10 @@ class MachineService {
         query['created_by'] = filters.created_by;
       }
 
+      if (filters.lifecycle_state?.length) {
+        query['lifecycle_state'] = { $in: filters.lifecycle_state };
+      }
+
       // Build $and array for complex queries
       const andConditions: Array<Record<string, unknown>> = [];
 
@@ -518,7 +755,10 @@ class MachineService {
 
       // Determine sort order
       const sortOrder = filters.sortOrder === 'asc' ? 1 : -1;
-      let sortField: Record<string, 1 | -1> = { createdAt: -1 }; // Default: latest first
+      // Default: latest first (most recently deleted in the trash)
+      let sortField: Record<string, 1 | -1> = filters.deleted
+        ? { deletedAt: -1 }
+        : { createdAt: -1 };
 
       if (filters.sortBy) {
         switch (filters.sortBy) {
@@ -547,6 +787,9 @@ class MachineService {
           case 'created_by':
             sortField = { created_by: sortOrder };
             break;
+          case 'deletedAt':
+            sortField = { deletedAt: sortOrder };
+            break;
           case 'createdAt':
           default:
             sortField = { createdAt: sortOrder };
@@ -877,10 +1120,23 @@ class MachineService {
       delete updateData.removedDocuments;
       delete (updateData as Record<string, unknown>)['removedImages'];
 
-      const machine = await Machine.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      }).populate([
+      const lifecycleUpdate =
+        typeof updateData.is_approved === 'boolean'
+          ? this.approvalLifecycleUpdate(
+              existingMachine.lifecycle_state,
+              updateData.is_approved,
+              data.updatedBy,
+            )
+          : {};
+
+      const machine = await Machine.findByIdAndUpdate(
+        id,
+        { ...updateData, ...lifecycleUpdate },
+        {
+          new: true,
+          runValidators: true,
+        },
+      ).populate([
         {
           path: 'so_id',
           select:
@@ -894,6 +1150,13 @@ class MachineService {
         { path: 'updatedBy', select: 'username email' },
       ]);
 
+      await MachineRevisionService.record(
+        MachineRevisionOperation.UPDATE,
+        existingMachine,
+        machine,
+        data.updatedBy,
+      );
+
       return machine!;
     } catch (error) {
       if (error instanceof ApiError) throw error;
@@ -907,9 +1170,11 @@ class MachineService {
   }
 
   /**
-   * Delete machine (soft delete)
+   * Delete machine (soft delete). Its active QC entries are deactivated
+   * and its pending machine and QC approvals cancelled; the machine keeps
+   * track of them so a restore can reopen them.
    */
-  static async delete(id: string): Promise<void> {
+  static async delete(id: string, deletedBy?: string): Promise<void> {
     try {
       if (!mongoose.Types.ObjectId.isValid(id)) {
         throw new ApiError(
@@ -934,9 +1199,55 @@ class MachineService {
         );
       }
 
-      await Machine.findByIdAndUpdate(id, {
-        deletedAt: new Date(),
-      });
+      // Records the deletion closes, kept on the machine for a restore
+      const [qcEntries, machineApprovals, qcApprovals] = await Promise.all([
+        QAMachineEntry.distinct('_id', { machine_id: id, is_active: true }),
+        MachineApproval.distinct('_id', {
+          machineId: id,
+          status: ApprovalStatus.PENDING,
+        }),
+        QCApproval.distinct('_id', {
+          machineId: id,
+          status: QCApprovalStatus.PENDING,
+        }),
+      ]);
+      const closures = {
+        qc_entries: qcEntries,
+        machine_approvals: machineApprovals,
+        qc_approvals: qcApprovals,
+      } as IMachineDeletionClosures;
+
+      const deletedMachine = await Machine.findByIdAndUpdate(
+        id,
+        {
+          deletedAt: new Date(),
+          deletion_closures: closures,
+          ...(deletedBy ? { updatedBy: deletedBy } : {}),
+        },
+        { new: true },
+      );
+
+      await Promise.all([
+        QAMachineEntry.updateMany(
+          { _id: { $in: closures.qc_entries } },
+          { is_active: false },
+        ),
+        MachineApproval.updateMany(
+          { _id: { $in: closures.machine_approvals } },
+          { status: ApprovalStatus.CANCELLED },
+        ),
+        QCApproval.updateMany(
+          { _id: { $in: closures.qc_approvals } },
+          { status: QCApprovalStatus.CANCELLED },
+        ),
+      ]);
+
+      await MachineRevisionService.record(
+        MachineRevisionOperation.DELETE,
+        machine,
+        deletedMachine,
+        deletedBy,
+      );
     } catch (error) {
       if (error instanceof ApiError) throw error;
       throw new ApiError(
@@ -948,6 +1259,124 @@ class MachineService {
     }
   }
 
+  /**
+   * Restore a soft-deleted machine from the trash, reactivating the QC
+   * entries and reopening the approvals its deletion closed
+   */
+  static async restore(id: string, restoredBy?: string): Promise<IMachine> {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        throw new ApiError(
+          ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+          StatusCodes.BAD_REQUEST,
+          'INVALID_MACHINE_ID',
+          'Invalid machine ID format',
+        );
+      }
+
+      const machine = await Machine.findOne({
+        _id: id,
+        deletedAt: { $ne: null },
+      });
+
+      if (!machine) {
+        throw new ApiError(
+          ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+          StatusCodes.NOT_FOUND,
+          'MACHINE_NOT_IN_TRASH',
+          'Deleted machine not found',
+        );
+      }
+
+      // so_id is populated without deleted SOs
+      if (!machine.so_id) {
+        throw new ApiError(
+          ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+          StatusCodes.CONFLICT,
+          'SO_DELETED',
+          'Cannot restore machine: its SO has been deleted. Please restore the SO first.',
+        );
+      }
+
+      if (
+        machine.machine_sequence &&
+        (await Machine.exists({
+          machine_sequence: machine.machine_sequence,
+          _id: { $ne: id },
+          deletedAt: null,
+        }))
+      ) {
+        throw new ApiError(
+          ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+          StatusCodes.CONFLICT,
+          'DUPLICATE_SEQUENCE',
+          `Machine sequence "${machine.machine_sequence}" has since been assigned to another machine`,
+        );
+      }
+
+      const closures = machine.deletion_closures;
+      const restoredMachine = await Machine.findOneAndUpdate(
+        { _id: id, deletedAt: { $ne: null } },
+        {
+          deletedAt: null,
+          deletion_closures: null,
+          ...(restoredBy ? { updatedBy: restoredBy } : {}),
+        },
+        { new: true },
+      );
+
+      // Restored or purged in the meantime
+      if (!restoredMachine) {
+        throw new ApiError(
+          ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+          StatusCodes.NOT_FOUND,
+          'MACHINE_NOT_IN_TRASH',
+          'Deleted machine not found',
+        );
+      }
+
+      if (closures) {
+        await Promise.all([
+          QAMachineEntry.updateMany(
+            { _id: { $in: closures.qc_entries } },
+            { is_active: true },
+          ),
+          MachineApproval.updateMany(
+            {
+              _id: { $in: closures.machine_approvals },
+              status: ApprovalStatus.CANCELLED,
+            },
+            { status: ApprovalStatus.PENDING },
+          ),
+          QCApproval.updateMany(
+            {
+              _id: { $in: closures.qc_approvals },
+              status: QCApprovalStatus.CANCELLED,
+            },
+            { status: QCApprovalStatus.PENDING },
+          ),
+        ]);
+      }
+
+      await MachineRevisionService.record(
+        MachineRevisionOperation.RESTORE,
+        machine,
+        restoredMachine,
+        restoredBy,
+      );
+
+      return restoredMachine;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.RESTORE,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'RESTORE_MACHINE_ERROR',
+        'Failed to restore machine',
+      );
+    }
+  }
+
   /**
    * Get approved machines
    */
@@ -1009,6 +1438,11 @@ class MachineService {
         {
           is_approved,
           updatedBy,
+          ...this.approvalLifecycleUpdate(
+            machine.lifecycle_state,
+            is_approved,
+            updatedBy,
+          ),
         },
         { new: true, runValidators: true },
       ).populate([
@@ -1025,6 +1459,13 @@ class MachineService {
         { path: 'updatedBy', select: 'username email' },
       ]);
 
+      await MachineRevisionService.record(
+        MachineRevisionOperation.APPROVAL,
+        machine,
+        updatedMachine,
+        updatedBy,
+      );
+
       return updatedMachine!;
     } catch (error) {
       if (error instanceof ApiError) throw error;
@@ -1102,6 +1543,7 @@ class MachineService {
     pendingMachines: number;
     approvedMachines: number;
     machinesByCategory: Array<{ _id: string; count: number }>;
+    machinesByLifecycleState: Record<MachineLifecycleState, number>;
     recentMachines: number;
   }> {
     try {
@@ -1138,6 +1580,32 @@ class MachineService {
         },
       ]);
 
+      // Machines in each lifecycle state; machines created before lifecycle
+      // tracking count under the schema default
+      const machinesByLifecycleState = Object.fromEntries(
+        Object.values(MachineLifecycleState).map((state) => [state, 0]),
+      ) as Record<MachineLifecycleState, number>;
+      const lifecycleCounts = await Machine.aggregate<{
+        _id: MachineLifecycleState;
+        count: number;
+      }>([
+        { $match: { deletedAt: null } },
+        {
+          $group: {
+            _id: {
+              $ifNull: [
+                '$lifecycle_state',
+                MachineLifecycleState.PENDING_APPROVAL,
+              ],
+            },
+            count: { $sum: 1 },
+          },
+        },
+      ]);
+      lifecycleCounts.forEach(({ _id, count }) => {
+        machinesByLifecycleState[_id] = count;
+      });
+
       // Get recent machines (last 30 days)
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -1153,6 +1621,7 @@ class MachineService {
         pendingMachines,
         approvedMachines,
         machinesByCategory,
+        machinesByLifecycleState,
         recentMachines,
       };
     } catch {
@@ -1164,6 +1633,216 @@ class MachineService {
       );
     }
   }
+
+  /**
+   * Permission action required to move a machine from one lifecycle state
+   * to another. Withdrawing an approval is an approval decision.
+   */
+  static getLifecycleAction(
+    from: MachineLifecycleState | undefined,
+    to: MachineLifecycleState,
+  ): ActionType {
+    if (
+      from === MachineLifecycleState.APPROVED &&
+      to === MachineLifecycleState.PENDING_APPROVAL
+    ) {
+      return ActionType.APPROVE_MACHINE;
+    }
+    return LIFECYCLE_ACTIONS[to];
+  }
+
+  /**
+   * Whether a machine can move from one lifecycle state to another
+   */
+  static canTransition(
+    from: MachineLifecycleState,
+    to: MachineLifecycleState,
+  ): boolean {
+    return MACHINE_LIFECYCLE_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Lifecycle fields to update along with is_approved: approving a draft or
+   * pending machine approves it, and unapproving an approved machine sends
+   * it back for approval. Machines further along keep their state.
+   */
+  static approvalLifecycleUpdate(
+    current: MachineLifecycleState | undefined,
+    isApproved: boolean,
+    changedBy?: string,
+  ): Record<string, unknown> {
+    const from = current || MachineLifecycleState.PENDING_APPROVAL;
+    let to: MachineLifecycleState | null = null;
+    if (
+      isApproved &&
+      (from === MachineLifecycleState.DRAFT ||
+        from === MachineLifecycleState.PENDING_APPROVAL)
+    ) {
+      to = MachineLifecycleState.APPROVED;
+    } else if (!isApproved && from === MachineLifecycleState.APPROVED) {
+      to = MachineLifecycleState.PENDING_APPROVAL;
+    }
+    if (!to) return {};
+
+    const entry: IMachineLifecycleTransition = {
+      from,
+      to,
+      changed_by: changedBy ? new mongoose.Types.ObjectId(changedBy) : null,
+      changed_at: new Date(),
+    };
+    return {
+      lifecycle_state: to,
+      $push: { lifecycle_history: entry },
+    };
+  }
+
+  /**
+   * Set a machine's lifecycle state and record the transition. The
+   * approval flag follows the approval states and a dispatched machine
+   * gets a dispatch date if it has none. The machine must be saved by the
+   * caller.
+   */
+  private static applyLifecycleTransition(
+    machine: IMachine,
+    to: MachineLifecycleState,
+    changedBy: string,
+    notes?: string,
+  ): void {
+    machine.lifecycle_history.push({
+      from: machine.lifecycle_state,
+      to,
+      changed_by: new mongoose.Types.ObjectId(changedBy),
+      changed_at: new Date(),
+      ...(notes ? { notes } : {}),
+    });
+    machine.lifecycle_state = to;
+    machine.updatedBy = new mongoose.Types.ObjectId(changedBy);
+
+    if (to === MachineLifecycleState.APPROVED) {
+      machine.is_approved = true;
+    } else if (
+      to === MachineLifecycleState.DRAFT ||
+      to === MachineLifecycleState.PENDING_APPROVAL
+    ) {
+      machine.is_approved = false;
+    } else if (
+      to === MachineLifecycleState.DISPATCHED &&
+      !machine.dispatch_date
+    ) {
+      machine.dispatch_date = new Date();
+    }
+  }
+
+  /**
+   * Move a machine to another lifecycle state
+   */
+  static async transitionLifecycle(
+    id: string,
+    to: MachineLifecycleState,
+    changedBy: string,
+    notes?: string,
+  ): Promise<IMachine> {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.UPDATE,
+        StatusCodes.BAD_REQUEST,
+        'INVALID_MACHINE_ID',
+        'Invalid machine ID format',
+      );
+    }
+
+    const machine = await Machine.findOne({ _id: id, deletedAt: null });
+    if (!machine) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.UPDATE,
+        StatusCodes.NOT_FOUND,
+        ERROR_MESSAGES.MACHINE.NOT_FOUND.code,
+        ERROR_MESSAGES.MACHINE.NOT_FOUND.message,
+      );
+    }
+
+    if (!this.canTransition(machine.lifecycle_state, to)) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.UPDATE,
+        StatusCodes.CONFLICT,
+        'INVALID_LIFECYCLE_TRANSITION',
+        `Machine cannot move from ${machine.lifecycle_state} to ${to}`,
+      );
+    }
+
+    const before = machine.toObject();
+    this.applyLifecycleTransition(machine, to, changedBy, notes);
+    await machine.save();
+    await MachineRevisionService.record(
+      MachineRevisionOperation.LIFECYCLE,
+      before,
+      machine,
+      changedBy,
+    );
+
+    return this.getById(id);
+  }
+
+  /**
+   * Move a machine to a lifecycle state as a side effect of another
+   * workflow (e.g. a QC approval), if the transition is allowed from its
+   * current state. Returns whether the machine moved.
+   */
+  static async advanceLifecycle(
+    id: string,
+    to: MachineLifecycleState,
+    changedBy: string,
+    notes?: string,
+  ): Promise<boolean> {
+    const machine = await Machine.findOne({ _id: id, deletedAt: null });
+    if (!machine || !this.canTransition(machine.lifecycle_state, to)) {
+      return false;
+    }
+
+    const before = machine.toObject();
+    this.applyLifecycleTransition(machine, to, changedBy, notes);
+    await machine.save();
+    await MachineRevisionService.record(
+      MachineRevisionOperation.LIFECYCLE,
+      before,
+      machine,
+      changedBy,
+    );
+    return true;
+  }
+
+  /**
+   * Current lifecycle state, transition history and next allowed states
+   */
+  static async getLifecycle(id: string): Promise<MachineLifecycleInfo> {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.GET,
+        StatusCodes.BAD_REQUEST,
+        'INVALID_MACHINE_ID',
+        'Invalid machine ID format',
+      );
+    }
+
+    const machine = await Machine.findOne({ _id: id, deletedAt: null })
+      .select('lifecycle_state lifecycle_history')
+      .populate('lifecycle_history.changed_by', 'username email');
+    if (!machine) {
+      throw new ApiError(
+        ERROR_MESSAGES.MACHINE.ACTION.GET,
+        StatusCodes.NOT_FOUND,
+        ERROR_MESSAGES.MACHINE.NOT_FOUND.code,
+        ERROR_MESSAGES.MACHINE.NOT_FOUND.message,
+      );
+    }
+
+    return {
+      state: machine.lifecycle_state,
+      history: machine.lifecycle_history,
+      allowedTransitions:
+        MACHINE_LIFECYCLE_TRANSITIONS[machine.lifecycle_state],
+    };
+  }
 }
 
 export default MachineService;
@@ -9,6 +9,12 @@ import {
 import { ApiError } from '../../../utils/ApiError';
 import { User } from '../../../models/user.model';
 import { Machine } from '../../../models/machine.model';
+import MachineService from './machine.service';
+import MachineRevisionService from './machineRevision.service';
+import { MachineRevisionOperation } from '../../../models/machineRevision.model';
+import { IApprovalStage } from '../../../models/approvalChain.model';
+import ApprovalChainService from '../../admin/permissionConfig/services/approvalChain.service';
+import { notifyStageApprovers } from '../../notification/helpers/notification.helper';
 
 export interface CreateApprovalRequestData {
   machineId: string;
@@ -18,11 +24,13 @@ export interface CreateApprovalRequestData {
   originalData?: Record<string, unknown>;
   requestNotes?: string;
   approverRoles?: string[]; // optional scoping to approver role ids
+  approvalChain?: IApprovalStage[] | undefined; // stages from the matched rule
 }
 
 export interface ApprovalDecisionData {
   approvalId: string;
   approvedBy: string;
+  onBehalfOf?: string | undefined; // Delegator, when decided by a delegate
   approved: boolean;
   approverNotes?: string;
   rejectionReason?: string;
@@ -112,9 +120,14 @@ class MachineApprovalService {
         proposedChanges: data.proposedChanges,
         requestNotes: data.requestNotes,
         status: ApprovalStatus.PENDING,
-        approverRoles: (data.approverRoles || []).map(
-          (id) => new mongoose.Types.ObjectId(id),
-        ),
+        approverRoles: ApprovalChainService.initialApproverRoles(
+          data.approvalChain,
+          data.approverRoles,
+        ).map((id) => new mongoose.Types.ObjectId(id)),
+        ...(data.approvalChain?.length && {
+          stages: ApprovalChainService.buildStages(data.approvalChain),
+          currentStage: 0,
+        }),
       });
 
       await approvalRequest.save();
@@ -718,6 +731,7 @@ class MachineApprovalService {
         { path: 'requestedBy', select: 'username email' },
         { path: 'approvedBy', select: 'username email' },
         { path: 'rejectedBy', select: 'username email' },
+        { path: 'onBehalfOf', select: 'username email' },
         { path: 'approverRoles', select: 'name' },
       ]);
 
@@ -868,6 +882,49 @@ class MachineApprovalService {
         );
       }
 
+      // Multi-stage approvals complete only when the final stage approves
+      if (ApprovalChainService.hasChain(approval)) {
+        const result = await ApprovalChainService.recordDecision(
+          approval,
+          {
+            approverId: data.approvedBy,
+            onBehalfOf: data.onBehalfOf,
+            approved: data.approved,
+            notes: data.approved ? data.approverNotes : data.rejectionReason,
+          },
+          'PROCESS_APPROVAL',
+        );
+        await ApprovalChainService.saveDecision(
+          MachineApproval,
+          approval,
+          result,
+          ApprovalStatus.PENDING,
+          'PROCESS_APPROVAL',
+        );
+        if (
+          result.outcome === 'STAGE_APPROVED' ||
+          result.outcome === 'STAGE_PENDING'
+        ) {
+          const pendingApproval = await this.getApprovalById(
+            String(approval._id),
+          );
+          if (result.nextStage) {
+            const machine = pendingApproval.machineId as unknown as {
+              so_id?: { name?: string; so_number?: string };
+            };
+            await notifyStageApprovers(
+              String(approval._id),
+              machine?.so_id?.name || machine?.so_id?.so_number || 'Machine',
+              result.nextStage.name,
+              result.nextStage.approverRoles.map(String),
+              data.approvedBy,
+              '/dispatch/approvals',
+            );
+          }
+          return pendingApproval;
+        }
+      }
+
       // Update approval status
       const updateData: {
         status: ApprovalStatus;
@@ -876,6 +933,7 @@ class MachineApprovalService {
         approvalDate?: Date | undefined;
         rejectedBy?: string | undefined;
         rejectionReason?: string | undefined;
+        onBehalfOf?: string | undefined;
       } = {
         status: data.approved
           ? ApprovalStatus.APPROVED
@@ -890,6 +948,9 @@ class MachineApprovalService {
         updateData.rejectedBy = data.approvedBy;
         updateData.rejectionReason = data.rejectionReason;
       }
+      if (data.onBehalfOf) {
+        updateData.onBehalfOf = data.onBehalfOf;
+      }
 
       const updatedApproval = await MachineApproval.findByIdAndUpdate(
         data.approvalId,
@@ -913,16 +974,34 @@ class MachineApprovalService {
         { path: 'requestedBy', select: 'username email' },
         { path: 'approvedBy', select: 'username email' },
         { path: 'rejectedBy', select: 'username email' },
+        { path: 'onBehalfOf', select: 'username email' },
       ]);
 
       // When an approval is accepted, reflect it on the machine document
       if (data.approved) {
         try {
-          await Machine.findByIdAndUpdate(
+          const machine = await Machine.findById(approval.machineId);
+          const approvedMachine = await Machine.findByIdAndUpdate(
             approval.machineId,
-            { is_approved: true, updatedAt: new Date() },
+            {
+              is_approved: true,
+              updatedAt: new Date(),
+              ...MachineService.approvalLifecycleUpdate(
+                machine?.lifecycle_state,
+                true,
+                data.approvedBy,
+              ),
+            },
             { new: true },
           );
+          if (machine && approvedMachine) {
+            await MachineRevisionService.record(
+              MachineRevisionOperation.APPROVAL,
+              machine,
+              approvedMachine,
+              data.approvedBy,
+            );
+          }
         } catch {
           // Do not fail the approval process if machine update fails; log and continue
           // You may replace with a proper logger
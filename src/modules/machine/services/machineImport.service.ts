@@ -0,0 +1,341 @@
+// services/machineImport.service.ts
+import { StatusCodes } from 'http-status-codes';
+import { Machine, IMachine } from '../../../models/machine.model';
+import { SO } from '../../../models/so.model';
+import { ApiError } from '../../../utils/ApiError';
+import { readSpreadsheetRows } from '../../../utils/spreadsheet.util';
+import {
+  createMachineSchema,
+  updateMachineSchema,
+  updateMachineSequenceSchema,
+} from '../validators/machine.joi.validator';
+import MachineService from './machine.service';
+
+export type MachineImportAction = 'create' | 'update' | 'none';
+
+export type MachineImportRowStatus =
+  | 'valid'
+  | 'invalid'
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'failed';
+
+export interface MachineImportRowResult {
+  row: number;
+  machine_sequence: string;
+  so_number: string;
+  action: MachineImportAction;
+  status: MachineImportRowStatus;
+  changedFields: string[];
+  errors: string[];
+  machineId?: string;
+}
+
+export interface MachineImportReport {
+  dryRun: boolean;
+  imported: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  rows: MachineImportRowResult[];
+}
+
+interface PreparedRow {
+  result: MachineImportRowResult;
+  machineId?: string;
+  data?: {
+    so_id: string;
+    location?: string;
+    dispatch_date?: Date;
+  };
+}
+
+// Columns expected in the sheet (header matching ignores case and spaces).
+// The other columns of the machine export (SO name, party, images, status,
+// ...) are derived or managed elsewhere and are ignored.
+const REQUIRED_HEADERS = ['Sequence', 'SO Number'];
+
+// Placeholder the export writes for empty values
+const EMPTY_CELL = '-';
+
+const cellValue = (values: Record<string, string>, header: string): string => {
+  const text = (values[header] || '').trim();
+  return text === EMPTY_CELL ? '' : text;
+};
+
+// Dispatch dates are compared as the export writes them (date only)
+const toDisplayDate = (value?: Date | string | null): string =>
+  value ? new Date(value).toLocaleDateString() : '';
+
+class MachineImportService {
+  /**
+   * Load active SOs of the sheet by SO number
+   */
+  private static async loadSOs(soNumbers: string[]) {
+    const sos = await SO.find({
+      so_number: { $in: soNumbers },
+      deletedAt: null,
+      is_active: true,
+    })
+      .select('so_number')
+      .lean();
+
+    const byNumber = new Map<string, string[]>();
+    sos.forEach((so) => {
+      const ids = byNumber.get(so.so_number) || [];
+      ids.push(String(so._id));
+      byNumber.set(so.so_number, ids);
+    });
+    return byNumber;
+  }
+
+  /**
+   * Load machines of the sheet by machine sequence, including machines in
+   * the trash (their sequences are still taken)
+   */
+  private static async loadMachines(sequences: string[]) {
+    const machines = await Machine.find({
+      machine_sequence: { $in: sequences },
+      deletedAt: { $exists: true },
+    })
+      .select('so_id machine_sequence location dispatch_date deletedAt')
+      .lean();
+    return new Map(
+      machines.map((machine) => [
+        machine.machine_sequence as string,
+        machine as IMachine,
+      ]),
+    );
+  }
+
+  /**
+   * Import machines from an .xlsx or .csv file in the layout of the
+   * machine export (plus an SO Number column), keyed by machine sequence:
+   * unknown sequences are created under the SO of the row and known ones
+   * get their location and dispatch date updated. Blank cells leave a
+   * field as it is, so importing an unchanged export changes nothing.
+   * Every row is validated first; machines are only written when all
+   * rows are valid and dryRun is false. Imported machines are approved.
+   */
+  static async importMachines(
+    buffer: Buffer,
+    fileName: string,
+    options: { dryRun: boolean; importedBy: string },
+  ): Promise<MachineImportReport> {
+    let sheetRows;
+    try {
+      sheetRows = await readSpreadsheetRows(buffer, fileName, REQUIRED_HEADERS);
+    } catch (error) {
+      throw new ApiError(
+        'IMPORT_MACHINES',
+        StatusCodes.BAD_REQUEST,
+        'INVALID_IMPORT_FILE',
+        error instanceof Error ? error.message : 'Unable to read import file',
+      );
+    }
+
+    if (sheetRows.length === 0) {
+      throw new ApiError(
+        'IMPORT_MACHINES',
+        StatusCodes.BAD_REQUEST,
+        'EMPTY_IMPORT_FILE',
+        'The import file does not contain any machine rows',
+      );
+    }
+
+    const [sos, machines] = await Promise.all([
+      this.loadSOs(
+        sheetRows
+          .map((row) => cellValue(row.values, 'sonumber'))
+          .filter(Boolean),
+      ),
+      this.loadMachines(
+        sheetRows
+          .map((row) => cellValue(row.values, 'sequence'))
+          .filter(Boolean),
+      ),
+    ]);
+    const seenSequences = new Set<string>();
+
+    const prepared: PreparedRow[] = sheetRows.map(({ rowNumber, values }) => {
+      const sequence = cellValue(values, 'sequence');
+      const soNumber = cellValue(values, 'sonumber');
+      const result: MachineImportRowResult = {
+        row: rowNumber,
+        machine_sequence: sequence,
+        so_number: soNumber,
+        action: 'none',
+        status: 'valid',
+        changedFields: [],
+        errors: [],
+      };
+
+      if (!sequence) {
+        result.errors.push('Sequence is required');
+      } else if (seenSequences.has(sequence)) {
+        result.errors.push('Duplicate sequence in import file');
+      }
+      if (sequence) seenSequences.add(sequence);
+
+      const soIds = soNumber ? sos.get(soNumber) || [] : [];
+      if (!soNumber) {
+        result.errors.push('SO Number is required');
+      } else if (soIds.length === 0) {
+        result.errors.push(`Active SO "${soNumber}" not found`);
+      } else if (soIds.length > 1) {
+        result.errors.push(`SO number "${soNumber}" matches more than one SO`);
+      }
+      const soId = soIds.length === 1 ? soIds[0]! : undefined;
+
+      const location = cellValue(values, 'location');
+      const dispatchText = cellValue(values, 'dispatchdate');
+      let dispatchDate: string | undefined;
+      if (dispatchText) {
+        const parsed = new Date(dispatchText);
+        if (isNaN(parsed.getTime())) {
+          result.errors.push(`Dispatch date "${dispatchText}" is not a date`);
+        } else {
+          dispatchDate = parsed.toISOString();
+        }
+      }
+
+      const match = sequence ? machines.get(sequence) : undefined;
+      if (match?.deletedAt) {
+        result.errors.push(
+          'Machine with this sequence is in the trash; restore it first',
+        );
+      }
+      const existing = match?.deletedAt ? undefined : match;
+      const fields = {
+        ...(soId ? { so_id: soId } : {}),
+        ...(location ? { location } : {}),
+        ...(dispatchDate ? { dispatch_date: dispatchDate } : {}),
+      };
+      const { error, value } = existing
+        ? updateMachineSchema.validate(
+            { ...fields, machine_sequence: sequence },
+            { abortEarly: false },
+          )
+        : createMachineSchema.validate(fields, { abortEarly: false });
+      if (error) {
+        result.errors.push(
+          ...error.details
+            // Missing SO IDs are reported as missing/unknown SO numbers
+            .filter((detail) => detail.path[0] !== 'so_id')
+            .map((detail) => detail.message),
+        );
+      }
+      if (!existing && sequence) {
+        const { error: sequenceError } = updateMachineSequenceSchema.validate({
+          machine_sequence: sequence,
+        });
+        if (sequenceError) result.errors.push(sequenceError.message);
+      }
+
+      if (existing && soId && String(existing.so_id?._id) !== soId) {
+        result.errors.push(
+          'Machine belongs to a different SO; the SO cannot be changed by import',
+        );
+      }
+
+      if (result.errors.length > 0) {
+        result.status = 'invalid';
+        return { result };
+      }
+
+      const data = {
+        so_id: soId!,
+        ...(value.location ? { location: value.location as string } : {}),
+        ...(value.dispatch_date
+          ? { dispatch_date: value.dispatch_date as Date }
+          : {}),
+      };
+
+      if (!existing) {
+        result.action = 'create';
+        return { result, data };
+      }
+
+      result.machineId = String(existing._id);
+      if (data.location !== undefined && data.location !== existing.location) {
+        result.changedFields.push('location');
+      }
+      if (
+        data.dispatch_date !== undefined &&
+        toDisplayDate(data.dispatch_date) !==
+          toDisplayDate(existing.dispatch_date)
+      ) {
+        result.changedFields.push('dispatch_date');
+      }
+      if (result.changedFields.length > 0) result.action = 'update';
+      return { result, machineId: result.machineId, data };
+    });
+
+    const invalidRows = prepared.filter(
+      (row) => row.result.status === 'invalid',
+    ).length;
+    const report: MachineImportReport = {
+      dryRun: options.dryRun,
+      imported: false,
+      totalRows: prepared.length,
+      validRows: prepared.length - invalidRows,
+      invalidRows,
+      createdRows: 0,
+      updatedRows: 0,
+      unchangedRows: 0,
+      rows: prepared.map((row) => row.result),
+    };
+
+    if (options.dryRun || invalidRows > 0) {
+      return report;
+    }
+
+    // Go through MachineService so each change is revisioned
+    for (const row of prepared) {
+      if (!row.data) continue;
+      const { result } = row;
+      try {
+        if (result.action === 'create') {
+          const machine = await MachineService.create({
+            ...row.data,
+            machine_sequence: result.machine_sequence,
+            created_by: options.importedBy,
+            is_approved: true,
+          });
+          result.status = 'created';
+          result.machineId = String(machine._id);
+          report.createdRows += 1;
+        } else if (result.action === 'update') {
+          await MachineService.update(row.machineId!, {
+            ...(result.changedFields.includes('location')
+              ? { location: row.data.location! }
+              : {}),
+            ...(result.changedFields.includes('dispatch_date')
+              ? { dispatch_date: row.data.dispatch_date! }
+              : {}),
+            updatedBy: options.importedBy,
+          });
+          result.status = 'updated';
+          report.updatedRows += 1;
+        } else {
+          result.status = 'unchanged';
+          report.unchangedRows += 1;
+        }
+      } catch (error) {
+        result.status = 'failed';
+        result.errors.push(
+          error instanceof Error ? error.message : 'Failed to import machine',
+        );
+      }
+    }
+
+    report.imported = report.createdRows + report.updatedRows > 0;
+    return report;
+  }
+}
+
+export default MachineImportService;
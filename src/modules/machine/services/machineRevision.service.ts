@@ -0,0 +1,277 @@
+// services/machineRevision.service.ts
+import mongoose from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import { Machine } from '../../../models/machine.model';
+import {
+  MachineRevision,
+  IMachineRevision,
+  IMachineRevisionFile,
+  MachineRevisionOperation,
+} from '../../../models/machineRevision.model';
+import { ApiError } from '../../../utils/ApiError';
+
+// Machine fields captured in each revision
+const REVISION_FIELDS = [
+  'so_id',
+  'created_by',
+  'machine_sequence',
+  'is_approved',
+  'lifecycle_state',
+  'location',
+  'dispatch_date',
+  'machine_value',
+  'metadata',
+  'images',
+  'documents',
+  'deletedAt',
+] as const;
+
+type MachineSnapshot = Record<string, unknown>;
+
+interface SnapshotDocument {
+  name?: string;
+  file_path: string;
+  document_type?: string;
+}
+
+// Populated references are recorded by id
+const toId = (item: unknown): string =>
+  String((item as { _id?: unknown })?._id ?? item);
+
+export interface RevisionFieldDiff {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface MachineRevisionDiff {
+  machineId: string;
+  from: number;
+  to: number;
+  changes: RevisionFieldDiff[];
+  addedFiles: IMachineRevisionFile[];
+  removedFiles: IMachineRevisionFile[];
+}
+
+class MachineRevisionService {
+  /**
+   * Comparable copy of the revisioned fields of a machine (a document or
+   * a plain object)
+   */
+  static snapshot(machine: unknown): MachineSnapshot {
+    const source = machine as Record<string, unknown>;
+    const snapshot: MachineSnapshot = {};
+    REVISION_FIELDS.forEach((field) => {
+      const value = source[field];
+      if (value === undefined || value === null) return;
+      // toObject() drops empty objects, so empty metadata counts as absent
+      if (field === 'metadata' && !Object.keys(value).length) return;
+      if (field === 'so_id' || field === 'created_by') {
+        snapshot[field] = toId(value);
+      } else if (field === 'documents') {
+        snapshot[field] = (value as SnapshotDocument[]).map((doc) => ({
+          name: doc.name,
+          file_path: doc.file_path,
+          ...(doc.document_type ? { document_type: doc.document_type } : {}),
+        }));
+      } else if (value instanceof Date) {
+        snapshot[field] = value.toISOString();
+      } else {
+        snapshot[field] = JSON.parse(JSON.stringify(value));
+      }
+    });
+    return snapshot;
+  }
+
+  private static diffSnapshots(
+    from: MachineSnapshot | null,
+    to: MachineSnapshot,
+  ): RevisionFieldDiff[] {
+    return REVISION_FIELDS.filter(
+      (field) =>
+        JSON.stringify(from?.[field] ?? null) !==
+        JSON.stringify(to[field] ?? null),
+    ).map((field) => ({
+      field,
+      from: from?.[field] ?? null,
+      to: to[field] ?? null,
+    }));
+  }
+
+  /**
+   * Image and document files of a snapshot
+   */
+  private static files(snapshot: MachineSnapshot | null) {
+    const images = ((snapshot?.['images'] as string[]) || []).map(
+      (filePath): IMachineRevisionFile => ({
+        kind: 'image',
+        file_path: filePath,
+      }),
+    );
+    const documents = (
+      (snapshot?.['documents'] as SnapshotDocument[]) || []
+    ).map(
+      (doc): IMachineRevisionFile => ({
+        kind: 'document',
+        file_path: doc.file_path,
+        ...(doc.name ? { name: doc.name } : {}),
+      }),
+    );
+    return [...images, ...documents];
+  }
+
+  /**
+   * Files added and removed between two snapshots
+   */
+  private static diffFiles(
+    from: MachineSnapshot | null,
+    to: MachineSnapshot,
+  ): {
+    addedFiles: IMachineRevisionFile[];
+    removedFiles: IMachineRevisionFile[];
+  } {
+    const key = (file: IMachineRevisionFile) =>
+      `${file.kind}:${file.file_path}`;
+    const fromFiles = this.files(from);
+    const toFiles = this.files(to);
+    const fromKeys = new Set(fromFiles.map(key));
+    const toKeys = new Set(toFiles.map(key));
+
+    return {
+      addedFiles: toFiles.filter((file) => !fromKeys.has(key(file))),
+      removedFiles: fromFiles.filter((file) => !toKeys.has(key(file))),
+    };
+  }
+
+  /**
+   * Append a revision for a change to a machine. Changes that leave the
+   * revisioned fields as they were are not recorded.
+   */
+  static async record(
+    operation: MachineRevisionOperation,
+    before: unknown,
+    after: unknown,
+    changedBy?: string | null,
+  ): Promise<IMachineRevision | null> {
+    const beforeSnapshot = before ? this.snapshot(before) : null;
+    const afterSnapshot = this.snapshot(after);
+    const changedFields = this.diffSnapshots(beforeSnapshot, afterSnapshot).map(
+      (change) => change.field,
+    );
+    if (beforeSnapshot && !changedFields.length) return null;
+
+    const machineId = (after as { _id: mongoose.Types.ObjectId })._id;
+    const { addedFiles, removedFiles } = this.diffFiles(
+      beforeSnapshot,
+      afterSnapshot,
+    );
+
+    // Concurrent changes can race for the next number; retry on conflict
+    for (let attempt = 0; ; attempt++) {
+      const latest = await MachineRevision.findOne({ machine: machineId })
+        .sort({ revision: -1 })
+        .select('revision')
+        .lean();
+
+      try {
+        return await MachineRevision.create({
+          machine: machineId,
+          revision: (latest?.revision || 0) + 1,
+          operation,
+          before: beforeSnapshot,
+          after: afterSnapshot,
+          changedFields,
+          addedFiles,
+          removedFiles,
+          changedBy: changedBy ? new mongoose.Types.ObjectId(changedBy) : null,
+        });
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000 || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private static async getRevision(
+    machineId: string,
+    revision: number,
+  ): Promise<IMachineRevision> {
+    const entry = await MachineRevision.findOne({
+      machine: machineId,
+      revision,
+    }).lean();
+    if (!entry) {
+      throw new ApiError(
+        'DIFF_MACHINE_REVISIONS',
+        StatusCodes.NOT_FOUND,
+        'REVISION_NOT_FOUND',
+        `Revision ${revision} not found for this machine`,
+      );
+    }
+    return entry as IMachineRevision;
+  }
+
+  /**
+   * Revisions of a machine (including a deleted one), newest first
+   */
+  static async getRevisions(
+    machineId: string,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    if (
+      !(await Machine.exists({ _id: machineId, deletedAt: { $exists: true } }))
+    ) {
+      throw new ApiError(
+        'GET_MACHINE_HISTORY',
+        StatusCodes.NOT_FOUND,
+        'MACHINE_NOT_FOUND',
+        'Machine not found',
+      );
+    }
+
+    const query = { machine: machineId };
+    const [revisions, total] = await Promise.all([
+      MachineRevision.find(query)
+        .populate('changedBy', 'username email')
+        .sort({ revision: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      MachineRevision.countDocuments(query),
+    ]);
+
+    return {
+      revisions,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+    };
+  }
+
+  /**
+   * Field and file differences between the machine as of two revisions
+   */
+  static async diffRevisions(
+    machineId: string,
+    from: number,
+    to: number,
+  ): Promise<MachineRevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.getRevision(machineId, from),
+      this.getRevision(machineId, to),
+    ]);
+
+    return {
+      machineId,
+      from,
+      to,
+      changes: this.diffSnapshots(fromRevision.after, toRevision.after),
+      ...this.diffFiles(fromRevision.after, toRevision.after),
+    };
+  }
+}
+
+export default MachineRevisionService;
@@ -0,0 +1,93 @@
+// services/machineTrash.service.ts
+import { Machine } from '../../../models/machine.model';
+import { MachineApproval } from '../../../models/machineApproval.model';
+import { QCApproval } from '../../../models/qcApproval.model';
+import { QAMachineEntry } from '../../../models/qcMachine.model';
+import {
+  deleteMachineImages,
+  deleteMachineDocuments,
+} from '../../../middlewares/multer.middleware';
+
+class MachineTrashService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  static getRetentionDays(): number {
+    return parseInt(process.env['MACHINE_TRASH_RETENTION_DAYS'] || '30', 10);
+  }
+
+  /**
+   * Permanently delete machines that have been in the trash longer than
+   * the retention period, with their QC entries, approvals and files.
+   * Machine revisions are kept.
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - this.getRetentionDays() * 24 * 60 * 60 * 1000,
+    );
+
+    const machines = await Machine.find({ deletedAt: { $lte: cutoff } })
+      .select('images documents')
+      .lean();
+
+    let purged = 0;
+    for (const machine of machines) {
+      // Remove the machine first so a restore cannot race the purge
+      const removed = await Machine.deleteOne({
+        _id: machine._id,
+        deletedAt: { $lte: cutoff },
+      });
+      if (removed.deletedCount === 0) continue;
+
+      await Promise.all([
+        QAMachineEntry.deleteMany({ machine_id: machine._id }),
+        MachineApproval.deleteMany({ machineId: machine._id }),
+        QCApproval.deleteMany({ machineId: machine._id }),
+      ]);
+      await deleteMachineImages(machine.images || []);
+      await deleteMachineDocuments(
+        (machine.documents || []).map((doc) => doc.file_path),
+      );
+      purged += 1;
+    }
+
+    return purged;
+  }
+
+  /**
+   * Purge expired machines from the trash periodically
+   * (MACHINE_TRASH_PURGE_CHECK_MINUTES, default 60)
+   */
+  static start(): void {
+    if (this.timer) return;
+
+    const intervalMinutes = parseInt(
+      process.env['MACHINE_TRASH_PURGE_CHECK_MINUTES'] || '60',
+      10,
+    );
+    const run = () => {
+      this.purgeExpired()
+        .then((purged) => {
+          if (purged > 0) {
+            console.log(`🗑️  Purged ${purged} machine(s) from the trash`);
+          }
+        })
+        .catch((error) => console.error('Machine trash purge failed:', error));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the periodic purge
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default MachineTrashService;
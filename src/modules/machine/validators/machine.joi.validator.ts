@@ -1,5 +1,6 @@
 // validators/machine.validator.ts
 import Joi from 'joi';
+import { MachineLifecycleState } from '../../../models/machine.model';
 
 /**
  * Validation schema for creating machine
@@ -52,6 +53,54 @@ export const createMachineSchema = Joi.object({
     'date.base': 'Dispatch date must be a valid date',
     'date.format': 'Dispatch date must be in ISO format (YYYY-MM-DD)',
   }),
+
+  machine_value: Joi.number().min(0).optional().messages({
+    'number.base': 'Machine value must be a number',
+    'number.min': 'Machine value cannot be negative',
+  }),
+});
+
+/**
+ * Validation schema for creating machines from SO line items
+ */
+export const createMachinesFromSOSchema = Joi.object({
+  so_id: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid SO ID format',
+      'any.required': 'SO ID is required',
+    }),
+
+  items: Joi.array()
+    .items(
+      Joi.object({
+        no: Joi.number().integer().required().messages({
+          'number.base': 'Item number must be a number',
+          'any.required': 'Item number is required',
+        }),
+        quantity: Joi.number().integer().min(1).optional().messages({
+          'number.base': 'Quantity must be a number',
+          'number.integer': 'Quantity must be a whole number',
+          'number.min': 'Quantity must be at least 1',
+        }),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .unique('no')
+    .required()
+    .messages({
+      'array.min': 'Select at least one SO item',
+      'array.max': 'Cannot select more than 50 SO items at once',
+      'array.unique': 'Each SO item can only be selected once',
+      'any.required': 'SO items are required',
+    }),
+
+  dispatch_date: Joi.date().iso().optional().allow(null, '').messages({
+    'date.base': 'Dispatch date must be a valid date',
+    'date.format': 'Dispatch date must be in ISO format (YYYY-MM-DD)',
+  }),
 });
 
 /**
@@ -123,6 +172,11 @@ export const updateMachineSchema = Joi.object({
     'date.base': 'Dispatch date must be a valid date',
     'date.format': 'Dispatch date must be in ISO format (YYYY-MM-DD)',
   }),
+
+  machine_value: Joi.number().min(0).optional().allow(null).messages({
+    'number.base': 'Machine value must be a number',
+    'number.min': 'Machine value cannot be negative',
+  }),
 })
   .custom((value, helpers) => {
     // Check if at least one field is provided (including empty string for machine_sequence)
@@ -229,6 +283,15 @@ export const machinePaginationQuerySchema = Joi.object({
     'boolean.base': 'Sequence filter must be a boolean',
   }),
 
+  // One state, or several (?lifecycle_state=A&lifecycle_state=B)
+  lifecycle_state: Joi.array()
+    .items(Joi.string().valid(...Object.values(MachineLifecycleState)))
+    .single()
+    .optional()
+    .messages({
+      'any.only': `Lifecycle state must be one of: ${Object.values(MachineLifecycleState).join(', ')}`,
+    }),
+
   created_by: Joi.string()
     .pattern(/^[0-9a-fA-F]{24}$/)
     .optional()
@@ -299,11 +362,12 @@ export const machinePaginationQuerySchema = Joi.object({
       'machine_sequence',
       'location',
       'created_by',
+      'deletedAt', // Trash only
     )
     .optional()
     .messages({
       'any.only':
-        'Sort by must be one of: createdAt, name, category, dispatch_date, party_name, machine_sequence, location, created_by',
+        'Sort by must be one of: createdAt, name, category, dispatch_date, party_name, machine_sequence, location, created_by, deletedAt',
     }),
 
   sortOrder: Joi.string().valid('asc', 'desc').optional().messages({
@@ -321,6 +385,59 @@ export const machineApprovalSchema = Joi.object({
   }),
 });
 
+/**
+ * Validation schema for a machine lifecycle transition
+ */
+export const machineLifecycleTransitionSchema = Joi.object({
+  state: Joi.string()
+    .valid(...Object.values(MachineLifecycleState))
+    .required()
+    .messages({
+      'any.only': `State must be one of: ${Object.values(MachineLifecycleState).join(', ')}`,
+      'any.required': 'State is required',
+    }),
+  notes: Joi.string().trim().max(500).allow('').optional().messages({
+    'string.max': 'Notes cannot exceed 500 characters',
+  }),
+});
+
+/**
+ * Validation schema for listing machine history
+ */
+export const machineHistoryQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1).messages({
+    'number.base': 'Page must be a number',
+    'number.integer': 'Page must be an integer',
+    'number.min': 'Page must be at least 1',
+  }),
+  limit: Joi.number().integer().min(1).max(100).default(20).messages({
+    'number.base': 'Limit must be a number',
+    'number.integer': 'Limit must be an integer',
+    'number.min': 'Limit must be at least 1',
+    'number.max': 'Limit cannot exceed 100',
+  }),
+});
+
+const revisionNumber = (label: string) =>
+  Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': `${label} must be a number`,
+      'number.integer': `${label} must be an integer`,
+      'number.min': `${label} must be at least 1`,
+      'any.required': `${label} is required`,
+    });
+
+/**
+ * Validation schema for comparing two machine revisions
+ */
+export const machineRevisionDiffQuerySchema = Joi.object({
+  from: revisionNumber('From revision'),
+  to: revisionNumber('To revision'),
+});
+
 /**
  * Validation schema for multiple machine IDs
  */
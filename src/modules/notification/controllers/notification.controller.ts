@@ -3,7 +3,10 @@ import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../../../utils/asyncHandler';
 import { ApiResponse } from '../../../utils/ApiResponse';
 import { ApiError } from '../../../utils/ApiError';
-import NotificationService from '../services/notification.service';
+import NotificationService, {
+  BroadcastAudience,
+} from '../services/notification.service';
+import notificationEmitter from '../services/notificationEmitter.service';
 import { NotificationType } from '../../../models/notification.model';
 
 export interface AuthenticatedRequest extends Request {
@@ -194,6 +197,64 @@ class NotificationController {
       res.status(response.statusCode).json(response);
     },
   );
+
+  /**
+   * Send a notification to all users, or to users of some roles/departments
+   * POST /api/notifications/broadcast
+   */
+  static broadcastNotification = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      if (!req.user) {
+        throw new ApiError(
+          'BROADCAST_NOTIFICATION',
+          StatusCodes.UNAUTHORIZED,
+          'USER_NOT_AUTHENTICATED',
+          'User authentication required',
+        );
+      }
+
+      const { title, message, actionUrl, actionLabel, roleIds, departmentIds } =
+        req.body as BroadcastAudience & {
+          title: string;
+          message: string;
+          actionUrl?: string;
+          actionLabel?: string;
+        };
+
+      const recipientIds = await NotificationService.getBroadcastRecipients({
+        roleIds,
+        departmentIds,
+      });
+      if (recipientIds.length === 0) {
+        throw new ApiError(
+          'BROADCAST_NOTIFICATION',
+          StatusCodes.BAD_REQUEST,
+          'NO_RECIPIENTS',
+          'No active users match the selected roles and departments',
+        );
+      }
+
+      await notificationEmitter.createAndEmitToMultipleUsers(recipientIds, {
+        senderId: req.user._id,
+        type: NotificationType.BROADCAST,
+        title,
+        message,
+        ...(actionUrl ? { actionUrl } : {}),
+        ...(actionLabel ? { actionLabel } : {}),
+        metadata: {
+          roleIds: roleIds || [],
+          departmentIds: departmentIds || [],
+        },
+      });
+
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        { recipients: recipientIds.length },
+        `Notification sent to ${recipientIds.length} user(s)`,
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
 }
 
 export default NotificationController;
@@ -1,5 +1,5 @@
 import mongoose from 'mongoose';
-import { User } from '../../../models/user.model';
+import { User, activeUserFilter } from '../../../models/user.model';
 import { Role } from '../../../models/role.model';
 import { NotificationType } from '../../../models/notification.model';
 import notificationEmitter from '../services/notificationEmitter.service';
@@ -13,7 +13,10 @@ export async function getUsersByRoleIds(roleIds: string[]): Promise<string[]> {
       // Fallback: get admin users
       const adminRole = await Role.findOne({ name: 'admin' }).select('_id');
       if (!adminRole) return [];
-      const adminUsers = await User.find({ role: adminRole._id })
+      const adminUsers = await User.find({
+        role: adminRole._id,
+        ...activeUserFilter,
+      })
         .select('_id')
         .lean();
       return adminUsers.map((u) => {
@@ -24,7 +27,10 @@ export async function getUsersByRoleIds(roleIds: string[]): Promise<string[]> {
       });
     }
 
-    const users = await User.find({ role: { $in: roleIds } })
+    const users = await User.find({
+      role: { $in: roleIds },
+      ...activeUserFilter,
+    })
       .select('_id')
       .lean();
     return users.map((u) => {
@@ -38,7 +44,10 @@ export async function getUsersByRoleIds(roleIds: string[]): Promise<string[]> {
     // Fallback: get admin users
     const adminRole = await Role.findOne({ name: 'admin' }).select('_id');
     if (!adminRole) return [];
-    const adminUsers = await User.find({ role: adminRole._id })
+    const adminUsers = await User.find({
+      role: adminRole._id,
+      ...activeUserFilter,
+    })
       .select('_id')
       .lean();
     return adminUsers.map((u) => {
@@ -156,3 +165,147 @@ export async function notifyMachineRejected(
     console.error('Error emitting machine rejected notification:', error);
   }
 }
+
+/**
+ * Emit notification to the account owner and admins when an account is locked
+ */
+export async function notifyAccountLocked(
+  userId: string,
+  username: string,
+  failedAttempts: number,
+  lockUntil: Date,
+): Promise<void> {
+  try {
+    const adminUserIds = await getUsersByRoleIds([]);
+    const recipientIds = Array.from(new Set([userId, ...adminUserIds]));
+
+    await notificationEmitter.createAndEmitToMultipleUsers(recipientIds, {
+      type: NotificationType.ACCOUNT_LOCKED,
+      title: 'Account Locked',
+      message: `Account "${username}" was locked after ${failedAttempts} failed login attempts until ${lockUntil.toISOString()}`,
+      relatedEntityType: 'user',
+      relatedEntityId: userId,
+      actionUrl: '/admin/users',
+      actionLabel: 'View User',
+      metadata: {
+        userId,
+        username,
+        failedAttempts,
+        lockUntil,
+      },
+    });
+  } catch (error) {
+    console.error('Error emitting account locked notification:', error);
+  }
+}
+
+/**
+ * Emit notification to the approvers of the next stage of an approval chain
+ */
+export async function notifyStageApprovers(
+  approvalId: string,
+  entityName: string,
+  stageName: string,
+  approverRoleIds: string[],
+  senderId: string,
+  actionUrl: string,
+): Promise<void> {
+  try {
+    const approverUserIds = await getUsersByRoleIds(approverRoleIds);
+
+    if (approverUserIds.length === 0) {
+      console.warn('No approver users found for approval stage notification');
+      return;
+    }
+
+    await notificationEmitter.createAndEmitToMultipleUsers(approverUserIds, {
+      senderId,
+      type: NotificationType.APPROVAL_REQUESTED,
+      title: 'Approval Requested',
+      message: `"${entityName}" is awaiting your approval (stage: ${stageName})`,
+      relatedEntityType: 'approval',
+      relatedEntityId: approvalId,
+      actionUrl,
+      actionLabel: 'View Approval',
+      metadata: {
+        approvalId,
+        entityName,
+        stageName,
+      },
+    });
+  } catch (error) {
+    console.error('Error emitting approval stage notification:', error);
+  }
+}
+
+/**
+ * Emit notification to a delegate when approvals are delegated to them
+ */
+export async function notifyApprovalDelegated(
+  delegateId: string,
+  delegatorId: string,
+  delegatorName: string,
+  delegationId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<void> {
+  try {
+    await notificationEmitter.createAndEmitNotification({
+      recipientId: delegateId,
+      senderId: delegatorId,
+      type: NotificationType.APPROVAL_DELEGATED,
+      title: 'Approvals Delegated',
+      message: `${delegatorName} delegated their approvals to you from ${startDate.toISOString()} to ${endDate.toISOString()}`,
+      relatedEntityType: 'user',
+      relatedEntityId: delegatorId,
+      actionUrl: '/dispatch/approvals',
+      actionLabel: 'View Approvals',
+      metadata: {
+        delegationId,
+        delegatorId,
+        delegatorName,
+        startDate,
+        endDate,
+      },
+    });
+  } catch (error) {
+    console.error('Error emitting approval delegated notification:', error);
+  }
+}
+
+/**
+ * Emit notification to an approver when a delegate decided an approval
+ * on their behalf
+ */
+export async function notifyDecisionOnBehalf(
+  delegatorId: string,
+  delegateId: string,
+  delegateName: string,
+  approvalId: string,
+  entityName: string,
+  approved: boolean,
+): Promise<void> {
+  try {
+    const decision = approved ? 'approved' : 'rejected';
+    await notificationEmitter.createAndEmitNotification({
+      recipientId: delegatorId,
+      senderId: delegateId,
+      type: NotificationType.APPROVAL_DECIDED_ON_BEHALF,
+      title: `Approval ${approved ? 'Approved' : 'Rejected'} on Your Behalf`,
+      message: `${delegateName} ${decision} "${entityName}" on your behalf`,
+      relatedEntityType: 'approval',
+      relatedEntityId: approvalId,
+      actionUrl: '/dispatch/approvals',
+      actionLabel: 'View Approval',
+      metadata: {
+        approvalId,
+        entityName,
+        delegateId,
+        delegateName,
+        approved,
+      },
+    });
+  } catch (error) {
+    console.error('Error emitting on-behalf decision notification:', error);
+  }
+}
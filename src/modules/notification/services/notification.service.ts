@@ -5,6 +5,7 @@ import {
   INotification,
   NotificationType,
 } from '../../../models/notification.model';
+import { User, activeUserFilter } from '../../../models/user.model';
 import { ApiError } from '../../../utils/ApiError';
 
 export interface CreateNotificationData {
@@ -27,6 +28,11 @@ export interface NotificationFilters {
   limit?: number;
 }
 
+export interface BroadcastAudience {
+  roleIds?: string[] | undefined;
+  departmentIds?: string[] | undefined;
+}
+
 export interface NotificationListResult {
   notifications: INotification[];
   total: number;
@@ -81,6 +87,27 @@ class NotificationService {
     }
   }
 
+  /**
+   * Ids of the active, approved users a broadcast goes to. Without role
+   * or department filters, every such user receives it.
+   */
+  static async getBroadcastRecipients(
+    audience: BroadcastAudience,
+  ): Promise<string[]> {
+    const users = await User.find({
+      isApproved: true,
+      isServiceAccount: { $ne: true },
+      ...activeUserFilter,
+      ...(audience.roleIds?.length ? { role: { $in: audience.roleIds } } : {}),
+      ...(audience.departmentIds?.length
+        ? { department: { $in: audience.departmentIds } }
+        : {}),
+    })
+      .select('_id')
+      .lean();
+    return users.map((user) => user._id.toString());
+  }
+
   /**
    * Get notifications for a user
    */
@@ -0,0 +1,34 @@
+import Joi from 'joi';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const objectIdList = (label: string) =>
+  Joi.array()
+    .items(
+      Joi.string()
+        .pattern(objectIdPattern)
+        .messages({ 'string.pattern.base': `Invalid ${label} ID format` }),
+    )
+    .unique()
+    .optional();
+
+/**
+ * Validation schema for broadcasting a notification. Without roleIds or
+ * departmentIds it goes to every active user.
+ */
+export const broadcastNotificationSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(200).required().messages({
+    'string.empty': 'Title is required',
+    'string.max': 'Title cannot exceed 200 characters',
+    'any.required': 'Title is required',
+  }),
+  message: Joi.string().trim().min(1).max(2000).required().messages({
+    'string.empty': 'Message is required',
+    'string.max': 'Message cannot exceed 2000 characters',
+    'any.required': 'Message is required',
+  }),
+  actionUrl: Joi.string().trim().max(500).optional(),
+  actionLabel: Joi.string().trim().max(50).optional(),
+  roleIds: objectIdList('role'),
+  departmentIds: objectIdList('department'),
+});
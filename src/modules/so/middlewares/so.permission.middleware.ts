@@ -0,0 +1,74 @@
+// middlewares/so.permission.middleware.ts
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { SO, calculateOrderValue } from '../../../models/so.model';
+import { PermissionContextResolver } from '../../admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+
+type SOItemsBody = {
+  category_id?: string;
+  items?: Array<{ total?: number | null }>;
+};
+
+/**
+ * Permission context resolvers for SO routes.
+ * The value of an SO is its order value (sum of item totals).
+ */
+class SOPermissionMiddleware {
+  /**
+   * Context for creating an SO (body validated: category_id, items)
+   */
+  static createContext: PermissionContextResolver = (req: Request) => {
+    const body = req.body as SOItemsBody;
+    return {
+      categoryId: body.category_id,
+      machineValue: calculateOrderValue(body.items),
+    };
+  };
+
+  /**
+   * Context for acting on an existing SO (req.params.id), from the stored
+   * SO only
+   */
+  static existingSOContext: PermissionContextResolver = async (
+    req: Request,
+  ) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const so = await SO.findById(id).select('category_id order_value').lean();
+    if (!so) return {};
+
+    return {
+      categoryId: so.category_id?.toString(),
+      machineValue: so.order_value,
+    };
+  };
+
+  /**
+   * Context for updating an SO (req.params.id, body validated: category_id,
+   * items). A new category is used; the value is the larger of the stored
+   * order value and that of the new items.
+   */
+  static updateSOContext: PermissionContextResolver = async (req: Request) => {
+    const { id } = req.params;
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return {};
+
+    const so = await SO.findById(id).select('category_id order_value').lean();
+    if (!so) return {};
+
+    const body = (req.body || {}) as SOItemsBody;
+    const values = [
+      so.order_value,
+      Array.isArray(body.items) && body.items.length > 0
+        ? calculateOrderValue(body.items)
+        : undefined,
+    ].filter((value): value is number => typeof value === 'number');
+
+    return {
+      categoryId: body.category_id || so.category_id?.toString(),
+      ...(values.length ? { machineValue: Math.max(...values) } : {}),
+    };
+  };
+}
+
+export default SOPermissionMiddleware;
@@ -9,6 +9,9 @@ import {
 import { ApiError } from '../../../utils/ApiError';
 import { User } from '../../../models/user.model';
 import { SO } from '../../../models/so.model';
+import { IApprovalStage } from '../../../models/approvalChain.model';
+import ApprovalChainService from '../../admin/permissionConfig/services/approvalChain.service';
+import { notifyStageApprovers } from '../../notification/helpers/notification.helper';
 
 export interface CreateSOApprovalRequestData {
   soId: string;
@@ -18,11 +21,13 @@ export interface CreateSOApprovalRequestData {
   originalData?: Record<string, unknown>;
   requestNotes?: string;
   approverRoles?: string[]; // optional scoping to approver role ids
+  approvalChain?: IApprovalStage[] | undefined; // stages from the matched rule
 }
 
 export interface SOApprovalDecisionData {
   approvalId: string;
   approvedBy: string;
+  onBehalfOf?: string | undefined; // Delegator, when decided by a delegate
   approved: boolean;
   approverNotes?: string;
   rejectionReason?: string;
@@ -97,9 +102,14 @@ class SOApprovalService {
         proposedChanges: data.proposedChanges,
         requestNotes: data.requestNotes,
         status: SOApprovalStatus.PENDING,
-        approverRoles: (data.approverRoles || []).map(
-          (id) => new mongoose.Types.ObjectId(id),
-        ),
+        approverRoles: ApprovalChainService.initialApproverRoles(
+          data.approvalChain,
+          data.approverRoles,
+        ).map((id) => new mongoose.Types.ObjectId(id)),
+        ...(data.approvalChain?.length && {
+          stages: ApprovalChainService.buildStages(data.approvalChain),
+          currentStage: 0,
+        }),
       });
 
       await approvalRequest.save();
@@ -225,6 +235,7 @@ class SOApprovalService {
         { path: 'requestedBy', select: 'username email' },
         { path: 'approvedBy', select: 'username email' },
         { path: 'rejectedBy', select: 'username email' },
+        { path: 'onBehalfOf', select: 'username email' },
         { path: 'approverRoles', select: 'name' },
       ]);
 
@@ -286,6 +297,50 @@ class SOApprovalService {
         );
       }
 
+      // Multi-stage approvals complete only when the final stage approves
+      if (ApprovalChainService.hasChain(approval)) {
+        const result = await ApprovalChainService.recordDecision(
+          approval,
+          {
+            approverId: data.approvedBy,
+            onBehalfOf: data.onBehalfOf,
+            approved: data.approved,
+            notes: data.approved ? data.approverNotes : data.rejectionReason,
+          },
+          'PROCESS_SO_APPROVAL',
+        );
+        await ApprovalChainService.saveDecision(
+          SOApproval,
+          approval,
+          result,
+          SOApprovalStatus.PENDING,
+          'PROCESS_SO_APPROVAL',
+        );
+        if (
+          result.outcome === 'STAGE_APPROVED' ||
+          result.outcome === 'STAGE_PENDING'
+        ) {
+          const pendingApproval = await this.getApprovalById(
+            String(approval._id),
+          );
+          if (result.nextStage) {
+            const so = pendingApproval.soId as unknown as {
+              name?: string;
+              so_number?: string;
+            };
+            await notifyStageApprovers(
+              String(approval._id),
+              so?.name || so?.so_number || 'SO',
+              result.nextStage.name,
+              result.nextStage.approverRoles.map(String),
+              data.approvedBy,
+              '/dispatch/approvals',
+            );
+          }
+          return pendingApproval;
+        }
+      }
+
       // Update approval status
       const updateData: {
         status: SOApprovalStatus;
@@ -294,6 +349,7 @@ class SOApprovalService {
         approvalDate?: Date | undefined;
         rejectedBy?: string | undefined;
         rejectionReason?: string | undefined;
+        onBehalfOf?: string | undefined;
       } = {
         status: data.approved
           ? SOApprovalStatus.APPROVED
@@ -308,6 +364,9 @@ class SOApprovalService {
         updateData.rejectedBy = data.approvedBy;
         updateData.rejectionReason = data.rejectionReason;
       }
+      if (data.onBehalfOf) {
+        updateData.onBehalfOf = data.onBehalfOf;
+      }
 
       const updatedApproval = await SOApproval.findByIdAndUpdate(
         data.approvalId,
@@ -326,6 +385,7 @@ class SOApprovalService {
         { path: 'requestedBy', select: 'username email' },
         { path: 'approvedBy', select: 'username email' },
         { path: 'rejectedBy', select: 'username email' },
+        { path: 'onBehalfOf', select: 'username email' },
       ]);
 
       // When an approval is accepted, ensure SO is active
@@ -376,17 +436,20 @@ class SOApprovalService {
   static async getPendingApprovals(
     page: number = 1,
     limit: number = 10,
-    approverRoleId?: string,
+    approverRoleIds: string[] = [],
   ): Promise<SOApprovalListResult> {
     const filters: SOApprovalFilters = {
       status: SOApprovalStatus.PENDING,
     };
 
-    // If approverRoleId is provided, filter by approverRoles
-    if (approverRoleId) {
+    // If approver roles are provided, filter by approverRoles
+    if (approverRoleIds.length) {
+      const roleFilter = {
+        $in: approverRoleIds.map((id) => new mongoose.Types.ObjectId(id)),
+      };
       const approvals = await SOApproval.find({
         status: SOApprovalStatus.PENDING,
-        approverRoles: new mongoose.Types.ObjectId(approverRoleId),
+        approverRoles: roleFilter,
       })
         .populate([
           {
@@ -408,7 +471,7 @@ class SOApprovalService {
 
       const total = await SOApproval.countDocuments({
         status: SOApprovalStatus.PENDING,
-        approverRoles: new mongoose.Types.ObjectId(approverRoleId),
+        approverRoles: roleFilter,
       });
 
       return {
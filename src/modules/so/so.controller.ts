@@ -14,6 +14,7 @@ import { deleteMachineDocuments } from '../../middlewares/multer.middleware';
 import { Role } from '../../models/role.model';
 import SOApprovalService from './services/soApproval.service';
 import { SOApprovalType } from '../../models/soApproval.model';
+import { IApprovalStage } from '../../models/approvalChain.model';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -23,6 +24,12 @@ export interface AuthenticatedRequest extends Request {
     role: string;
     department: string;
   };
+  permissionInfo?: {
+    requiresApproval?: boolean;
+    approverRoles?: string[];
+    approvalChain?: IApprovalStage[];
+    reason?: string | undefined;
+  };
 }
 
 // Helper function to extract Cloudinary URLs from files
@@ -248,13 +255,22 @@ class SOController {
           : null;
       const roleName = userRole?.name?.toLowerCase();
 
-      // If user is sub-admin, create approval request
-      if (roleName === 'sub-admin') {
-        const adminRole = await Role.findOne({ name: 'admin' })
-          .select('_id')
-          .lean();
+      // Approval is needed for sub-admins and whenever a permission rule
+      // requires it (e.g. orders above a value limit)
+      const ruleRequiresApproval =
+        req.permissionInfo?.requiresApproval === true;
+      if (roleName === 'sub-admin' || ruleRequiresApproval) {
+        let approverRoles = ruleRequiresApproval
+          ? req.permissionInfo?.approverRoles || []
+          : [];
+        if (approverRoles.length === 0) {
+          const adminRole = await Role.findOne({ name: 'admin' })
+            .select('_id')
+            .lean();
+          if (adminRole?._id) approverRoles = [adminRole._id.toString()];
+        }
 
-        if (adminRole?._id) {
+        if (approverRoles.length > 0) {
           // Create approval request
           await SOApprovalService.createApprovalRequest({
             soId: so._id.toString(),
@@ -268,9 +284,15 @@ class SOController {
               so_number: so.so_number,
               party_name: so.party_name,
               mobile_number: so.mobile_number,
+              order_value: so.order_value,
             },
-            requestNotes: 'SO created by sub-admin, awaiting admin approval',
-            approverRoles: [adminRole._id.toString()],
+            requestNotes: ruleRequiresApproval
+              ? `SO creation requires approval: ${req.permissionInfo?.reason || 'permission rule'}`
+              : 'SO created by sub-admin, awaiting admin approval',
+            approverRoles,
+            approvalChain: ruleRequiresApproval
+              ? req.permissionInfo?.approvalChain
+              : undefined,
           });
 
           // Set SO to inactive until approved
@@ -4,10 +4,15 @@ import { asyncHandler } from '../../utils/asyncHandler';
 import { ApiResponse } from '../../utils/ApiResponse';
 import { ApiError } from '../../utils/ApiError';
 import SOApprovalService from './services/soApproval.service';
+import ApprovalChainService from '../admin/permissionConfig/services/approvalChain.service';
+import ApprovalDelegationService from '../user/services/approvalDelegation.service';
+import { notifyDecisionOnBehalf } from '../notification/helpers/notification.helper';
 import {
+  ISOApproval,
   SOApprovalType,
   SOApprovalStatus,
 } from '../../models/soApproval.model';
+import { DelegationScope } from '../../models/approvalDelegation.model';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
 
 class SOApprovalController {
@@ -123,10 +128,24 @@ class SOApprovalController {
 
       const approverRoleId = userRole?._id?.toString();
 
+      // Delegates also see the approvals of the approvers they stand in for
+      const delegators = await ApprovalDelegationService.getActiveDelegators(
+        req.user._id.toString(),
+        DelegationScope.SO_APPROVAL,
+      );
+      const approverRoleIds = [
+        ...new Set(
+          [
+            approverRoleId,
+            ...delegators.map((delegator) => delegator.roleId),
+          ].filter((roleId): roleId is string => Boolean(roleId)),
+        ),
+      ];
+
       const result = await SOApprovalService.getPendingApprovals(
         page,
         limit,
-        approverRoleId,
+        approverRoleIds,
       );
 
       const response = new ApiResponse(
@@ -193,35 +212,60 @@ class SOApprovalController {
         );
       }
 
-      // Verify user has admin role
-      const user = await req.user.populate('role');
-      const userRole =
-        typeof user.role === 'object' && user.role !== null
-          ? (user.role as { name?: string })
-          : null;
-      const roleName = userRole?.name?.toLowerCase();
-
-      if (roleName !== 'admin') {
-        throw new ApiError(
-          'PROCESS_SO_APPROVAL',
-          StatusCodes.FORBIDDEN,
-          'INSUFFICIENT_PERMISSIONS',
-          'Only admins can process SO approvals',
+      // Approvers decide themselves; a delegate decides on behalf of an
+      // approver whose approvals are delegated to them
+      const existingApproval = await SOApprovalService.getApprovalById(
+        id ?? '',
+      );
+      const canDecide = (userId: string) =>
+        SOApprovalController.canDecide(existingApproval, userId);
+      let onBehalfOf: string | undefined;
+      if (!(await canDecide(req.user._id.toString()))) {
+        onBehalfOf = await ApprovalDelegationService.findDelegatorFor(
+          req.user._id.toString(),
+          DelegationScope.SO_APPROVAL,
+          canDecide,
         );
+        if (!onBehalfOf) {
+          throw new ApiError(
+            'PROCESS_SO_APPROVAL',
+            StatusCodes.FORBIDDEN,
+            'INSUFFICIENT_PERMISSIONS',
+            'Only admins can process SO approvals',
+          );
+        }
       }
 
       const approval = await SOApprovalService.processApprovalDecision({
         approvalId: id,
         approvedBy: req.user._id,
+        onBehalfOf,
         approved,
         approverNotes,
         rejectionReason,
       });
 
+      if (onBehalfOf) {
+        const so = approval.soId as unknown as {
+          name?: string;
+          so_number?: string;
+        } | null;
+        await notifyDecisionOnBehalf(
+          onBehalfOf,
+          req.user._id.toString(),
+          req.user.username || req.user.email || 'A delegate',
+          String(approval._id),
+          so?.name || so?.so_number || 'SO',
+          approved,
+        );
+      }
+
       const response = new ApiResponse(
         true,
         approval,
-        `SO approval ${approved ? 'approved' : 'rejected'} successfully`,
+        approval.status === SOApprovalStatus.PENDING
+          ? 'Approval stage recorded; awaiting the next approvers'
+          : `SO approval ${approved ? 'approved' : 'rejected'} successfully`,
       );
       res.status(StatusCodes.OK).json(response);
     },
@@ -290,6 +334,21 @@ class SOApprovalController {
       res.status(StatusCodes.OK).json(response);
     },
   );
+
+  /**
+   * Whether a user may decide an approval: the approvers of the current
+   * stage of a chained approval, otherwise admins
+   */
+  private static async canDecide(
+    approval: ISOApproval,
+    userId: string,
+  ): Promise<boolean> {
+    if (ApprovalChainService.hasChain(approval)) {
+      return ApprovalChainService.canDecide(approval, userId);
+    }
+    const { roleName } = await ApprovalChainService.getApproverRole(userId);
+    return roleName === 'admin';
+  }
 }
 
 export default SOApprovalController;
@@ -0,0 +1,104 @@
+// apiKey.controller.ts
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { ApiResponse } from '../../utils/ApiResponse';
+import ApiKeyService from './services/apiKey.service';
+import { AuthenticatedRequest } from './user.controller';
+
+class ApiKeyController {
+  /**
+   * Create a service account for an integration
+   * POST /api/user/service-accounts
+   */
+  static createServiceAccount = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { username, email, role, department } = req.body;
+
+      const account = await ApiKeyService.createServiceAccount(
+        { username, email, role, department },
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        account,
+        'Service account created successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * List service accounts
+   * GET /api/user/service-accounts
+   */
+  static getServiceAccounts = asyncHandler(
+    async (_req: Request, res: Response) => {
+      const accounts = await ApiKeyService.getServiceAccounts();
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        accounts,
+        'Service accounts retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Issue an API key; the plain key is only returned in this response
+   * POST /api/user/service-accounts/:id/keys
+   */
+  static createApiKey = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { name, scopes, rateLimitPerMinute, expiresInDays } = req.body;
+
+      const result = await ApiKeyService.createApiKey(
+        req.params['id'] as string,
+        { name, scopes, rateLimitPerMinute, expiresInDays },
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        result,
+        'API key created. Store it now, it will not be shown again',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * List API keys of a service account
+   * GET /api/user/service-accounts/:id/keys
+   */
+  static getApiKeys = asyncHandler(async (req: Request, res: Response) => {
+    const keys = await ApiKeyService.getApiKeys(req.params['id'] as string);
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      keys,
+      'API keys retrieved successfully',
+    );
+    res.status(response.statusCode).json(response);
+  });
+
+  /**
+   * Revoke an API key
+   * DELETE /api/user/service-accounts/:id/keys/:keyId
+   */
+  static revokeApiKey = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const apiKey = await ApiKeyService.revokeApiKey(
+        req.params['id'] as string,
+        req.params['keyId'] as string,
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        apiKey,
+        'API key revoked successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+}
+
+export default ApiKeyController;
@@ -0,0 +1,73 @@
+// approvalDelegation.controller.ts
+import { Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { ApiResponse } from '../../utils/ApiResponse';
+import { Role } from '../../models/role.model';
+import ApprovalDelegationService from './services/approvalDelegation.service';
+import { AuthenticatedRequest } from './user.controller';
+
+class ApprovalDelegationController {
+  /**
+   * Delegate own approvals to another user for a period
+   * POST /api/user/delegations
+   */
+  static createDelegation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { delegateId, startDate, endDate, scopes, reason } = req.body;
+
+      const delegation = await ApprovalDelegationService.createDelegation(
+        req.user._id.toString(),
+        { delegateId, startDate, endDate, scopes, reason },
+      );
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        delegation,
+        'Delegation created successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Delegations the current user has given and received
+   * GET /api/user/delegations
+   */
+  static getDelegations = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const delegations = await ApprovalDelegationService.getDelegations(
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        delegations,
+        'Delegations retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Revoke a delegation (its delegator or an admin)
+   * DELETE /api/user/delegations/:id
+   */
+  static revokeDelegation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const role = await Role.findById(req.user?.role).select('name').lean();
+
+      const delegation = await ApprovalDelegationService.revokeDelegation(
+        req.params['id'] as string,
+        req.user._id.toString(),
+        role?.name?.toLowerCase() === 'admin',
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        delegation,
+        'Delegation revoked successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+}
+
+export default ApprovalDelegationController;
@@ -0,0 +1,101 @@
+// impersonation.controller.ts
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { ApiResponse } from '../../utils/ApiResponse';
+import ImpersonationService from './services/impersonation.service';
+import { AuthenticatedRequest } from './user.controller';
+
+class ImpersonationController {
+  /**
+   * Start impersonating a user. The returned token is sent in the
+   * X-Impersonation-Token header to act as that user.
+   * POST /api/user/:id/impersonate
+   */
+  static startImpersonation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { reason, readOnly, durationMinutes } = req.body;
+
+      const result = await ImpersonationService.startImpersonation(
+        req.user._id.toString(),
+        req.params['id'] as string,
+        { reason, readOnly, durationMinutes },
+        { userAgent: req.get('User-Agent'), ipAddress: req.ip },
+      );
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        result,
+        'Impersonation started',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * End an impersonation
+   * POST /api/user/impersonations/:id/end
+   */
+  static endImpersonation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const impersonation = await ImpersonationService.endImpersonation(
+        req.params['id'] as string,
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        impersonation,
+        'Impersonation ended',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * List impersonations
+   * GET /api/user/impersonations
+   */
+  static getImpersonations = asyncHandler(
+    async (req: Request, res: Response) => {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 10;
+      const adminId = req.query['adminId'] as string | undefined;
+      const targetUserId = req.query['targetUserId'] as string | undefined;
+      const active = req.query['active'] as string | undefined;
+
+      const result = await ImpersonationService.getImpersonations(page, limit, {
+        ...(adminId ? { adminId } : {}),
+        ...(targetUserId ? { targetUserId } : {}),
+        ...(active !== undefined ? { active: active === 'true' } : {}),
+      });
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        result,
+        'Impersonations retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Requests made during an impersonation
+   * GET /api/user/impersonations/:id/audit-log
+   */
+  static getAuditLog = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query['page'] as string) || 1;
+    const limit = parseInt(req.query['limit'] as string) || 50;
+
+    const result = await ImpersonationService.getAuditLog(
+      req.params['id'] as string,
+      page,
+      limit,
+    );
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      result,
+      'Impersonation audit log retrieved successfully',
+    );
+    res.status(response.statusCode).json(response);
+  });
+}
+
+export default ImpersonationController;
@@ -0,0 +1,116 @@
+// invitation.controller.ts
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { ApiResponse } from '../../utils/ApiResponse';
+import InvitationService, {
+  InvitationFilters,
+} from './services/invitation.service';
+import { AuthenticatedRequest } from './user.controller';
+
+class InvitationController {
+  /**
+   * Invite a user with a pre-assigned role and department
+   * POST /api/user/invitations
+   */
+  static createInvitation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { email, role, department, expiresInDays } = req.body;
+
+      const invitation = await InvitationService.createInvitation(
+        { email, role, department, expiresInDays },
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        invitation,
+        'Invitation sent successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * List invitations
+   * GET /api/user/invitations
+   */
+  static getInvitations = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query['page'] as string) || 1;
+    const limit = parseInt(req.query['limit'] as string) || 10;
+    const status = req.query['status'] as InvitationFilters['status'];
+    const search = req.query['search'] as string | undefined;
+
+    const result = await InvitationService.getInvitations(page, limit, {
+      ...(status ? { status } : {}),
+      ...(search ? { search } : {}),
+    });
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      result,
+      'Invitations retrieved successfully',
+    );
+    res.status(response.statusCode).json(response);
+  });
+
+  /**
+   * Resend an invitation with a fresh link
+   * POST /api/user/invitations/:id/resend
+   */
+  static resendInvitation = asyncHandler(
+    async (req: Request, res: Response) => {
+      const invitation = await InvitationService.resendInvitation(
+        req.params['id'] as string,
+        req.body?.expiresInDays,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        invitation,
+        'Invitation resent successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Revoke a pending invitation
+   * DELETE /api/user/invitations/:id
+   */
+  static revokeInvitation = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const invitation = await InvitationService.revokeInvitation(
+        req.params['id'] as string,
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        invitation,
+        'Invitation revoked successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Accept an invitation and set a password
+   * POST /api/user/invitations/accept
+   */
+  static acceptInvitation = asyncHandler(
+    async (req: Request, res: Response) => {
+      const { token, username, password } = req.body;
+
+      const user = await InvitationService.acceptInvitation({
+        token,
+        username,
+        password,
+      });
+      const response = new ApiResponse(
+        StatusCodes.CREATED,
+        user,
+        'Invitation accepted, you can now log in',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+}
+
+export default InvitationController;
@@ -0,0 +1,283 @@
+// apiKey.service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import { ApiKey, IApiKey } from '../../../models/apiKey.model';
+import { IUser, User } from '../../../models/user.model';
+import { Role } from '../../../models/role.model';
+import { Department } from '../../../models/department.model';
+import { ActionType } from '../../../models/permissionConfig.model';
+import { ApiError } from '../../../utils/ApiError';
+import { hashToken } from '../../../utils/crypto.util';
+
+export interface CreateServiceAccountData {
+  username: string;
+  email?: string;
+  role: string;
+  department: string;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ActionType[];
+  rateLimitPerMinute?: number;
+  expiresInDays?: number;
+}
+
+// Prefix of every issued key, so leaked keys are easy to recognise
+const KEY_PREFIX = 'fpk_';
+
+class ApiKeyService {
+  private static async getServiceAccount(
+    serviceAccountId: string,
+    action: string,
+  ): Promise<IUser> {
+    const account = await User.findOne({
+      _id: serviceAccountId,
+      isServiceAccount: true,
+      deletedAt: null,
+    });
+    if (!account) {
+      throw new ApiError(
+        action,
+        StatusCodes.NOT_FOUND,
+        'SERVICE_ACCOUNT_NOT_FOUND',
+        'Service account not found',
+      );
+    }
+    return account;
+  }
+
+  /**
+   * Create a service account (admin).
+   * Permission rules apply through its role and department as for any user;
+   * it has a random password and cannot sign in interactively.
+   */
+  static async createServiceAccount(
+    data: CreateServiceAccountData,
+    createdBy: string,
+  ) {
+    const email = (
+      data.email || `${data.username}@service-account.local`
+    ).toLowerCase();
+
+    if (await User.exists({ email })) {
+      throw new ApiError(
+        'CREATE_SERVICE_ACCOUNT',
+        StatusCodes.CONFLICT,
+        'USER_ALREADY_EXISTS',
+        'A user with this email already exists',
+      );
+    }
+
+    const [role, department] = await Promise.all([
+      Role.exists({ _id: data.role }),
+      Department.exists({ _id: data.department }),
+    ]);
+    if (!role) {
+      throw new ApiError(
+        'CREATE_SERVICE_ACCOUNT',
+        StatusCodes.NOT_FOUND,
+        'ROLE_NOT_FOUND',
+        'Role not found',
+      );
+    }
+    if (!department) {
+      throw new ApiError(
+        'CREATE_SERVICE_ACCOUNT',
+        StatusCodes.NOT_FOUND,
+        'DEPARTMENT_NOT_FOUND',
+        'Department not found',
+      );
+    }
+
+    const account = new User({
+      username: data.username,
+      email,
+      password: crypto.randomBytes(32).toString('hex'),
+      role: new Types.ObjectId(data.role),
+      department: new Types.ObjectId(data.department),
+      isApproved: true,
+      isServiceAccount: true,
+      createdBy: new Types.ObjectId(createdBy),
+    });
+    await account.save();
+    await account.populate('role department', 'name');
+
+    const result = account.toObject();
+    delete (result as Partial<typeof result>).password;
+    delete (result as Partial<typeof result>).passwordHistory;
+    return result;
+  }
+
+  /**
+   * List service accounts with their number of active keys (admin)
+   */
+  static async getServiceAccounts() {
+    const accounts = await User.find({
+      isServiceAccount: true,
+      deletedAt: null,
+    })
+      .select('-password')
+      .populate('role', 'name')
+      .populate('department', 'name')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const keyCounts = await ApiKey.aggregate<{
+      _id: Types.ObjectId;
+      n: number;
+    }>([
+      {
+        $match: {
+          serviceAccount: { $in: accounts.map((account) => account._id) },
+          revokedAt: null,
+        },
+      },
+      { $group: { _id: '$serviceAccount', n: { $sum: 1 } } },
+    ]);
+    const counts = new Map(
+      keyCounts.map((entry) => [entry._id.toString(), entry.n]),
+    );
+
+    return accounts.map((account) => ({
+      ...account,
+      activeKeys: counts.get(account._id.toString()) || 0,
+    }));
+  }
+
+  /**
+   * Issue an API key for a service account (admin).
+   * The plain key is only returned here; it cannot be retrieved later.
+   */
+  static async createApiKey(
+    serviceAccountId: string,
+    data: CreateApiKeyData,
+    createdBy: string,
+  ): Promise<{ apiKey: IApiKey; key: string }> {
+    const account = await this.getServiceAccount(
+      serviceAccountId,
+      'CREATE_API_KEY',
+    );
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiKey = await ApiKey.create({
+      name: data.name,
+      serviceAccount: account._id,
+      keyPrefix: key.slice(0, KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      scopes: [...new Set(data.scopes)],
+      ...(data.rateLimitPerMinute
+        ? { rateLimitPerMinute: data.rateLimitPerMinute }
+        : {}),
+      ...(data.expiresInDays
+        ? {
+            expiresAt: new Date(
+              Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000,
+            ),
+          }
+        : {}),
+      createdBy: new Types.ObjectId(createdBy),
+    });
+
+    const result = apiKey.toObject();
+    delete (result as Partial<typeof result>).keyHash;
+    return { apiKey: result as IApiKey, key };
+  }
+
+  /**
+   * List the keys of a service account (admin)
+   */
+  static async getApiKeys(serviceAccountId: string): Promise<IApiKey[]> {
+    await this.getServiceAccount(serviceAccountId, 'GET_API_KEYS');
+    return ApiKey.find({ serviceAccount: serviceAccountId })
+      .populate('createdBy', 'username email')
+      .populate('revokedBy', 'username email')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a key; requests using it are rejected immediately (admin)
+   */
+  static async revokeApiKey(
+    serviceAccountId: string,
+    keyId: string,
+    revokedBy: string,
+  ): Promise<IApiKey> {
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: keyId, serviceAccount: serviceAccountId, revokedAt: null },
+      {
+        $set: {
+          revokedAt: new Date(),
+          revokedBy: new Types.ObjectId(revokedBy),
+        },
+      },
+      { new: true },
+    );
+
+    if (!apiKey) {
+      throw new ApiError(
+        'REVOKE_API_KEY',
+        StatusCodes.NOT_FOUND,
+        'API_KEY_NOT_FOUND',
+        'API key not found or already revoked',
+      );
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Resolve an X-API-Key header to its key and active service account,
+   * and record the usage
+   */
+  static async authenticate(
+    key: string,
+    ipAddress?: string,
+  ): Promise<{ apiKey: IApiKey; user: IUser }> {
+    const invalidKey = new ApiError(
+      'API_KEY_AUTH',
+      StatusCodes.UNAUTHORIZED,
+      'INVALID_API_KEY',
+      'Invalid, expired or revoked API key',
+    );
+
+    if (!key.startsWith(KEY_PREFIX)) throw invalidKey;
+
+    const apiKey = await ApiKey.findOne({
+      keyHash: hashToken(key),
+      revokedAt: null,
+    });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      throw invalidKey;
+    }
+
+    const user = await User.findOne({
+      _id: apiKey.serviceAccount,
+      isServiceAccount: true,
+    }).select('-password');
+    if (!user || !user.isAccountActive()) {
+      throw new ApiError(
+        'API_KEY_AUTH',
+        StatusCodes.FORBIDDEN,
+        'SERVICE_ACCOUNT_INACTIVE',
+        'Service account is suspended, deactivated or deleted',
+      );
+    }
+
+    await ApiKey.updateOne(
+      { _id: apiKey._id },
+      {
+        $set: {
+          lastUsedAt: new Date(),
+          ...(ipAddress ? { lastUsedIp: ipAddress } : {}),
+        },
+        $inc: { usageCount: 1 },
+      },
+    );
+
+    return { apiKey, user };
+  }
+}
+
+export default ApiKeyService;
@@ -0,0 +1,231 @@
+// approvalDelegation.service.ts
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import {
+  ApprovalDelegation,
+  DelegationScope,
+  IApprovalDelegation,
+} from '../../../models/approvalDelegation.model';
+import { User, activeUserFilter } from '../../../models/user.model';
+import { ApiError } from '../../../utils/ApiError';
+import { notifyApprovalDelegated } from '../../notification/helpers/notification.helper';
+
+export interface CreateDelegationData {
+  delegateId: string;
+  startDate: Date;
+  endDate: Date;
+  scopes?: DelegationScope[];
+  reason?: string;
+}
+
+export interface ActiveDelegator {
+  userId: string;
+  roleId: string | null;
+}
+
+class ApprovalDelegationService {
+  /**
+   * Query for delegations in effect at a moment
+   */
+  private static activeFilter(at: Date = new Date()) {
+    return {
+      revokedAt: null,
+      startDate: { $lte: at },
+      endDate: { $gt: at },
+    };
+  }
+
+  private static scopesOverlap(
+    a: DelegationScope[],
+    b: DelegationScope[],
+  ): boolean {
+    return !a.length || !b.length || a.some((scope) => b.includes(scope));
+  }
+
+  /**
+   * Register a delegation of the delegator's approvals.
+   * A delegator can have one delegate at a time for each scope.
+   */
+  static async createDelegation(
+    delegatorId: string,
+    data: CreateDelegationData,
+  ): Promise<IApprovalDelegation> {
+    if (data.delegateId === delegatorId) {
+      throw new ApiError(
+        'CREATE_DELEGATION',
+        StatusCodes.BAD_REQUEST,
+        'CANNOT_DELEGATE_TO_SELF',
+        'You cannot delegate approvals to yourself',
+      );
+    }
+
+    const [delegator, delegate] = await Promise.all([
+      User.findById(delegatorId).select('username email').lean(),
+      User.findOne({
+        _id: data.delegateId,
+        isApproved: true,
+        isServiceAccount: { $ne: true },
+        ...activeUserFilter,
+      })
+        .select('_id')
+        .lean(),
+    ]);
+    if (!delegate) {
+      throw new ApiError(
+        'CREATE_DELEGATION',
+        StatusCodes.NOT_FOUND,
+        'DELEGATE_NOT_FOUND',
+        'Delegate not found or not active',
+      );
+    }
+
+    const scopes = [...new Set(data.scopes || [])];
+    const overlapping = await ApprovalDelegation.find({
+      delegator: delegatorId,
+      revokedAt: null,
+      startDate: { $lt: data.endDate },
+      endDate: { $gt: data.startDate },
+    })
+      .select('scopes')
+      .lean();
+    if (
+      overlapping.some((existing) =>
+        this.scopesOverlap(existing.scopes, scopes),
+      )
+    ) {
+      throw new ApiError(
+        'CREATE_DELEGATION',
+        StatusCodes.CONFLICT,
+        'DELEGATION_OVERLAP',
+        'You already have a delegation for these approvals in this period',
+      );
+    }
+
+    const delegation = await ApprovalDelegation.create({
+      delegator: new Types.ObjectId(delegatorId),
+      delegate: new Types.ObjectId(data.delegateId),
+      startDate: data.startDate,
+      endDate: data.endDate,
+      scopes,
+      ...(data.reason ? { reason: data.reason } : {}),
+    });
+
+    await notifyApprovalDelegated(
+      data.delegateId,
+      delegatorId,
+      delegator?.username || delegator?.email || 'A user',
+      String(delegation._id),
+      data.startDate,
+      data.endDate,
+    );
+
+    await delegation.populate('delegate', 'username email');
+    return delegation;
+  }
+
+  /**
+   * Delegations a user has given and received, newest first
+   */
+  static async getDelegations(userId: string) {
+    const [given, received] = await Promise.all([
+      ApprovalDelegation.find({ delegator: userId })
+        .populate('delegate', 'username email')
+        .populate('revokedBy', 'username email')
+        .sort({ startDate: -1 })
+        .lean(),
+      ApprovalDelegation.find({ delegate: userId })
+        .populate('delegator', 'username email')
+        .populate('revokedBy', 'username email')
+        .sort({ startDate: -1 })
+        .lean(),
+    ]);
+    return { given, received };
+  }
+
+  /**
+   * Revoke a delegation (its delegator or an admin)
+   */
+  static async revokeDelegation(
+    delegationId: string,
+    requesterId: string,
+    isAdmin: boolean,
+  ): Promise<IApprovalDelegation> {
+    const delegation = await ApprovalDelegation.findById(delegationId);
+    if (!delegation) {
+      throw new ApiError(
+        'REVOKE_DELEGATION',
+        StatusCodes.NOT_FOUND,
+        'DELEGATION_NOT_FOUND',
+        'Delegation not found',
+      );
+    }
+    if (!isAdmin && delegation.delegator.toString() !== requesterId) {
+      throw new ApiError(
+        'REVOKE_DELEGATION',
+        StatusCodes.FORBIDDEN,
+        'FORBIDDEN',
+        'Only the delegator or an admin can revoke this delegation',
+      );
+    }
+    if (delegation.revokedAt) {
+      throw new ApiError(
+        'REVOKE_DELEGATION',
+        StatusCodes.BAD_REQUEST,
+        'DELEGATION_ALREADY_REVOKED',
+        'Delegation has already been revoked',
+      );
+    }
+
+    delegation.revokedAt = new Date();
+    delegation.revokedBy = new Types.ObjectId(requesterId);
+    await delegation.save();
+    return delegation;
+  }
+
+  /**
+   * Active users whose approvals of a scope are currently delegated to
+   * the user
+   */
+  static async getActiveDelegators(
+    delegateId: string,
+    scope: DelegationScope,
+  ): Promise<ActiveDelegator[]> {
+    const delegations = await ApprovalDelegation.find({
+      delegate: delegateId,
+      ...this.activeFilter(),
+      $or: [{ scopes: { $size: 0 } }, { scopes: scope }],
+    })
+      .select('delegator')
+      .lean();
+    if (!delegations.length) return [];
+
+    const delegators = await User.find({
+      _id: { $in: delegations.map((delegation) => delegation.delegator) },
+      ...activeUserFilter,
+    })
+      .select('role')
+      .lean();
+    return delegators.map((delegator) => ({
+      userId: delegator._id.toString(),
+      roleId: delegator.role ? String(delegator.role) : null,
+    }));
+  }
+
+  /**
+   * The first active delegator of the user who may decide an approval,
+   * if the user cannot decide it themselves
+   */
+  static async findDelegatorFor(
+    delegateId: string,
+    scope: DelegationScope,
+    canDecide: (userId: string) => Promise<boolean>,
+  ): Promise<string | undefined> {
+    const delegators = await this.getActiveDelegators(delegateId, scope);
+    for (const delegator of delegators) {
+      if (await canDecide(delegator.userId)) return delegator.userId;
+    }
+    return undefined;
+  }
+}
+
+export default ApprovalDelegationService;
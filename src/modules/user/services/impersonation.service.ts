@@ -0,0 +1,275 @@
+// impersonation.service.ts
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import {
+  Impersonation,
+  IImpersonation,
+} from '../../../models/impersonation.model';
+import {
+  ImpersonationAuditLog,
+  IImpersonationAuditLog,
+} from '../../../models/impersonationAuditLog.model';
+import { User } from '../../../models/user.model';
+import { Role } from '../../../models/role.model';
+import { ApiError } from '../../../utils/ApiError';
+import { DeviceInfo } from './session.service';
+
+export interface StartImpersonationData {
+  reason: string;
+  readOnly?: boolean;
+  durationMinutes?: number;
+}
+
+export interface ImpersonationFilters {
+  adminId?: string;
+  targetUserId?: string;
+  active?: boolean;
+}
+
+export interface ImpersonationRequestData {
+  impersonation: IImpersonation;
+  method: string;
+  path: string;
+  statusCode: number;
+  blocked: boolean;
+  ipAddress?: string | undefined;
+}
+
+class ImpersonationService {
+  private static getMaxDurationMinutes(): number {
+    return parseInt(process.env['IMPERSONATION_MAX_MINUTES'] || '60', 10);
+  }
+
+  /**
+   * Start impersonating a user (admin).
+   * Returns an access token that acts as the target user until it expires
+   * or the impersonation is ended.
+   */
+  static async startImpersonation(
+    adminId: string,
+    targetUserId: string,
+    data: StartImpersonationData,
+    device: DeviceInfo = {},
+  ): Promise<{ accessToken: string; impersonation: IImpersonation }> {
+    if (adminId === targetUserId) {
+      throw new ApiError(
+        'START_IMPERSONATION',
+        StatusCodes.BAD_REQUEST,
+        'CANNOT_IMPERSONATE_SELF',
+        'You cannot impersonate yourself',
+      );
+    }
+
+    const target = await User.findById(targetUserId);
+    if (!target) {
+      throw new ApiError(
+        'START_IMPERSONATION',
+        StatusCodes.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+    if (!target.isAccountActive() || !target.isApproved) {
+      throw new ApiError(
+        'START_IMPERSONATION',
+        StatusCodes.BAD_REQUEST,
+        'USER_NOT_ACTIVE',
+        'Only active, approved users can be impersonated',
+      );
+    }
+
+    // Impersonating another admin would not reveal anything new and would
+    // let one admin act under another admin's identity
+    const targetRole = await Role.findById(target.role).select('name').lean();
+    if (targetRole?.name?.toLowerCase() === 'admin') {
+      throw new ApiError(
+        'START_IMPERSONATION',
+        StatusCodes.FORBIDDEN,
+        'CANNOT_IMPERSONATE_ADMIN',
+        'Admin accounts cannot be impersonated',
+      );
+    }
+
+    const secret = process.env['ACCESS_TOKEN_SECRET'];
+    if (!secret) throw new Error('ACCESS_TOKEN_SECRET not defined');
+
+    const durationMinutes = Math.min(
+      data.durationMinutes || 15,
+      this.getMaxDurationMinutes(),
+    );
+    const impersonation = await Impersonation.create({
+      admin: new Types.ObjectId(adminId),
+      targetUser: target._id,
+      reason: data.reason,
+      readOnly: data.readOnly ?? true,
+      expiresAt: new Date(Date.now() + durationMinutes * 60 * 1000),
+      ipAddress: device.ipAddress,
+      userAgent: device.userAgent,
+    });
+
+    // Same claims as a regular access token, plus the impersonation id
+    const accessToken = jwt.sign(
+      {
+        _id: target._id,
+        email: target.email,
+        username: target.username,
+        role: target.role,
+        imp: (impersonation._id as Types.ObjectId).toString(),
+      },
+      secret,
+      { expiresIn: durationMinutes * 60 },
+    );
+
+    return { accessToken, impersonation };
+  }
+
+  /**
+   * Impersonation that is neither ended nor expired (used by verifyJWT)
+   */
+  static async getActiveImpersonation(
+    impersonationId: string,
+  ): Promise<IImpersonation | null> {
+    if (!Types.ObjectId.isValid(impersonationId)) return null;
+    return Impersonation.findOne({
+      _id: impersonationId,
+      endedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  /**
+   * End an impersonation; its token stops working immediately (admin)
+   */
+  static async endImpersonation(
+    impersonationId: string,
+    endedBy: string,
+  ): Promise<IImpersonation> {
+    const impersonation = await Impersonation.findOneAndUpdate(
+      { _id: impersonationId, endedAt: null },
+      {
+        $set: { endedAt: new Date(), endedBy: new Types.ObjectId(endedBy) },
+      },
+      { new: true },
+    );
+
+    if (!impersonation) {
+      throw new ApiError(
+        'END_IMPERSONATION',
+        StatusCodes.NOT_FOUND,
+        'IMPERSONATION_NOT_FOUND',
+        'Impersonation not found or already ended',
+      );
+    }
+
+    return impersonation;
+  }
+
+  /**
+   * Record a request made with an impersonation token
+   */
+  static async recordRequest(data: ImpersonationRequestData): Promise<void> {
+    await Promise.all([
+      ImpersonationAuditLog.create({
+        impersonation: data.impersonation._id,
+        admin: data.impersonation.admin,
+        targetUser: data.impersonation.targetUser,
+        method: data.method,
+        path: data.path,
+        statusCode: data.statusCode,
+        blocked: data.blocked,
+        ipAddress: data.ipAddress,
+      }),
+      Impersonation.updateOne(
+        { _id: data.impersonation._id },
+        { $inc: { requestCount: 1 } },
+      ),
+    ]);
+  }
+
+  /**
+   * List impersonations with pagination (admin)
+   */
+  static async getImpersonations(
+    page: number = 1,
+    limit: number = 10,
+    filters: ImpersonationFilters = {},
+  ) {
+    const query: Record<string, unknown> = {};
+    if (filters.adminId) query['admin'] = new Types.ObjectId(filters.adminId);
+    if (filters.targetUserId) {
+      query['targetUser'] = new Types.ObjectId(filters.targetUserId);
+    }
+    if (filters.active === true) {
+      query['endedAt'] = null;
+      query['expiresAt'] = { $gt: new Date() };
+    } else if (filters.active === false) {
+      query['$or'] = [
+        { endedAt: { $ne: null } },
+        { expiresAt: { $lte: new Date() } },
+      ];
+    }
+
+    const [impersonations, total] = await Promise.all([
+      Impersonation.find(query)
+        .populate('admin', 'username email')
+        .populate('targetUser', 'username email')
+        .populate('endedBy', 'username email')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Impersonation.countDocuments(query),
+    ]);
+
+    return {
+      impersonations,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+    };
+  }
+
+  /**
+   * Requests made during an impersonation, oldest first (admin)
+   */
+  static async getAuditLog(
+    impersonationId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    entries: IImpersonationAuditLog[];
+    total: number;
+    pages: number;
+    currentPage: number;
+    limit: number;
+  }> {
+    if (!(await Impersonation.exists({ _id: impersonationId }))) {
+      throw new ApiError(
+        'GET_IMPERSONATION_AUDIT_LOG',
+        StatusCodes.NOT_FOUND,
+        'IMPERSONATION_NOT_FOUND',
+        'Impersonation not found',
+      );
+    }
+
+    const query = { impersonation: new Types.ObjectId(impersonationId) };
+    const [entries, total] = await Promise.all([
+      ImpersonationAuditLog.find(query)
+        .sort({ createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ImpersonationAuditLog.countDocuments(query),
+    ]);
+
+    return {
+      entries,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+    };
+  }
+}
+
+export default ImpersonationService;
@@ -0,0 +1,411 @@
+// invitation.service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import {
+  Invitation,
+  IInvitation,
+  InvitationStatus,
+} from '../../../models/invitation.model';
+import { User } from '../../../models/user.model';
+import { Role } from '../../../models/role.model';
+import { Department } from '../../../models/department.model';
+import { ApiError } from '../../../utils/ApiError';
+import { hashToken } from '../../../utils/crypto.util';
+import { checkPasswordStrength } from '../../../utils/passwordPolicy.util';
+import mailConfig from '../../../config/mail.config';
+
+export interface CreateInvitationData {
+  email: string;
+  role: string;
+  department: string;
+  expiresInDays?: number;
+}
+
+export interface AcceptInvitationData {
+  token: string;
+  username: string;
+  password: string;
+}
+
+export interface InvitationFilters {
+  status?: InvitationStatus | 'EXPIRED';
+  search?: string;
+}
+
+export interface InvitationListResult {
+  invitations: IInvitation[];
+  total: number;
+  pages: number;
+  currentPage: number;
+  limit: number;
+}
+
+class InvitationService {
+  private static getExpiryDate(expiresInDays?: number): Date {
+    const days =
+      expiresInDays ||
+      parseInt(process.env['INVITATION_EXPIRY_DAYS'] || '7', 10);
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private static notFound(action: string): ApiError {
+    return new ApiError(
+      action,
+      StatusCodes.NOT_FOUND,
+      'INVITATION_NOT_FOUND',
+      'Invitation not found',
+    );
+  }
+
+  private static usernameTaken(): ApiError {
+    return new ApiError(
+      'ACCEPT_INVITATION',
+      StatusCodes.CONFLICT,
+      'USERNAME_TAKEN',
+      'This username is already taken',
+    );
+  }
+
+  /**
+   * Email the invitation link to the invitee
+   */
+  private static async sendInvitationEmail(
+    invitation: IInvitation,
+    token: string,
+  ): Promise<void> {
+    const [role, department] = await Promise.all([
+      Role.findById(invitation.role).select('name').lean(),
+      Department.findById(invitation.department).select('name').lean(),
+    ]);
+
+    const clientUrl =
+      process.env['CLIENT_URL'] ||
+      process.env['BASE_URL'] ||
+      'http://localhost:5000';
+    const acceptUrl = `${clientUrl}/accept-invitation?token=${token}`;
+
+    await mailConfig.sendMail({
+      to: invitation.email,
+      subject: 'You have been invited to Fluid Pack',
+      text:
+        `Hello,\n\n` +
+        `You have been invited to join Fluid Pack as ${role?.name || 'a user'}` +
+        `${department?.name ? ` in the ${department.name} department` : ''}. ` +
+        `Use the link below to set your password and activate your account:\n\n${acceptUrl}\n\n` +
+        `This invitation expires on ${invitation.expiresAt.toISOString()}.`,
+    });
+  }
+
+  /**
+   * Create an invitation and email it (admin)
+   */
+  static async createInvitation(
+    data: CreateInvitationData,
+    invitedBy: string,
+  ): Promise<IInvitation> {
+    const email = data.email.trim().toLowerCase();
+
+    if (await User.exists({ email })) {
+      throw new ApiError(
+        'CREATE_INVITATION',
+        StatusCodes.CONFLICT,
+        'USER_ALREADY_EXISTS',
+        'A user with this email already exists',
+      );
+    }
+
+    const [role, department] = await Promise.all([
+      Role.findById(data.role),
+      Department.findById(data.department),
+    ]);
+    if (!role) {
+      throw new ApiError(
+        'CREATE_INVITATION',
+        StatusCodes.NOT_FOUND,
+        'ROLE_NOT_FOUND',
+        'Role not found',
+      );
+    }
+    if (!department) {
+      throw new ApiError(
+        'CREATE_INVITATION',
+        StatusCodes.NOT_FOUND,
+        'DEPARTMENT_NOT_FOUND',
+        'Department not found',
+      );
+    }
+
+    // A new invitation supersedes any pending one for the same email
+    await Invitation.updateMany(
+      { email, status: InvitationStatus.PENDING },
+      {
+        $set: {
+          status: InvitationStatus.REVOKED,
+          revokedAt: new Date(),
+          revokedBy: new Types.ObjectId(invitedBy),
+        },
+      },
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await Invitation.create({
+      email,
+      role: role._id,
+      department: department._id,
+      tokenHash: hashToken(token),
+      expiresAt: this.getExpiryDate(data.expiresInDays),
+      invitedBy: new Types.ObjectId(invitedBy),
+      lastSentAt: new Date(),
+      sendCount: 1,
+    });
+
+    try {
+      await this.sendInvitationEmail(invitation, token);
+    } catch (error) {
+      console.error('Error sending invitation email:', error);
+      await Invitation.findByIdAndDelete(invitation._id);
+      throw new ApiError(
+        'CREATE_INVITATION',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'EMAIL_SEND_FAILED',
+        'Failed to send invitation email',
+      );
+    }
+
+    return invitation;
+  }
+
+  /**
+   * List invitations with pagination (admin)
+   */
+  static async getInvitations(
+    page: number = 1,
+    limit: number = 10,
+    filters: InvitationFilters = {},
+  ): Promise<InvitationListResult> {
+    const query: Record<string, unknown> = {};
+
+    if (filters.status === 'EXPIRED') {
+      query['status'] = InvitationStatus.PENDING;
+      query['expiresAt'] = { $lte: new Date() };
+    } else if (filters.status === InvitationStatus.PENDING) {
+      query['status'] = InvitationStatus.PENDING;
+      query['expiresAt'] = { $gt: new Date() };
+    } else if (filters.status) {
+      query['status'] = filters.status;
+    }
+
+    if (filters.search && filters.search.trim().length > 0) {
+      query['email'] = { $regex: filters.search.trim(), $options: 'i' };
+    }
+
+    const [invitations, total] = await Promise.all([
+      Invitation.find(query)
+        .populate('role', 'name')
+        .populate('department', 'name')
+        .populate('invitedBy', 'username email')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Invitation.countDocuments(query),
+    ]);
+
+    return {
+      invitations,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+    };
+  }
+
+  /**
+   * Issue a fresh token and expiry, and email the invitation again (admin)
+   */
+  static async resendInvitation(
+    id: string,
+    expiresInDays?: number,
+  ): Promise<IInvitation> {
+    const invitation = await Invitation.findById(id);
+    if (!invitation) throw this.notFound('RESEND_INVITATION');
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new ApiError(
+        'RESEND_INVITATION',
+        StatusCodes.CONFLICT,
+        'INVITATION_NOT_PENDING',
+        `Invitation is already ${invitation.status.toLowerCase()}`,
+      );
+    }
+
+    // The previous link stops working once a new token is issued
+    const token = crypto.randomBytes(32).toString('hex');
+    invitation.tokenHash = hashToken(token);
+    invitation.expiresAt = this.getExpiryDate(expiresInDays);
+    invitation.lastSentAt = new Date();
+    invitation.sendCount += 1;
+    await invitation.save();
+
+    try {
+      await this.sendInvitationEmail(invitation, token);
+    } catch (error) {
+      console.error('Error resending invitation email:', error);
+      throw new ApiError(
+        'RESEND_INVITATION',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'EMAIL_SEND_FAILED',
+        'Failed to send invitation email',
+      );
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Revoke a pending invitation (admin)
+   */
+  static async revokeInvitation(
+    id: string,
+    revokedBy: string,
+  ): Promise<IInvitation> {
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: id, status: InvitationStatus.PENDING },
+      {
+        $set: {
+          status: InvitationStatus.REVOKED,
+          revokedAt: new Date(),
+          revokedBy: new Types.ObjectId(revokedBy),
+        },
+      },
+      { new: true },
+    );
+
+    if (!invitation) {
+      if (await Invitation.exists({ _id: id })) {
+        throw new ApiError(
+          'REVOKE_INVITATION',
+          StatusCodes.CONFLICT,
+          'INVITATION_NOT_PENDING',
+          'Only pending invitations can be revoked',
+        );
+      }
+      throw this.notFound('REVOKE_INVITATION');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Accept an invitation: creates the account already approved with the
+   * invited role and department. The password must meet the password
+   * policy and the username must be free.
+   */
+  static async acceptInvitation(data: AcceptInvitationData) {
+    // Claim the invitation atomically so a token can only be used once
+    const invitation = await Invitation.findOneAndUpdate(
+      {
+        tokenHash: hashToken(data.token),
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      },
+      {
+        $set: { status: InvitationStatus.ACCEPTED, acceptedAt: new Date() },
+      },
+      { new: true },
+    );
+
+    if (!invitation) {
+      throw new ApiError(
+        'ACCEPT_INVITATION',
+        StatusCodes.BAD_REQUEST,
+        'INVALID_INVITATION',
+        'Invitation is invalid, revoked or has expired',
+      );
+    }
+
+    try {
+      const violations = checkPasswordStrength(data.password, {
+        username: data.username,
+        email: invitation.email,
+      });
+      if (violations.length > 0) {
+        throw new ApiError(
+          'ACCEPT_INVITATION',
+          StatusCodes.BAD_REQUEST,
+          'WEAK_PASSWORD',
+          'Password does not meet the password policy',
+          violations.map((message) => ({ field: 'password', message })),
+        );
+      }
+
+      if (await User.exists({ email: invitation.email })) {
+        throw new ApiError(
+          'ACCEPT_INVITATION',
+          StatusCodes.CONFLICT,
+          'USER_ALREADY_EXISTS',
+          'A user with this email already exists',
+        );
+      }
+      if (await User.exists({ username: data.username.toLowerCase() })) {
+        throw this.usernameTaken();
+      }
+
+      const user = new User({
+        username: data.username,
+        email: invitation.email,
+        password: data.password,
+        role: invitation.role,
+        department: invitation.department,
+        isApproved: true,
+        createdBy: invitation.invitedBy,
+      });
+      await user.save();
+
+      invitation.acceptedUser = user._id as Types.ObjectId;
+      await invitation.save();
+
+      return {
+        _id: user._id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        department: user.department,
+        isApproved: user.isApproved,
+      };
+    } catch (error) {
+      // Release the invitation so it can be retried
+      await Invitation.updateOne(
+        { _id: invitation._id },
+        {
+          $set: { status: InvitationStatus.PENDING },
+          $unset: { acceptedAt: 1 },
+        },
+      );
+      if (error instanceof ApiError) throw error;
+      // Email or username taken by a concurrent sign-up
+      const duplicate = error as {
+        code?: number;
+        keyPattern?: Record<string, unknown>;
+      };
+      if (duplicate.code === 11000) {
+        throw duplicate.keyPattern?.['email']
+          ? new ApiError(
+              'ACCEPT_INVITATION',
+              StatusCodes.CONFLICT,
+              'USER_ALREADY_EXISTS',
+              'A user with this email already exists',
+            )
+          : this.usernameTaken();
+      }
+      throw new ApiError(
+        'ACCEPT_INVITATION',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'ACCEPT_INVITATION_ERROR',
+        'Failed to accept invitation',
+      );
+    }
+  }
+}
+
+export default InvitationService;
@@ -0,0 +1,288 @@
+// session.service.ts
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import { Session, ISession } from '../../../models/session.model';
+import { IUser, User } from '../../../models/user.model';
+import { ApiError } from '../../../utils/ApiError';
+import { hashToken } from '../../../utils/crypto.util';
+
+export interface DeviceInfo {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export interface SessionSummary {
+  _id: string;
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt?: Date | undefined;
+  current: boolean;
+}
+
+class SessionService {
+  /**
+   * Expiry of a signed refresh token (falls back to 7 days)
+   */
+  private static getTokenExpiry(refreshToken: string): Date {
+    const decoded = jwt.decode(refreshToken) as JwtPayload | null;
+    if (decoded?.exp) {
+      return new Date(decoded.exp * 1000);
+    }
+    return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  }
+
+  private static invalidToken(message = 'Invalid refresh token'): ApiError {
+    return new ApiError(
+      'TOKEN',
+      StatusCodes.UNAUTHORIZED,
+      'INVALID_TOKEN',
+      message,
+    );
+  }
+
+  /**
+   * Start a new session (refresh-token family) for a device
+   */
+  static async createSession(
+    user: IUser,
+    device: DeviceInfo = {},
+  ): Promise<SessionTokens> {
+    const sessionId = new Types.ObjectId();
+    const refreshToken = user.generateRefreshToken(sessionId.toString());
+
+    await Session.create({
+      _id: sessionId,
+      userId: user._id,
+      refreshTokenHash: hashToken(refreshToken),
+      previousTokenHashes: [],
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: this.getTokenExpiry(refreshToken),
+    });
+
+    return {
+      accessToken: user.generateAccessToken(sessionId.toString()),
+      refreshToken,
+      sessionId: sessionId.toString(),
+    };
+  }
+
+  /**
+   * Rotate a refresh token. Presenting a token that was already rotated
+   * out is treated as theft and revokes the whole session family.
+   */
+  static async rotateRefreshToken(
+    refreshToken: string,
+    device: DeviceInfo = {},
+  ): Promise<SessionTokens> {
+    const secret = process.env['REFRESH_TOKEN_SECRET'];
+    if (!secret) throw new Error('REFRESH_TOKEN_SECRET is not set');
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(refreshToken, secret) as JwtPayload;
+    } catch {
+      throw this.invalidToken();
+    }
+
+    const sessionId = payload['sid'];
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      throw this.invalidToken();
+    }
+
+    const user = await User.findById(payload['_id']);
+    if (!user) {
+      await this.revokeSession(sessionId, 'USER_NOT_FOUND');
+      throw this.invalidToken('User not found');
+    }
+    if (!user.isAccountActive()) {
+      await this.revokeSession(sessionId, 'USER_INACTIVE');
+      throw this.invalidToken('Account is suspended or deactivated');
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    const newRefreshToken = user.generateRefreshToken(sessionId);
+
+    // Atomic compare-and-swap so concurrent refreshes cannot both succeed
+    const rotated = await Session.findOneAndUpdate(
+      {
+        _id: sessionId,
+        refreshTokenHash: tokenHash,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      {
+        $set: {
+          refreshTokenHash: hashToken(newRefreshToken),
+          lastUsedAt: new Date(),
+          expiresAt: this.getTokenExpiry(newRefreshToken),
+          ...(device.userAgent ? { userAgent: device.userAgent } : {}),
+          ...(device.ipAddress ? { ipAddress: device.ipAddress } : {}),
+        },
+        $push: { previousTokenHashes: tokenHash },
+      },
+      { new: true },
+    );
+
+    if (!rotated) {
+      const reused = await Session.exists({
+        _id: sessionId,
+        previousTokenHashes: tokenHash,
+      });
+      if (reused) {
+        await this.revokeSession(sessionId, 'REFRESH_TOKEN_REUSE');
+        throw new ApiError(
+          'TOKEN',
+          StatusCodes.UNAUTHORIZED,
+          'TOKEN_REUSE_DETECTED',
+          'Refresh token was already used; the session has been revoked',
+        );
+      }
+      throw this.invalidToken('Session expired or revoked');
+    }
+
+    return {
+      accessToken: user.generateAccessToken(sessionId),
+      refreshToken: newRefreshToken,
+      sessionId,
+    };
+  }
+
+  /**
+   * Check whether a session is still usable (used by verifyJWT)
+   */
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+    const session = await Session.exists({
+      _id: sessionId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    return !!session;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(
+    sessionId: string,
+    reason: string,
+  ): Promise<ISession | null> {
+    return Session.findOneAndUpdate(
+      { _id: sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+      { new: true },
+    );
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout).
+   * Invalid or unknown tokens are ignored.
+   */
+  static async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const decoded = jwt.decode(refreshToken) as JwtPayload | null;
+    const sessionId = decoded?.['sid'];
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) return;
+
+    await Session.updateOne(
+      { _id: sessionId, refreshTokenHash: hashToken(refreshToken) },
+      { $set: { revokedAt: new Date(), revokedReason: 'LOGOUT' } },
+    );
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   */
+  static async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+      revokedAt: null,
+    };
+    if (exceptSessionId) {
+      query['_id'] = { $ne: new Types.ObjectId(exceptSessionId) };
+    }
+
+    const result = await Session.updateMany(query, {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.modifiedCount;
+  }
+
+  /**
+   * List active sessions of a user
+   */
+  static async getActiveSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionSummary[]> {
+    const sessions = await Session.find({
+      userId: new Types.ObjectId(userId),
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map((session) => ({
+      _id: session._id.toString(),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke a session on behalf of a requester.
+   * Users may only revoke their own sessions; admins may revoke any.
+   */
+  static async revokeSessionForRequester(
+    sessionId: string,
+    requesterId: string,
+    isAdmin: boolean,
+  ): Promise<void> {
+    const session = await Session.findById(sessionId);
+    if (!session || session.revokedAt) {
+      throw new ApiError(
+        'REVOKE_SESSION',
+        StatusCodes.NOT_FOUND,
+        'SESSION_NOT_FOUND',
+        'Session not found',
+      );
+    }
+
+    if (!isAdmin && session.userId.toString() !== requesterId) {
+      throw new ApiError(
+        'REVOKE_SESSION',
+        StatusCodes.FORBIDDEN,
+        'FORBIDDEN',
+        'You can only sign out your own sessions',
+      );
+    }
+
+    await this.revokeSession(
+      sessionId,
+      isAdmin && session.userId.toString() !== requesterId
+        ? 'REVOKED_BY_ADMIN'
+        : 'REVOKED_BY_USER',
+    );
+  }
+}
+
+export default SessionService;
@@ -0,0 +1,301 @@
+// twoFactor.service.ts
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { StatusCodes } from 'http-status-codes';
+import { IUser, User } from '../../../models/user.model';
+import { Role } from '../../../models/role.model';
+import { ApiError } from '../../../utils/ApiError';
+import {
+  decryptString,
+  encryptString,
+  hashToken,
+} from '../../../utils/crypto.util';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../../utils/totp.util';
+
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorChallenge {
+  userId: string;
+  purpose: TwoFactorChallengePurpose;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_EXPIRY = '5m';
+
+class TwoFactorService {
+  /**
+   * Secret for challenge tokens. Derived from ACCESS_TOKEN_SECRET by
+   * default so a challenge can never pass verifyJWT as an access token.
+   */
+  private static getChallengeSecret(): string {
+    const secret =
+      process.env['TWO_FACTOR_CHALLENGE_SECRET'] ||
+      (process.env['ACCESS_TOKEN_SECRET']
+        ? `${process.env['ACCESS_TOKEN_SECRET']}:2fa-challenge`
+        : undefined);
+    if (!secret) {
+      throw new Error('ACCESS_TOKEN_SECRET not defined');
+    }
+    return secret;
+  }
+
+  private static invalidCode(): ApiError {
+    return new ApiError(
+      'TWO_FACTOR',
+      StatusCodes.UNAUTHORIZED,
+      'INVALID_TWO_FACTOR_CODE',
+      'Invalid two-factor authentication code',
+    );
+  }
+
+  private static userNotFound(): ApiError {
+    return new ApiError(
+      'TWO_FACTOR',
+      StatusCodes.NOT_FOUND,
+      'USER_NOT_FOUND',
+      'User not found',
+    );
+  }
+
+  /**
+   * Issue a short-lived challenge token after a correct password
+   */
+  static issueChallenge(
+    user: IUser,
+    purpose: TwoFactorChallengePurpose,
+  ): string {
+    return jwt.sign({ _id: user._id, purpose }, this.getChallengeSecret(), {
+      expiresIn: CHALLENGE_EXPIRY,
+    });
+  }
+
+  /**
+   * Validate a challenge token
+   */
+  static verifyChallenge(
+    challengeToken: string,
+    expectedPurpose?: TwoFactorChallengePurpose,
+  ): TwoFactorChallenge {
+    try {
+      const payload = jwt.verify(
+        challengeToken,
+        this.getChallengeSecret(),
+      ) as JwtPayload;
+      const purpose = payload['purpose'] as TwoFactorChallengePurpose;
+
+      if (
+        !payload['_id'] ||
+        (purpose !== 'verify' && purpose !== 'setup') ||
+        (expectedPurpose && purpose !== expectedPurpose)
+      ) {
+        throw new Error('Invalid challenge');
+      }
+
+      return { userId: payload['_id'], purpose };
+    } catch {
+      throw new ApiError(
+        'TWO_FACTOR',
+        StatusCodes.UNAUTHORIZED,
+        'INVALID_CHALLENGE_TOKEN',
+        'Two-factor challenge is invalid or has expired. Please log in again.',
+      );
+    }
+  }
+
+  /**
+   * Whether the user's role enforces two-factor authentication
+   */
+  static async isRequiredForUser(user: IUser): Promise<boolean> {
+    const role = await Role.findById(user.role)
+      .select('requiresTwoFactor')
+      .lean();
+    return !!role?.requiresTwoFactor;
+  }
+
+  /**
+   * Generate a pending secret; it becomes active once a code is confirmed
+   */
+  static async startEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await User.findById(userId);
+    if (!user) throw this.userNotFound();
+
+    if (user.twoFactorEnabled) {
+      throw new ApiError(
+        'TWO_FACTOR_ENROLL',
+        StatusCodes.CONFLICT,
+        'TWO_FACTOR_ALREADY_ENABLED',
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = encryptString(secret);
+    await user.save({ validateBeforeSave: false });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(
+        secret,
+        user.email,
+        process.env['TWO_FACTOR_ISSUER'] || 'Fluid Pack',
+      ),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the plain recovery codes (shown to the user only once).
+   */
+  static async confirmEnrollment(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
+    if (!user) throw this.userNotFound();
+
+    if (!user.twoFactorPendingSecret) {
+      throw new ApiError(
+        'TWO_FACTOR_ENROLL',
+        StatusCodes.BAD_REQUEST,
+        'TWO_FACTOR_NOT_ENROLLING',
+        'Start two-factor enrollment first',
+      );
+    }
+
+    const secret = decryptString(user.twoFactorPendingSecret);
+    const step = verifyTotp(secret, code);
+    if (step === null) throw this.invalidCode();
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = recoveryCodes.map(hashToken);
+    user.twoFactorLastUsedStep = step;
+    await user.save({ validateBeforeSave: false });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code for an enrolled user, rejecting replayed codes
+   */
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await User.findById(userId).select(
+      '+twoFactorSecret +twoFactorLastUsedStep',
+    );
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    const step = verifyTotp(decryptString(user.twoFactorSecret), code);
+    if (step === null) return false;
+
+    // Only accept steps newer than the last one used
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Consume a single-use recovery code
+   */
+  static async useRecoveryCode(
+    userId: string,
+    recoveryCode: string,
+  ): Promise<boolean> {
+    const codeHash = hashToken(recoveryCode.trim().toLowerCase());
+    const result = await User.updateOne(
+      { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Replace all recovery codes (requires a valid TOTP code)
+   */
+  static async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    if (!(await this.verifyCode(userId, code))) throw this.invalidCode();
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: userId },
+      { $set: { twoFactorRecoveryCodes: recoveryCodes.map(hashToken) } },
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable two-factor authentication for the current user
+   */
+  static async disable(userId: string, code: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) throw this.userNotFound();
+
+    if (await this.isRequiredForUser(user)) {
+      throw new ApiError(
+        'TWO_FACTOR_DISABLE',
+        StatusCodes.FORBIDDEN,
+        'TWO_FACTOR_REQUIRED_BY_ROLE',
+        'Two-factor authentication is required for your role',
+      );
+    }
+
+    if (!(await this.verifyCode(userId, code))) throw this.invalidCode();
+
+    await this.clearTwoFactor(userId);
+  }
+
+  /**
+   * Remove all two-factor data so the user can enroll again (admin)
+   */
+  static async reset(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) throw this.userNotFound();
+
+    await this.clearTwoFactor(userId);
+  }
+
+  private static async clearTwoFactor(userId: string): Promise<void> {
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      },
+    );
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+}
+
+export default TwoFactorService;
@@ -1,11 +1,32 @@
 // user.service.ts
-import { User, IUser } from '../../../models/user.model';
+import {
+  User,
+  IUser,
+  UserStatus,
+  activeUserFilter,
+} from '../../../models/user.model';
+import { Machine } from '../../../models/machine.model';
+import { MachineRevisionOperation } from '../../../models/machineRevision.model';
+import MachineRevisionService from '../../machine/services/machineRevision.service';
+import {
+  MachineApproval,
+  ApprovalStatus,
+} from '../../../models/machineApproval.model';
+import { SO } from '../../../models/so.model';
+import { SOApproval, SOApprovalStatus } from '../../../models/soApproval.model';
+import { QAMachineEntry } from '../../../models/qcMachine.model';
+import { QCApproval, QCApprovalStatus } from '../../../models/qcApproval.model';
 import { Role } from '../../../models/role.model';
 import { ApiError } from '../../../utils/ApiError';
 import { StatusCodes } from 'http-status-codes';
-import jwt from 'jsonwebtoken';
 import { ERROR_MESSAGES } from '../user.error.codes';
 import { Types } from 'mongoose';
+import mailConfig from '../../../config/mail.config';
+import { hashToken } from '../../../utils/crypto.util';
+import { checkPasswordStrength } from '../../../utils/passwordPolicy.util';
+import SessionService, { DeviceInfo, SessionTokens } from './session.service';
+import TwoFactorService from './twoFactor.service';
+import { notifyAccountLocked } from '../../notification/helpers/notification.helper';
 
 interface RegisterData {
   username: string;
@@ -67,10 +88,17 @@ class UserService {
     return userWithoutPassword;
   }
 
-  static async login(email: string, password: string) {
+  static async login(email: string, password: string, device: DeviceInfo = {}) {
     const user = await User.findOne({ email }).select('+password');
 
-    if (!user || !(await user.isPasswordCorrect(password))) {
+    // A locked or throttled account answers like a wrong password, so the
+    // response does not reveal that the account exists
+    const blocked = !!user && !!this.getLoginBlock(user);
+
+    if (!user || blocked || !(await user.isPasswordCorrect(password))) {
+      if (user && !blocked) {
+        await this.registerFailedLogin(user);
+      }
       throw new ApiError(
         'LOGIN_USER',
         StatusCodes.UNAUTHORIZED,
@@ -79,6 +107,17 @@ class UserService {
       );
     }
 
+    this.assertAccountActive(user);
+
+    if (user.isServiceAccount) {
+      throw new ApiError(
+        'LOGIN_USER',
+        StatusCodes.FORBIDDEN,
+        'SERVICE_ACCOUNT_LOGIN',
+        'Service accounts authenticate with API keys',
+      );
+    }
+
     if (!user.isApproved) {
       throw new ApiError(
         'LOGIN_USER',
@@ -88,8 +127,121 @@ class UserService {
       );
     }
 
-    const accessToken = user.generateAccessToken();
-    const refreshToken = user.generateRefreshToken();
+    // Second factor: enrolled users verify a code, users whose role
+    // enforces 2FA must enroll before they receive tokens
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: TwoFactorService.issueChallenge(user, 'verify'),
+      };
+    }
+    if (await TwoFactorService.isRequiredForUser(user)) {
+      return {
+        twoFactorSetupRequired: true,
+        challengeToken: TwoFactorService.issueChallenge(user, 'setup'),
+      };
+    }
+
+    return this.completeLogin(user, device);
+  }
+
+  /**
+   * Second login step: verify the TOTP (or recovery) code for a challenge.
+   * A setup challenge confirms enrollment and returns recovery codes.
+   */
+  static async verifyTwoFactorLogin(
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string },
+    device: DeviceInfo = {},
+  ) {
+    const { userId, purpose } =
+      TwoFactorService.verifyChallenge(challengeToken);
+
+    const user = await User.findById(userId);
+    if (!user || !user.isApproved) {
+      throw new ApiError(
+        'LOGIN_USER',
+        StatusCodes.UNAUTHORIZED,
+        'INVALID_CREDENTIALS',
+        'Invalid email or password',
+      );
+    }
+
+    this.assertAccountActive(user);
+    this.assertLoginAllowed(user);
+
+    let verified = false;
+    let recoveryCodes: string[] | undefined;
+
+    if (purpose === 'setup') {
+      if (credentials.code) {
+        try {
+          recoveryCodes = await TwoFactorService.confirmEnrollment(
+            userId,
+            credentials.code,
+          );
+          verified = true;
+        } catch (error) {
+          if (
+            !(error instanceof ApiError) ||
+            error.errorCode !== 'INVALID_TWO_FACTOR_CODE'
+          ) {
+            throw error;
+          }
+        }
+      }
+    } else if (credentials.code) {
+      verified = await TwoFactorService.verifyCode(userId, credentials.code);
+    } else if (credentials.recoveryCode) {
+      verified = await TwoFactorService.useRecoveryCode(
+        userId,
+        credentials.recoveryCode,
+      );
+    }
+
+    if (!verified) {
+      await this.registerFailedLogin(user);
+      throw new ApiError(
+        'LOGIN_USER',
+        StatusCodes.UNAUTHORIZED,
+        'INVALID_TWO_FACTOR_CODE',
+        'Invalid two-factor authentication code',
+      );
+    }
+
+    const result = await this.completeLogin(user, device);
+    return recoveryCodes ? { ...result, recoveryCodes } : result;
+  }
+
+  /**
+   * Start 2FA enrollment for a user whose role enforces it (setup challenge)
+   */
+  static async startTwoFactorSetup(challengeToken: string) {
+    const { userId } = TwoFactorService.verifyChallenge(
+      challengeToken,
+      'setup',
+    );
+    return TwoFactorService.startEnrollment(userId);
+  }
+
+  /**
+   * Reset failed attempts and open a session once all factors passed
+   */
+  private static async completeLogin(user: IUser, device: DeviceInfo) {
+    if (user.failedLoginAttempts > 0 || user.lockUntil) {
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: { failedLoginAttempts: 0 },
+          $unset: { lastFailedLoginAt: 1, lockUntil: 1 },
+        },
+      );
+    }
+
+    const { accessToken, refreshToken } = await SessionService.createSession(
+      user,
+      device,
+    );
 
     return {
       user: {
@@ -103,36 +255,208 @@ class UserService {
     };
   }
 
-  static async getAccessToken(refreshToken: string): Promise<string> {
-    const secret = process.env['REFRESH_TOKEN_SECRET'];
-    if (!secret) throw new Error('REFRESH_TOKEN_SECRET is not set');
+  /**
+   * Reject suspended, deactivated and deleted accounts
+   */
+  private static assertAccountActive(user: IUser): void {
+    if (user.isAccountActive()) return;
+
+    const suspended = !user.deletedAt && user.status === UserStatus.SUSPENDED;
+    throw new ApiError(
+      'LOGIN_USER',
+      StatusCodes.FORBIDDEN,
+      suspended ? 'ACCOUNT_SUSPENDED' : 'ACCOUNT_DEACTIVATED',
+      suspended
+        ? `Account is suspended${user.statusReason ? `: ${user.statusReason}` : ''}`
+        : 'Account is deactivated',
+    );
+  }
+
+  /**
+   * Login brute-force policy (configurable through environment variables)
+   */
+  private static getLoginPolicy() {
+    return {
+      maxAttempts: parseInt(process.env['LOGIN_MAX_ATTEMPTS'] || '5', 10),
+      lockMinutes: parseInt(process.env['LOGIN_LOCK_MINUTES'] || '15', 10),
+      maxDelaySeconds: parseInt(
+        process.env['LOGIN_MAX_DELAY_SECONDS'] || '30',
+        10,
+      ),
+    };
+  }
+
+  /**
+   * Error for a login attempt while the account is locked or while the
+   * progressive delay after the last failed attempt has not elapsed
+   */
+  private static getLoginBlock(user: IUser): ApiError | null {
+    const now = Date.now();
+
+    if (user.lockUntil && user.lockUntil.getTime() > now) {
+      const minutesLeft = Math.ceil((user.lockUntil.getTime() - now) / 60000);
+      return new ApiError(
+        'LOGIN_USER',
+        StatusCodes.LOCKED,
+        'ACCOUNT_LOCKED',
+        `Account is locked due to too many failed login attempts. Try again in ${minutesLeft} minute(s) or contact an administrator.`,
+        [],
+        [
+          {
+            expectedField: 'lockUntil',
+            description: user.lockUntil.toISOString(),
+          },
+        ],
+      );
+    }
+
+    // An expired lock starts a fresh series of attempts
+    const attempts = user.lockUntil ? 0 : user.failedLoginAttempts;
+    if (attempts > 0 && user.lastFailedLoginAt) {
+      const { maxDelaySeconds } = this.getLoginPolicy();
+      const delaySeconds = Math.min(2 ** (attempts - 1), maxDelaySeconds);
+      const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+
+      if (now < retryAt) {
+        return new ApiError(
+          'LOGIN_USER',
+          StatusCodes.TOO_MANY_REQUESTS,
+          'TOO_MANY_LOGIN_ATTEMPTS',
+          'Too many failed login attempts. Please wait before trying again.',
+          [],
+          [
+            {
+              expectedField: 'retryAfter',
+              description: `${Math.ceil((retryAt - now) / 1000)} seconds`,
+            },
+          ],
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reject login attempts while the account is locked or throttled
+   */
+  private static assertLoginAllowed(user: IUser): void {
+    const block = this.getLoginBlock(user);
+    if (block) throw block;
+  }
+
+  /**
+   * Record a failed login and lock the account once the limit is reached
+   */
+  private static async registerFailedLogin(user: IUser): Promise<void> {
+    const { maxAttempts, lockMinutes } = this.getLoginPolicy();
+    const now = new Date();
+    const lockExpired = !!user.lockUntil && user.lockUntil <= now;
+
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      lockExpired
+        ? {
+            $set: { failedLoginAttempts: 1, lastFailedLoginAt: now },
+            $unset: { lockUntil: 1 },
+          }
+        : {
+            $inc: { failedLoginAttempts: 1 },
+            $set: { lastFailedLoginAt: now },
+          },
+      { new: true },
+    );
+
+    if (!updated || updated.failedLoginAttempts < maxAttempts) {
+      return;
+    }
+
+    const lockUntil = new Date(now.getTime() + lockMinutes * 60 * 1000);
+    await User.updateOne({ _id: updated._id }, { $set: { lockUntil } });
+
+    const userId = (updated._id as Types.ObjectId).toString();
+    await notifyAccountLocked(
+      userId,
+      updated.username,
+      updated.failedLoginAttempts,
+      lockUntil,
+    );
+
+    try {
+      await mailConfig.sendMail({
+        to: updated.email,
+        subject: 'Your Fluid Pack account has been locked',
+        text:
+          `Hello ${updated.username},\n\n` +
+          `Your account was locked after ${updated.failedLoginAttempts} failed login attempts. ` +
+          `It will unlock automatically at ${lockUntil.toISOString()}, or an administrator can unlock it sooner.\n\n` +
+          `If these attempts were not made by you, please reset your password.`,
+      });
+    } catch (error) {
+      console.error('Error sending account locked email:', error);
+    }
+  }
 
+  /**
+   * Clear failed login attempts and lockout (admin)
+   */
+  static async unlockUser(id: string) {
     try {
-      const payload = jwt.verify(refreshToken, secret) as { _id: string };
-      const user = await User.findById(payload._id);
+      const user = await User.findByIdAndUpdate(
+        id,
+        {
+          $set: { failedLoginAttempts: 0 },
+          $unset: { lastFailedLoginAt: 1, lockUntil: 1 },
+        },
+        { new: true },
+      );
 
       if (!user) {
         throw new ApiError(
-          'TOKEN',
+          'UNLOCK_USER',
           StatusCodes.NOT_FOUND,
           'USER_NOT_FOUND',
           'User not found',
         );
       }
 
-      return user.generateAccessToken();
-    } catch {
+      return {
+        _id: user._id,
+        username: user.username,
+        email: user.email,
+        failedLoginAttempts: user.failedLoginAttempts,
+      };
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
       throw new ApiError(
-        'TOKEN',
-        StatusCodes.UNAUTHORIZED,
-        'INVALID_TOKEN',
-        'Invalid refresh token',
+        'UNLOCK_USER',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'UNLOCK_USER_ERROR',
+        'Failed to unlock user',
       );
     }
   }
 
+  /**
+   * Rotate the refresh token and issue a new access token
+   */
+  static async getAccessToken(
+    refreshToken: string,
+    device: DeviceInfo = {},
+  ): Promise<SessionTokens> {
+    return SessionService.rotateRefreshToken(refreshToken, device);
+  }
+
+  /**
+   * Revoke the session of the given refresh token
+   */
+  static async logout(refreshToken?: string): Promise<void> {
+    if (!refreshToken) return;
+    await SessionService.revokeByRefreshToken(refreshToken);
+  }
+
   static async forgotPassword(email: string) {
-    const user = await User.findOne({ email });
+    const user = await User.findOne({ email, deletedAt: null });
     if (!user) {
       throw new ApiError(
         'FORGOT_PASSWORD',
@@ -142,8 +466,209 @@ class UserService {
       );
     }
 
-    // Stub: you can integrate nodemailer/sendgrid/mailgun etc.
-    console.log(`Send reset link to ${email} (simulate sending email here)`);
+    const resetToken = user.createPasswordResetToken();
+    await user.save({ validateBeforeSave: false });
+
+    const clientUrl =
+      process.env['CLIENT_URL'] ||
+      process.env['BASE_URL'] ||
+      'http://localhost:5000';
+    const resetUrl = `${clientUrl}/reset-password?token=${resetToken}`;
+
+    try {
+      await mailConfig.sendMail({
+        to: user.email,
+        subject: 'Reset your Fluid Pack password',
+        text:
+          `Hello ${user.username},\n\n` +
+          `A password reset was requested for your account. ` +
+          `Use the link below to choose a new password:\n\n${resetUrl}\n\n` +
+          `This link can be used once and expires soon. ` +
+          `If you did not request a reset, you can ignore this email.`,
+      });
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+      user.passwordResetToken = undefined;
+      user.passwordResetExpires = undefined;
+      await user.save({ validateBeforeSave: false });
+      throw new ApiError(
+        'FORGOT_PASSWORD',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'EMAIL_SEND_FAILED',
+        'Failed to send password reset email',
+      );
+    }
+  }
+
+  /**
+   * Reset password using a single-use reset token
+   */
+  static async resetPassword(token: string, newPassword: string) {
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    }).select(
+      '+password +passwordHistory +passwordResetToken +passwordResetExpires',
+    );
+
+    if (!user) {
+      throw new ApiError(
+        'RESET_PASSWORD',
+        StatusCodes.BAD_REQUEST,
+        'INVALID_RESET_TOKEN',
+        'Password reset token is invalid or has expired',
+      );
+    }
+
+    await this.assertPasswordAllowed(user, newPassword, 'RESET_PASSWORD');
+
+    // Hashed by the pre('save') hook
+    user.password = newPassword;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    // Sign out every device that may have used the old password
+    await SessionService.revokeAllForUser(
+      (user._id as Types.ObjectId).toString(),
+      'PASSWORD_RESET',
+    );
+  }
+
+  /**
+   * Enforce the strength policy and reject recently used passwords.
+   * The user must be loaded with `+password +passwordHistory`.
+   */
+  private static async assertPasswordAllowed(
+    user: IUser,
+    newPassword: string,
+    action: string,
+  ): Promise<void> {
+    const violations = checkPasswordStrength(newPassword, {
+      username: user.username,
+      email: user.email,
+    });
+    if (violations.length > 0) {
+      throw new ApiError(
+        action,
+        StatusCodes.BAD_REQUEST,
+        'WEAK_PASSWORD',
+        'Password does not meet the password policy',
+        violations.map((message) => ({ field: 'newPassword', message })),
+      );
+    }
+
+    if (await user.isPasswordReused(newPassword)) {
+      throw new ApiError(
+        action,
+        StatusCodes.BAD_REQUEST,
+        'PASSWORD_REUSED',
+        'New password must differ from your recent passwords',
+      );
+    }
+  }
+
+  /**
+   * Get the authenticated user's own profile
+   */
+  static async getProfile(userId: string) {
+    const user = await User.findById(userId)
+      .select('-password')
+      .populate('role', 'name')
+      .populate('department', 'name');
+
+    if (!user) {
+      throw new ApiError(
+        'GET_PROFILE',
+        StatusCodes.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * Update the authenticated user's own profile.
+   * Only personal fields; role, department and approval stay admin-managed.
+   */
+  static async updateProfile(userId: string, data: { username?: string }) {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new ApiError(
+        'UPDATE_PROFILE',
+        StatusCodes.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    if (data.username && data.username !== user.username) {
+      const taken = await User.exists({
+        username: data.username,
+        _id: { $ne: user._id },
+      });
+      if (taken) {
+        throw new ApiError(
+          'UPDATE_PROFILE',
+          StatusCodes.CONFLICT,
+          'USERNAME_TAKEN',
+          'Username is already taken',
+        );
+      }
+      user.username = data.username;
+    }
+
+    await user.save();
+    return this.getProfile(userId);
+  }
+
+  /**
+   * Change the authenticated user's password.
+   * Every other session is signed out; the current one stays active.
+   */
+  static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string,
+  ): Promise<{ revokedSessions: number }> {
+    const user = await User.findById(userId).select(
+      '+password +passwordHistory',
+    );
+    if (!user) {
+      throw new ApiError(
+        'CHANGE_PASSWORD',
+        StatusCodes.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    if (!(await user.isPasswordCorrect(currentPassword))) {
+      throw new ApiError(
+        'CHANGE_PASSWORD',
+        StatusCodes.UNAUTHORIZED,
+        'INVALID_CURRENT_PASSWORD',
+        'Current password is incorrect',
+      );
+    }
+
+    await this.assertPasswordAllowed(user, newPassword, 'CHANGE_PASSWORD');
+
+    // Hashed by the pre('save') hook, which also records the history
+    user.password = newPassword;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    const revokedSessions = await SessionService.revokeAllForUser(
+      userId,
+      'PASSWORD_CHANGED',
+      currentSessionId,
+    );
+    return { revokedSessions };
   }
 
   /**
@@ -160,7 +685,7 @@ class UserService {
     updatedAt: Date;
   }> {
     const user = await User.findById(id)
-      .select('-password -refreshToken')
+      .select('-password')
       .populate('role', 'name')
       .populate('department', 'name');
 
@@ -192,17 +717,33 @@ class UserService {
     totalUsers: number;
     approvedUsers: number;
     pendingUsers: number;
+    suspendedUsers: number;
+    deactivatedUsers: number;
     usersByRole: Array<{ _id: string; count: number }>;
     usersByDepartment: Array<{ _id: string; count: number }>;
     recentUsers: number;
   }> {
     try {
-      const totalUsers = await User.countDocuments();
-      const approvedUsers = await User.countDocuments({ isApproved: true });
-      const pendingUsers = await User.countDocuments({ isApproved: false });
+      const totalUsers = await User.countDocuments({ deletedAt: null });
+      const approvedUsers = await User.countDocuments({
+        deletedAt: null,
+        isApproved: true,
+      });
+      const pendingUsers = await User.countDocuments({
+        deletedAt: null,
+        isApproved: false,
+      });
+      const suspendedUsers = await User.countDocuments({
+        deletedAt: null,
+        status: UserStatus.SUSPENDED,
+      });
+      const deactivatedUsers = await User.countDocuments({
+        $or: [{ deletedAt: { $ne: null } }, { status: UserStatus.DEACTIVATED }],
+      });
 
       // Get users by role
       const usersByRole = await User.aggregate([
+        { $match: { deletedAt: null } },
         {
           $group: {
             _id: '$role',
@@ -213,6 +754,7 @@ class UserService {
 
       // Get users by department
       const usersByDepartment = await User.aggregate([
+        { $match: { deletedAt: null } },
         {
           $group: {
             _id: '$department',
@@ -226,6 +768,7 @@ class UserService {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
       const recentUsers = await User.countDocuments({
+        deletedAt: null,
         createdAt: { $gte: thirtyDaysAgo },
       });
 
@@ -233,6 +776,8 @@ class UserService {
         totalUsers,
         approvedUsers,
         pendingUsers,
+        suspendedUsers,
+        deactivatedUsers,
         usersByRole,
         usersByDepartment,
         recentUsers,
@@ -336,7 +881,7 @@ class UserService {
 
       const [users, total] = await Promise.all([
         User.find(query)
-          .select('-password -refreshToken') // Exclude sensitive fields
+          .select('-password') // Exclude sensitive fields
           .populate('role', 'name')
           .populate('department', 'name')
           .sort(sort)
@@ -425,12 +970,12 @@ class UserService {
   }
 
   /**
-   * Delete user by id
-   * @param id - User ID
+   * Soft delete user: the document is kept so references from machines,
+   * SOs and approvals stay resolvable
    */
-  static async deleteUser(id: string) {
+  static async deleteUser(id: string, deletedBy?: string) {
     try {
-      const user = await User.findById(id);
+      const user = await User.findOne({ _id: id, deletedAt: null });
       if (!user) {
         throw new ApiError(
           'DELETE_USER',
@@ -439,8 +984,16 @@ class UserService {
           'User not found',
         );
       }
+      this.assertNotSelf('DELETE_USER', id, deletedBy);
+
+      user.deletedAt = new Date();
+      user.deletedBy = deletedBy ? new Types.ObjectId(deletedBy) : undefined;
+      user.status = UserStatus.DEACTIVATED;
+      user.statusChangedAt = new Date();
+      user.statusChangedBy = user.deletedBy;
+      await user.save({ validateBeforeSave: false });
 
-      await User.findByIdAndDelete(id);
+      await SessionService.revokeAllForUser(id, 'USER_DELETED');
     } catch (error) {
       if (error instanceof ApiError) throw error;
       throw new ApiError(
@@ -451,6 +1004,234 @@ class UserService {
       );
     }
   }
+
+  /**
+   * Suspend or deactivate a user and sign out all their sessions
+   */
+  static async changeUserStatus(
+    id: string,
+    status: UserStatus.SUSPENDED | UserStatus.DEACTIVATED,
+    changedBy: string,
+    reason?: string,
+  ) {
+    const action =
+      status === UserStatus.SUSPENDED ? 'SUSPEND_USER' : 'DEACTIVATE_USER';
+    try {
+      this.assertNotSelf(action, id, changedBy);
+
+      const user = await User.findOneAndUpdate(
+        { _id: id, deletedAt: null },
+        {
+          $set: {
+            status,
+            statusReason: reason,
+            statusChangedAt: new Date(),
+            statusChangedBy: new Types.ObjectId(changedBy),
+          },
+        },
+        { new: true },
+      );
+      if (!user) {
+        throw new ApiError(
+          action,
+          StatusCodes.NOT_FOUND,
+          'USER_NOT_FOUND',
+          'User not found',
+        );
+      }
+
+      await SessionService.revokeAllForUser(id, `USER_${status.toUpperCase()}`);
+
+      return {
+        _id: user._id,
+        username: user.username,
+        email: user.email,
+        status: user.status,
+        statusReason: user.statusReason,
+      };
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        action,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        `${action}_ERROR`,
+        'Failed to update user status',
+      );
+    }
+  }
+
+  /**
+   * Reactivate a suspended, deactivated or soft-deleted user
+   */
+  static async reactivateUser(id: string, changedBy: string) {
+    try {
+      const user = await User.findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            status: UserStatus.ACTIVE,
+            deletedAt: null,
+            statusChangedAt: new Date(),
+            statusChangedBy: new Types.ObjectId(changedBy),
+          },
+          $unset: { statusReason: 1, deletedBy: 1 },
+        },
+        { new: true },
+      );
+      if (!user) {
+        throw new ApiError(
+          'REACTIVATE_USER',
+          StatusCodes.NOT_FOUND,
+          'USER_NOT_FOUND',
+          'User not found',
+        );
+      }
+
+      return {
+        _id: user._id,
+        username: user.username,
+        email: user.email,
+        status: user.status,
+      };
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        'REACTIVATE_USER',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'REACTIVATE_USER_ERROR',
+        'Failed to reactivate user',
+      );
+    }
+  }
+
+  /**
+   * Reassign a user's open items (unapproved machines, inactive SOs,
+   * pending QC entries and pending approval requests) to another user
+   */
+  static async transferOwnership(
+    fromUserId: string,
+    toUserId: string,
+    transferredBy?: string,
+  ) {
+    try {
+      if (fromUserId === toUserId) {
+        throw new ApiError(
+          'TRANSFER_OWNERSHIP',
+          StatusCodes.BAD_REQUEST,
+          'SAME_USER',
+          'Cannot transfer ownership to the same user',
+        );
+      }
+
+      const [fromUser, toUser] = await Promise.all([
+        User.findById(fromUserId),
+        User.findOne({ _id: toUserId, ...activeUserFilter }),
+      ]);
+      if (!fromUser) {
+        throw new ApiError(
+          'TRANSFER_OWNERSHIP',
+          StatusCodes.NOT_FOUND,
+          'USER_NOT_FOUND',
+          'User not found',
+        );
+      }
+      if (!toUser) {
+        throw new ApiError(
+          'TRANSFER_OWNERSHIP',
+          StatusCodes.NOT_FOUND,
+          'TARGET_USER_NOT_FOUND',
+          'Target user not found or not active',
+        );
+      }
+
+      const from = new Types.ObjectId(fromUserId);
+      const to = new Types.ObjectId(toUserId);
+      const machineFilter = {
+        created_by: from,
+        deletedAt: null,
+        is_approved: false,
+      };
+      const transferredMachines = await Machine.find(machineFilter).lean();
+
+      const [
+        machines,
+        machineApprovals,
+        sos,
+        soApprovals,
+        qcEntries,
+        qcApprovals,
+      ] = await Promise.all([
+        Machine.updateMany(machineFilter, { $set: { created_by: to } }),
+        MachineApproval.updateMany(
+          { requestedBy: from, status: ApprovalStatus.PENDING },
+          { $set: { requestedBy: to } },
+        ),
+        SO.updateMany(
+          { created_by: from, deletedAt: null, is_active: false },
+          { $set: { created_by: to } },
+        ),
+        SOApproval.updateMany(
+          { requestedBy: from, status: SOApprovalStatus.PENDING },
+          { $set: { requestedBy: to } },
+        ),
+        QAMachineEntry.updateMany(
+          { added_by: from, approval_status: 'PENDING' },
+          { $set: { added_by: to } },
+        ),
+        QCApproval.updateMany(
+          { requestedBy: from, status: QCApprovalStatus.PENDING },
+          { $set: { requestedBy: to } },
+        ),
+      ]);
+
+      await Promise.all(
+        transferredMachines.map((machine) =>
+          MachineRevisionService.record(
+            MachineRevisionOperation.OWNERSHIP_TRANSFER,
+            machine,
+            { ...machine, created_by: to },
+            transferredBy,
+          ),
+        ),
+      );
+
+      return {
+        from: { _id: fromUser._id, username: fromUser.username },
+        to: { _id: toUser._id, username: toUser.username },
+        transferred: {
+          machines: machines.modifiedCount,
+          machineApprovals: machineApprovals.modifiedCount,
+          sos: sos.modifiedCount,
+          soApprovals: soApprovals.modifiedCount,
+          qcEntries: qcEntries.modifiedCount,
+          qcApprovals: qcApprovals.modifiedCount,
+        },
+      };
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        'TRANSFER_OWNERSHIP',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'TRANSFER_OWNERSHIP_ERROR',
+        'Failed to transfer ownership',
+      );
+    }
+  }
+
+  private static assertNotSelf(
+    action: string,
+    targetId: string,
+    actorId?: string,
+  ): void {
+    if (actorId && actorId === targetId) {
+      throw new ApiError(
+        action,
+        StatusCodes.BAD_REQUEST,
+        'CANNOT_MODIFY_SELF',
+        'You cannot perform this action on your own account',
+      );
+    }
+  }
 }
 
 export default UserService;
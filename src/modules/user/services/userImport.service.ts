@@ -0,0 +1,274 @@
+// userImport.service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { StatusCodes } from 'http-status-codes';
+import { User } from '../../../models/user.model';
+import { Role } from '../../../models/role.model';
+import { Department } from '../../../models/department.model';
+import { ApiError } from '../../../utils/ApiError';
+import { readSpreadsheetRows } from '../../../utils/spreadsheet.util';
+import { withTransactionFallback } from '../../../utils/transaction.util';
+import { registerUserSchema } from '../user.validator';
+import UserService from './user.service';
+
+export type UserImportRowStatus = 'valid' | 'invalid' | 'created';
+
+export interface UserImportRowResult {
+  row: number;
+  email: string;
+  username: string;
+  status: UserImportRowStatus;
+  errors: string[];
+  userId?: string;
+}
+
+export interface UserImportReport {
+  dryRun: boolean;
+  imported: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdRows: number;
+  rows: UserImportRowResult[];
+}
+
+interface PreparedRow {
+  result: UserImportRowResult;
+  data?: {
+    username: string;
+    email: string;
+    password: string;
+    role: string;
+    department: string;
+  };
+  generatedPassword: boolean;
+}
+
+// Columns expected in the sheet (header matching ignores case and spaces)
+const REQUIRED_HEADERS = ['Username', 'Email', 'Role', 'Department'];
+
+class UserImportService {
+  /**
+   * Random password that satisfies the registration password policy.
+   * Users created with one receive a password reset email.
+   */
+  private static generatePassword(): string {
+    return `Aa1${crypto.randomBytes(18).toString('base64url')}`;
+  }
+
+  /**
+   * Load role/department name -> id lookups
+   */
+  private static async loadLookups() {
+    const [roles, departments] = await Promise.all([
+      Role.find().select('name').lean(),
+      Department.find().select('name').lean(),
+    ]);
+    return {
+      roles: new Map(
+        roles.map((role) => [role.name.toLowerCase(), role._id.toString()]),
+      ),
+      departments: new Map(
+        departments.map((department) => [
+          department.name.toLowerCase(),
+          department._id.toString(),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Import users from an .xlsx or .csv file.
+   * Every row is validated first; users are only created when all rows
+   * are valid and dryRun is false, and then all together or not at all.
+   * Imported users are already approved.
+   */
+  static async importUsers(
+    buffer: Buffer,
+    fileName: string,
+    options: { dryRun: boolean; createdBy: string },
+  ): Promise<UserImportReport> {
+    let sheetRows;
+    try {
+      sheetRows = await readSpreadsheetRows(buffer, fileName, REQUIRED_HEADERS);
+    } catch (error) {
+      throw new ApiError(
+        'IMPORT_USERS',
+        StatusCodes.BAD_REQUEST,
+        'INVALID_IMPORT_FILE',
+        error instanceof Error ? error.message : 'Unable to read import file',
+      );
+    }
+
+    if (sheetRows.length === 0) {
+      throw new ApiError(
+        'IMPORT_USERS',
+        StatusCodes.BAD_REQUEST,
+        'EMPTY_IMPORT_FILE',
+        'The import file does not contain any user rows',
+      );
+    }
+
+    const lookups = await this.loadLookups();
+    const emails = sheetRows
+      .map((row) => (row.values['email'] || '').trim().toLowerCase())
+      .filter(Boolean);
+    const existingUsers = await User.find({ email: { $in: emails } })
+      .select('email')
+      .lean();
+    const existingEmails = new Set(existingUsers.map((user) => user.email));
+    const seenEmails = new Set<string>();
+
+    const prepared: PreparedRow[] = sheetRows.map(({ rowNumber, values }) => {
+      const email = (values['email'] || '').trim().toLowerCase();
+      const username = (values['username'] || '').trim().toLowerCase();
+      const result: UserImportRowResult = {
+        row: rowNumber,
+        email,
+        username,
+        status: 'valid',
+        errors: [],
+      };
+
+      const roleName = (values['role'] || '').trim().toLowerCase();
+      const departmentName = (values['department'] || '').trim().toLowerCase();
+      const role = lookups.roles.get(roleName);
+      const department = lookups.departments.get(departmentName);
+      if (!role) result.errors.push(`Role "${values['role'] || ''}" not found`);
+      if (!department) {
+        result.errors.push(
+          `Department "${values['department'] || ''}" not found`,
+        );
+      }
+
+      if (email && existingEmails.has(email)) {
+        result.errors.push('A user with this email already exists');
+      }
+      if (email && seenEmails.has(email)) {
+        result.errors.push('Duplicate email in import file');
+      }
+      if (email) seenEmails.add(email);
+
+      const providedPassword = values['password'] || '';
+      const password = providedPassword || this.generatePassword();
+
+      const { error, value } = registerUserSchema.validate(
+        {
+          username,
+          email,
+          password,
+          role: role || new Types.ObjectId().toString(),
+          department: department || new Types.ObjectId().toString(),
+        },
+        { abortEarly: false },
+      );
+      if (error) {
+        result.errors.push(...error.details.map((detail) => detail.message));
+      }
+
+      if (result.errors.length > 0) {
+        result.status = 'invalid';
+        return { result, generatedPassword: false };
+      }
+
+      return {
+        result,
+        data: {
+          username: value.username,
+          email: value.email,
+          password: value.password,
+          role: value.role,
+          department: value.department,
+        },
+        generatedPassword: !providedPassword,
+      };
+    });
+
+    const invalidRows = prepared.filter(
+      (row) => row.result.status === 'invalid',
+    ).length;
+    const report: UserImportReport = {
+      dryRun: options.dryRun,
+      imported: false,
+      totalRows: prepared.length,
+      validRows: prepared.length - invalidRows,
+      invalidRows,
+      createdRows: 0,
+      rows: prepared.map((row) => row.result),
+    };
+
+    if (options.dryRun || invalidRows > 0) {
+      return report;
+    }
+
+    // All users are created or none: in a transaction, or removed again
+    // if a save fails on servers without transactions. Ids are assigned
+    // up front for the rollback.
+    const rows = prepared.filter(
+      (row): row is PreparedRow & { data: NonNullable<PreparedRow['data']> } =>
+        !!row.data,
+    );
+    const userIds = rows.map(() => new Types.ObjectId());
+    let failedRow: number | undefined;
+    try {
+      await withTransactionFallback(
+        async (session) => {
+          // Save one by one so the pre('save') hook hashes each password
+          for (const [index, row] of rows.entries()) {
+            failedRow = row.result.row;
+            const user = new User({
+              _id: userIds[index],
+              ...row.data,
+              isApproved: true,
+              createdBy: new Types.ObjectId(options.createdBy),
+            });
+            await user.save(session ? { session } : {});
+          }
+          failedRow = undefined;
+        },
+        async () => {
+          await User.deleteMany({ _id: { $in: userIds } });
+        },
+      );
+    } catch (error) {
+      console.error('User import failed:', error);
+      const rowNote = failedRow ? ` (row ${failedRow})` : '';
+      if ((error as { code?: number }).code === 11000) {
+        throw new ApiError(
+          'IMPORT_USERS',
+          StatusCodes.CONFLICT,
+          'USER_IMPORT_CONFLICT',
+          `A user from the import file was created meanwhile${rowNote}; no users were imported`,
+        );
+      }
+      throw new ApiError(
+        'IMPORT_USERS',
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        'USER_IMPORT_FAILED',
+        `Failed to create a user${rowNote}; no users were imported`,
+      );
+    }
+
+    for (const [index, row] of rows.entries()) {
+      row.result.status = 'created';
+      row.result.userId = userIds[index]!.toString();
+      report.createdRows += 1;
+
+      // Users without a password in the sheet choose one via reset email
+      if (row.generatedPassword) {
+        try {
+          await UserService.forgotPassword(row.data.email);
+        } catch {
+          row.result.errors.push(
+            'User created, but the password setup email could not be sent',
+          );
+        }
+      }
+    }
+
+    report.imported = report.createdRows > 0;
+    return report;
+  }
+}
+
+export default UserImportService;
@@ -4,16 +4,21 @@ import { asyncHandler } from '../../utils/asyncHandler';
 import { StatusCodes } from 'http-status-codes';
 
 import UserService from './services/user.service';
+import SessionService from './services/session.service';
+import TwoFactorService from './services/twoFactor.service';
+import UserImportService from './services/userImport.service';
 
 import { ApiError } from '../../utils/ApiError';
 
-import { User } from '../../models/user.model';
+import { User, UserStatus } from '../../models/user.model';
+import { Role } from '../../models/role.model';
 import { ApiResponse } from '../../utils/ApiResponse';
 
 export interface AuthenticatedRequest extends Request {
   cookies: { accessToken?: string; refreshToken?: string }; // Define cookies with accessToken
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   user?: any;
+  sessionId?: string;
 }
 class UserController {
   static registerUser = asyncHandler(async (req: Request, res: Response) => {
@@ -35,7 +40,23 @@ class UserController {
     async (req: AuthenticatedRequest, res: Response) => {
       const { email, password } = req.body;
 
-      const tokens = await UserService.login(email, password);
+      const result = await UserService.login(email, password, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip,
+      });
+
+      // Password accepted, a second factor is still needed
+      if (!('accessToken' in result)) {
+        res.status(StatusCodes.OK).json({
+          message: result.twoFactorSetupRequired
+            ? 'Two-factor authentication setup required'
+            : 'Two-factor authentication required',
+          ...result,
+        });
+        return;
+      }
+
+      const tokens = result;
       req.user = tokens;
 
       const options = { httpOnly: true, secure: true };
@@ -47,12 +68,166 @@ class UserController {
     },
   );
 
-  static getAccessToken = asyncHandler(async (req: Request, res: Response) => {
-    const { refreshToken } = req.body;
+  /**
+   * Complete login with a TOTP or recovery code
+   * POST /api/user/login/2fa
+   */
+  static verifyTwoFactorLogin = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      const tokens = await UserService.verifyTwoFactorLogin(
+        challengeToken,
+        { code, recoveryCode },
+        { userAgent: req.get('User-Agent'), ipAddress: req.ip },
+      );
+
+      const options = { httpOnly: true, secure: true };
+      res
+        .status(StatusCodes.OK)
+        .cookie('accessToken', tokens.accessToken, options)
+        .cookie('refreshToken', tokens.refreshToken, options)
+        .json({ message: 'Login successful', ...tokens });
+    },
+  );
+
+  /**
+   * Start 2FA enrollment during login when the role enforces it
+   * POST /api/user/login/2fa/setup
+   */
+  static startTwoFactorSetup = asyncHandler(
+    async (req: Request, res: Response) => {
+      const enrollment = await UserService.startTwoFactorSetup(
+        req.body.challengeToken,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        enrollment,
+        'Scan the code with an authenticator app, then confirm it to log in',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Start 2FA enrollment for the current user
+   * POST /api/user/2fa/enroll
+   */
+  static enrollTwoFactor = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const enrollment = await TwoFactorService.startEnrollment(
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        enrollment,
+        'Scan the code with an authenticator app, then verify it',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Confirm 2FA enrollment and receive recovery codes
+   * POST /api/user/2fa/verify
+   */
+  static confirmTwoFactor = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(
+        req.user._id.toString(),
+        req.body.code,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        { recoveryCodes },
+        'Two-factor authentication enabled',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Regenerate recovery codes
+   * POST /api/user/2fa/recovery-codes
+   */
+  static regenerateRecoveryCodes = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+        req.user._id.toString(),
+        req.body.code,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        { recoveryCodes },
+        'Recovery codes regenerated',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Disable 2FA for the current user (not allowed when the role enforces it)
+   * POST /api/user/2fa/disable
+   */
+  static disableTwoFactor = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      await TwoFactorService.disable(req.user._id.toString(), req.body.code);
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        {},
+        'Two-factor authentication disabled',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
 
-    const accessToken = await UserService.getAccessToken(refreshToken);
-    res.status(StatusCodes.OK).json({ accessToken });
+  /**
+   * Reset a user's 2FA so they can enroll again
+   * PATCH /api/user/:id/2fa/reset
+   */
+  static resetTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    await TwoFactorService.reset(req.params['id'] as string);
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      {},
+      'Two-factor authentication reset successfully',
+    );
+    res.status(response.statusCode).json(response);
   });
+
+  /**
+   * Rotate refresh token and issue a new access token
+   * POST /api/user/refresh
+   */
+  static getAccessToken = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const refreshToken = req.body?.refreshToken || req.cookies?.refreshToken;
+
+      if (!refreshToken) {
+        throw new ApiError(
+          'TOKEN',
+          StatusCodes.UNAUTHORIZED,
+          'INVALID_TOKEN',
+          'Refresh token is required',
+        );
+      }
+
+      const tokens = await UserService.getAccessToken(refreshToken, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip,
+      });
+
+      const options = { httpOnly: true, secure: true };
+      res
+        .status(StatusCodes.OK)
+        .cookie('accessToken', tokens.accessToken, options)
+        .cookie('refreshToken', tokens.refreshToken, options)
+        .json({
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+        });
+    },
+  );
   static approveUser = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
@@ -83,6 +258,22 @@ class UserController {
     });
   });
 
+  /**
+   * Unlock an account locked by failed login attempts
+   * PATCH /api/user/:id/unlock
+   */
+  static unlockUser = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const user = await UserService.unlockUser(id as string);
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      user,
+      'User unlocked successfully',
+    );
+    res.status(response.statusCode).json(response);
+  });
+
   static forgotPassword = asyncHandler(async (req: Request, res: Response) => {
     const { email } = req.body;
 
@@ -92,8 +283,87 @@ class UserController {
       .json({ message: 'Password reset link sent to email' });
   });
 
+  /**
+   * Reset password with a token from the reset email
+   * POST /api/user/reset-password
+   */
+  static resetPassword = asyncHandler(async (req: Request, res: Response) => {
+    const { token, newPassword } = req.body;
+
+    await UserService.resetPassword(token, newPassword);
+    const response = new ApiResponse(
+      StatusCodes.OK,
+      {},
+      'Password has been reset successfully',
+    );
+    res.status(response.statusCode).json(response);
+  });
+
+  /**
+   * Get the current user's profile
+   * GET /api/user/me
+   */
+  static getMe = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const user = await UserService.getProfile(req.user._id.toString());
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        user,
+        'Profile retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Update the current user's profile
+   * PATCH /api/user/me
+   */
+  static updateMe = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { username } = req.body;
+
+      const user = await UserService.updateProfile(req.user._id.toString(), {
+        username,
+      });
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        user,
+        'Profile updated successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Change the current user's password; other sessions are signed out
+   * POST /api/user/me/password
+   */
+  static changeMyPassword = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { currentPassword, newPassword } = req.body;
+
+      const result = await UserService.changePassword(
+        req.user._id.toString(),
+        currentPassword,
+        newPassword,
+        req.sessionId,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        result,
+        'Password changed successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
   static logoutUser = asyncHandler(
-    async (_req: AuthenticatedRequest, res: Response) => {
+    async (req: AuthenticatedRequest, res: Response) => {
+      await UserService.logout(
+        req.body?.refreshToken || req.cookies?.refreshToken,
+      );
+
       const response = new ApiResponse(
         StatusCodes.OK,
         {},
@@ -107,6 +377,68 @@ class UserController {
     },
   );
 
+  /**
+   * List active sessions (devices) of the current user.
+   * Admins may pass ?userId= to inspect another user.
+   * GET /api/user/sessions
+   */
+  static getSessions = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const requestedUserId = req.query['userId'] as string | undefined;
+      let userId = req.user._id.toString();
+
+      if (requestedUserId && requestedUserId !== userId) {
+        if (!(await UserController.isAdmin(req))) {
+          throw new ApiError(
+            'GET_SESSIONS',
+            StatusCodes.FORBIDDEN,
+            'FORBIDDEN',
+            "Only admins can view other users' sessions",
+          );
+        }
+        userId = requestedUserId;
+      }
+
+      const sessions = await SessionService.getActiveSessions(
+        userId,
+        req.sessionId,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        sessions,
+        'Sessions retrieved successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Sign out a session (device)
+   * DELETE /api/user/sessions/:id
+   */
+  static revokeSession = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { id } = req.params;
+
+      await SessionService.revokeSessionForRequester(
+        id as string,
+        req.user._id.toString(),
+        await UserController.isAdmin(req),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        {},
+        'Session revoked successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  private static async isAdmin(req: AuthenticatedRequest): Promise<boolean> {
+    const role = await Role.findById(req.user?.role).select('name').lean();
+    return role?.name?.toLowerCase() === 'admin';
+  }
+
   /**
    * Get user statistics
    * GET /api/user/statistics
@@ -218,17 +550,138 @@ class UserController {
    * Delete user
    * DELETE /api/user/:id
    */
-  static deleteUser = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params as { id: string };
-    await UserService.deleteUser(id);
+  static deleteUser = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const { id } = req.params as { id: string };
+      await UserService.deleteUser(id, req.user?._id?.toString());
 
-    const response = new ApiResponse(
-      StatusCodes.OK,
-      null,
-      'User deleted successfully',
-    );
-    res.status(response.statusCode).json(response);
-  });
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        null,
+        'User deleted successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Bulk import users from an .xlsx or .csv file
+   * POST /api/user/import?dryRun=true
+   */
+  static importUsers = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.file) {
+        throw new ApiError(
+          'IMPORT_USERS',
+          StatusCodes.BAD_REQUEST,
+          'FILE_REQUIRED',
+          'An .xlsx or .csv file is required',
+        );
+      }
+
+      const dryRun =
+        req.query['dryRun'] === 'true' || req.body?.dryRun === 'true';
+      const report = await UserImportService.importUsers(
+        req.file.buffer,
+        req.file.originalname,
+        { dryRun, createdBy: req.user._id.toString() },
+      );
+
+      let statusCode: number = StatusCodes.OK;
+      let message = 'Import validated successfully';
+      if (!dryRun && report.imported) {
+        statusCode = StatusCodes.CREATED;
+        message = `${report.createdRows} user(s) imported successfully`;
+      } else if (report.invalidRows > 0) {
+        statusCode = dryRun ? StatusCodes.OK : StatusCodes.UNPROCESSABLE_ENTITY;
+        message = `${report.invalidRows} row(s) have errors${dryRun ? '' : ', no users were imported'}`;
+      }
+
+      const response = new ApiResponse(statusCode, report, message);
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Suspend user (temporary block)
+   * PATCH /api/user/:id/suspend
+   */
+  static suspendUser = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const user = await UserService.changeUserStatus(
+        req.params['id'] as string,
+        UserStatus.SUSPENDED,
+        req.user._id.toString(),
+        req.body?.reason,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        user,
+        'User suspended successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Deactivate user (account closed, history kept)
+   * PATCH /api/user/:id/deactivate
+   */
+  static deactivateUser = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const user = await UserService.changeUserStatus(
+        req.params['id'] as string,
+        UserStatus.DEACTIVATED,
+        req.user._id.toString(),
+        req.body?.reason,
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        user,
+        'User deactivated successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Reactivate a suspended, deactivated or deleted user
+   * PATCH /api/user/:id/reactivate
+   */
+  static reactivateUser = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const user = await UserService.reactivateUser(
+        req.params['id'] as string,
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        user,
+        'User reactivated successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
+
+  /**
+   * Transfer ownership of open items to another user
+   * POST /api/user/:id/transfer-ownership
+   */
+  static transferOwnership = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response) => {
+      const result = await UserService.transferOwnership(
+        req.params['id'] as string,
+        req.body.targetUserId,
+        req.user._id.toString(),
+      );
+      const response = new ApiResponse(
+        StatusCodes.OK,
+        result,
+        'Ownership transferred successfully',
+      );
+      res.status(response.statusCode).json(response);
+    },
+  );
 }
 
 export default UserController;
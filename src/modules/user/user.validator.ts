@@ -1,5 +1,7 @@
 import Joi from 'joi';
 import mongoose from 'mongoose';
+import { ActionType } from '../../models/permissionConfig.model';
+import { DelegationScope } from '../../models/approvalDelegation.model';
 
 export const registerUserSchema = Joi.object({
   username: Joi.string().trim().lowercase().min(3).max(30).required(),
@@ -119,6 +121,14 @@ export const changePasswordSchema = Joi.object({
     .required(),
 });
 
+export const updateProfileSchema = Joi.object({
+  username: Joi.string().trim().lowercase().min(3).max(30).optional(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
 export const forgotPasswordSchema = Joi.object({
   email: Joi.string().email().trim().lowercase().required(),
 });
@@ -134,3 +144,197 @@ export const resetPasswordSchema = Joi.object({
     )
     .required(),
 });
+
+export const twoFactorCodeSchema = Joi.object({
+  code: Joi.string()
+    .trim()
+    .pattern(/^\d{6}$/)
+    .message('Code must be 6 digits.')
+    .required(),
+});
+
+export const twoFactorChallengeSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+});
+
+export const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string()
+    .trim()
+    .pattern(/^\d{6}$/)
+    .message('Code must be 6 digits.'),
+  recoveryCode: Joi.string().trim().max(32),
+}).xor('code', 'recoveryCode');
+
+export const createInvitationSchema = Joi.object({
+  email: Joi.string().email().trim().lowercase().required(),
+  role: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+  department: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+  expiresInDays: Joi.number().integer().min(1).max(30).optional(),
+});
+
+export const resendInvitationSchema = Joi.object({
+  expiresInDays: Joi.number().integer().min(1).max(30).optional(),
+});
+
+export const acceptInvitationSchema = Joi.object({
+  token: Joi.string().required(),
+  username: Joi.string().trim().lowercase().min(3).max(30).required(),
+  password: Joi.string()
+    .min(6)
+    .max(128)
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).+$/)
+    .message(
+      'Password must contain at least one uppercase letter, one lowercase letter, and one digit.',
+    )
+    .required(),
+});
+
+export const sessionQuerySchema = Joi.object({
+  userId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .optional(),
+});
+
+export const invitationQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  status: Joi.string()
+    .valid('PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED')
+    .optional(),
+  search: Joi.string().trim().optional(),
+});
+
+export const userStatusChangeSchema = Joi.object({
+  reason: Joi.string().trim().max(500).optional(),
+});
+
+export const transferOwnershipSchema = Joi.object({
+  targetUserId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+});
+
+export const createServiceAccountSchema = Joi.object({
+  username: Joi.string().trim().lowercase().min(3).max(30).required(),
+  email: Joi.string().email().trim().lowercase().optional(),
+  department: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+  role: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+});
+
+export const createApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100).required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...Object.values(ActionType)))
+    .min(1)
+    .required(),
+  rateLimitPerMinute: Joi.number().integer().min(1).max(10000).optional(),
+  expiresInDays: Joi.number().integer().min(1).max(3650).optional(),
+});
+
+export const apiKeyParamSchema = Joi.object({
+  id: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+  keyId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+});
+
+export const startImpersonationSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(500).required(),
+  readOnly: Joi.boolean().optional(),
+  durationMinutes: Joi.number().integer().min(1).max(60).optional(),
+});
+
+export const impersonationQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  adminId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .optional(),
+  targetUserId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .optional(),
+  active: Joi.boolean().optional(),
+});
+
+export const createDelegationSchema = Joi.object({
+  delegateId: Joi.string()
+    .custom((value, helpers) => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }, 'ObjectId Validation')
+    .required(),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date()
+    .iso()
+    .greater(Joi.ref('startDate'))
+    .greater('now')
+    .required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...Object.values(DelegationScope)))
+    .unique()
+    .optional(),
+  reason: Joi.string().trim().max(500).optional(),
+});
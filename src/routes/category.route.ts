@@ -9,7 +9,9 @@ import {
   validateParams,
 } from '../middlewares/validateRequest';
 import { verifyJWT } from '../middlewares/auth.middleware';
-import { AuthRole } from '../middlewares/auth-role.middleware';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import { ActionType } from '../models/permissionConfig.model';
+import CategoryPermissionMiddleware from '../modules/category/middlewares/category.permission.middleware';
 import { validationSchemas } from '../modules/category/validators/category.joi.validator';
 
 const router = Router();
@@ -22,7 +24,7 @@ const router = Router();
 router.post(
   '/',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(ActionType.CREATE_CATEGORY),
   validateRequest(validationSchemas.createCategory),
   CategoryController.createCategory,
 );
@@ -42,7 +44,7 @@ router.get('/tree', CategoryController.getCategoryTree);
 router.post(
   '/sequence-configs',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(ActionType.CREATE_SEQUENCE_CONFIG),
   validateRequest(validationSchemas.createSequenceConfig),
   SequenceManagementController.createSequenceConfig,
 );
@@ -73,7 +75,10 @@ router.post(
 router.get(
   '/sequence-configs/:id',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.VIEW_SEQUENCE_CONFIG,
+    CategoryPermissionMiddleware.existingSequenceContext,
+  ),
   validateParams(validationSchemas.sequenceConfigId),
   SequenceManagementController.getSequenceConfigById,
 );
@@ -88,7 +93,10 @@ router.put(
     next();
   },
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.EDIT_SEQUENCE_CONFIG,
+    CategoryPermissionMiddleware.existingSequenceContext,
+  ),
   validateParams(validationSchemas.sequenceConfigId),
   validateRequest(validationSchemas.updateSequenceConfig),
   SequenceManagementController.updateSequenceConfig,
@@ -98,7 +106,10 @@ router.put(
 router.delete(
   '/sequence-configs/:id',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.DELETE_SEQUENCE_CONFIG,
+    CategoryPermissionMiddleware.existingSequenceContext,
+  ),
   validateParams(validationSchemas.sequenceConfigId),
   SequenceManagementController.deleteSequenceConfig,
 );
@@ -108,7 +119,10 @@ router.delete(
 router.post(
   '/sequence-configs/:id/reset',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.RESET_SEQUENCE,
+    CategoryPermissionMiddleware.existingSequenceContext,
+  ),
   validateParams(validationSchemas.sequenceConfigId),
   validateRequest(validationSchemas.sequenceReset),
   SequenceManagementController.resetSequence,
@@ -134,7 +148,10 @@ router.get(
 router.put(
   '/:id',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.EDIT_CATEGORY,
+    CategoryPermissionMiddleware.categoryContext,
+  ),
   validateParams(validationSchemas.categoryId),
   validateRequest(validationSchemas.updateCategory),
   CategoryController.updateCategory,
@@ -144,7 +161,10 @@ router.put(
 router.delete(
   '/:id',
   verifyJWT,
-  AuthRole(['admin']),
+  requirePermission(
+    ActionType.DELETE_CATEGORY,
+    CategoryPermissionMiddleware.categoryContext,
+  ),
   validateParams(validationSchemas.categoryId),
   CategoryController.deleteCategory,
 );
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import { validateRequest } from '../middlewares/validateRequest';
+import { verifyJWT } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import { ActionType } from '../models/permissionConfig.model';
 import DepartmentAndRoleController from '../modules/admin/departmentAndRoles/department-role.controller';
 import {
   createDepartmentSchema,
@@ -14,6 +17,8 @@ const router = Router();
 
 router.post(
   '/department/create',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_DEPARTMENT),
 
   validateRequest(createDepartmentSchema),
   DepartmentAndRoleController.createDepartment,
@@ -25,17 +30,26 @@ router.get('/department/:id', DepartmentAndRoleController.getDepartmentById);
 
 router.put(
   '/department/:id',
+  verifyJWT,
+  requirePermission(ActionType.EDIT_DEPARTMENT),
 
   validateRequest(updateDepartmentSchema),
   DepartmentAndRoleController.updateDepartment,
 );
 
-router.delete('/department/:id', DepartmentAndRoleController.deleteDepartment);
+router.delete(
+  '/department/:id',
+  verifyJWT,
+  requirePermission(ActionType.DELETE_DEPARTMENT),
+  DepartmentAndRoleController.deleteDepartment,
+);
 
 // -------- Role Routes --------
 
 router.post(
   '/role/create',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_ROLE),
 
   validateRequest(createRoleSchema),
   DepartmentAndRoleController.createRole,
@@ -47,11 +61,18 @@ router.get('/role/:id', DepartmentAndRoleController.getRoleById);
 
 router.put(
   '/role/:id',
+  verifyJWT,
+  requirePermission(ActionType.EDIT_ROLE),
 
   validateRequest(updateRoleSchema),
   DepartmentAndRoleController.updateRole,
 );
 
-router.delete('/role/:id', DepartmentAndRoleController.deleteRole);
+router.delete(
+  '/role/:id',
+  verifyJWT,
+  requirePermission(ActionType.DELETE_ROLE),
+  DepartmentAndRoleController.deleteRole,
+);
 
 export default router;
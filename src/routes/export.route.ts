@@ -1,20 +1,21 @@
 import { Router } from 'express';
 import { verifyJWT } from '../middlewares/auth.middleware';
-import { AuthRole } from '../middlewares/auth-role.middleware';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import { ActionType } from '../models/permissionConfig.model';
 import ExportController from '../modules/export/export.controller';
 
 const router = Router();
 
 /**
  * Export Routes
- * All routes require admin authentication
+ * All routes require the EXPORT_DATA permission
  */
 
 // Export to Excel - GET /api/admin/export/:pageId/excel
 router.get(
   '/:pageId/excel',
   verifyJWT,
-  AuthRole('admin'),
+  requirePermission(ActionType.EXPORT_DATA),
   ExportController.exportToExcel,
 );
 
@@ -22,7 +23,7 @@ router.get(
 router.get(
   '/:pageId/:recordId/pdf',
   verifyJWT,
-  AuthRole('admin'),
+  requirePermission(ActionType.EXPORT_DATA),
   ExportController.exportToPdf,
 );
 
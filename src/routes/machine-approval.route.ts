@@ -15,11 +15,11 @@ router.get(
   MachineApprovalController.getMyApprovalRequests,
 );
 
-// Get pending approvals (for approvers) - Admin/Manager only
+// Get pending approvals (for approvers) - Admin/Manager, and delegates of
+// approvers
 router.get(
   '/pending',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
   MachineApprovalController.getPendingApprovals,
 );
 
@@ -47,11 +47,11 @@ router.get(
   MachineApprovalController.getApprovalById,
 );
 
-// Process approval decision (approve/reject) - Admin/Manager only
+// Process approval decision (approve/reject) - Admin/Manager, or the
+// approvers of the current stage of a chained approval
 router.patch(
   '/:id/process',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
   MachineApprovalController.processApprovalDecision,
 );
 
@@ -2,12 +2,16 @@
 import { Router } from 'express';
 import {
   createMachineSchema,
+  createMachinesFromSOSchema,
   updateMachineSchema,
   machineIdParamSchema,
   machinePaginationQuerySchema,
   machineApprovalSchema,
   validateMachineIdsSchema,
   updateMachineSequenceSchema,
+  machineLifecycleTransitionSchema,
+  machineHistoryQuerySchema,
+  machineRevisionDiffQuerySchema,
 } from '../modules/machine/validators/machine.joi.validator';
 import {
   validateRequest,
@@ -21,10 +25,17 @@ import { AuthRole } from '../middlewares/auth-role.middleware';
 import {
   uploadMachineFilesUpdate,
   uploadMachineFiles,
+  uploadImportFile,
   handleFileUploadError,
+  cleanupUploadedFiles,
 } from '../middlewares/multer.middleware';
-import { checkPermission } from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+import {
+  checkPermission,
+  requireApiKeyScope,
+} from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
 import { ActionType } from '../models/permissionConfig.model';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import MachinePermissionMiddleware from '../modules/machine/middlewares/machine.permission.middleware';
 
 const router = Router();
 
@@ -32,10 +43,11 @@ const router = Router();
 router.get('/my/recent', verifyJWT, MachineController.getMyRecentMachines);
 
 // Create machine with images and documents - Requires authentication
+// Permission is checked after parsing so value-based rules see the SO/value.
+// The uploaded files are removed when validation or the permission check fails
 router.post(
   '/',
   verifyJWT,
-  checkPermission([ActionType.CREATE_MACHINE]),
   uploadMachineFiles.fields([
     { name: 'images', maxCount: 100 },
     { name: 'documents', maxCount: 100 },
@@ -43,9 +55,38 @@ router.post(
   handleFileUploadError,
   parseJsonFields(['metadata']),
   validateRequest(createMachineSchema),
+  checkPermission(
+    [ActionType.CREATE_MACHINE],
+    MachinePermissionMiddleware.createContext,
+  ),
+  cleanupUploadedFiles,
   MachineController.createMachine,
 );
 
+// Create machines for units of SO line items - Requires authentication
+// Same CREATE_MACHINE permission and approval path as single creation
+router.post(
+  '/from-so',
+  verifyJWT,
+  validateRequest(createMachinesFromSOSchema),
+  checkPermission(
+    [ActionType.CREATE_MACHINE],
+    MachinePermissionMiddleware.createContext,
+  ),
+  MachineController.createMachinesFromSO,
+);
+
+// Import machines from .xlsx/.csv in the export layout, keyed by sequence
+// (?dryRun=true to validate only) - Requires permission
+router.post(
+  '/import',
+  verifyJWT,
+  requirePermission(ActionType.IMPORT_MACHINES),
+  uploadImportFile.single('file'),
+  handleFileUploadError,
+  MachineController.importMachines,
+);
+
 // Get all machines with pagination - Public access
 router.get(
   '/',
@@ -53,6 +94,15 @@ router.get(
   MachineController.getAllMachines,
 );
 
+// Get soft-deleted machines (trash) with the list filters - Requires permission
+router.get(
+  '/trash',
+  verifyJWT,
+  requirePermission(ActionType.RESTORE_MACHINE),
+  validateQuery(machinePaginationQuerySchema),
+  MachineController.getTrashMachines,
+);
+
 // Get approved machines - Public access
 router.get('/approved', MachineController.getApprovedMachines);
 
@@ -72,10 +122,10 @@ router.get(
 );
 
 // Update machine with optional new images and documents - Requires authentication
+// The uploaded files are removed when validation or the permission check fails
 router.put(
   '/:id',
   verifyJWT,
-  checkPermission([ActionType.EDIT_MACHINE]),
   uploadMachineFilesUpdate.fields([
     { name: 'images', maxCount: 5 },
     { name: 'documents', maxCount: 10 },
@@ -84,6 +134,11 @@ router.put(
   validateParams(machineIdParamSchema),
   parseJsonFields(['metadata', 'removedDocuments', 'removedImages']), // Parse JSON strings to objects
   validateRequest(updateMachineSchema),
+  checkPermission(
+    [ActionType.EDIT_MACHINE],
+    MachinePermissionMiddleware.updateMachineContext,
+  ),
+  cleanupUploadedFiles,
   MachineController.updateMachine,
 );
 
@@ -91,16 +146,34 @@ router.put(
 router.delete(
   '/:id',
   verifyJWT,
-  checkPermission([ActionType.DELETE_MACHINE]),
+  checkPermission(
+    [ActionType.DELETE_MACHINE],
+    MachinePermissionMiddleware.existingMachineContext,
+  ),
   validateParams(machineIdParamSchema),
   MachineController.deleteMachine,
 );
 
+// Restore machine from the trash - Requires authentication and permission
+router.post(
+  '/:id/restore',
+  verifyJWT,
+  validateParams(machineIdParamSchema),
+  requirePermission(
+    ActionType.RESTORE_MACHINE,
+    MachinePermissionMiddleware.deletedMachineContext,
+  ),
+  MachineController.restoreMachine,
+);
+
 // Update machine approval status - Requires permission
 router.patch(
   '/:id/approval',
   verifyJWT,
-  checkPermission([ActionType.APPROVE_MACHINE]),
+  checkPermission(
+    [ActionType.APPROVE_MACHINE],
+    MachinePermissionMiddleware.existingMachineContext,
+  ),
   validateParams(machineIdParamSchema),
   validateRequest(machineApprovalSchema),
   MachineController.updateMachineApproval,
@@ -110,12 +183,54 @@ router.patch(
 router.patch(
   '/:id/sequence',
   verifyJWT,
-  checkPermission([ActionType.UPDATE_MACHINE_SEQUENCE]),
+  checkPermission(
+    [ActionType.UPDATE_MACHINE_SEQUENCE],
+    MachinePermissionMiddleware.existingMachineContext,
+  ),
   validateParams(machineIdParamSchema),
   validateRequest(updateMachineSequenceSchema),
   MachineController.updateMachineSequence,
 );
 
+// Get machine lifecycle state and history - Requires authentication
+router.get(
+  '/:id/lifecycle',
+  verifyJWT,
+  requireApiKeyScope([ActionType.VIEW_MACHINE]),
+  validateParams(machineIdParamSchema),
+  MachineController.getMachineLifecycle,
+);
+
+// Move machine to another lifecycle state - Requires the transition's permission
+router.patch(
+  '/:id/lifecycle',
+  verifyJWT,
+  validateParams(machineIdParamSchema),
+  validateRequest(machineLifecycleTransitionSchema),
+  MachinePermissionMiddleware.lifecycleTransition,
+  MachineController.transitionMachineLifecycle,
+);
+
+// Get machine change history - Requires authentication
+router.get(
+  '/:id/history',
+  verifyJWT,
+  requireApiKeyScope([ActionType.VIEW_MACHINE]),
+  validateParams(machineIdParamSchema),
+  validateQuery(machineHistoryQuerySchema),
+  MachineController.getMachineHistory,
+);
+
+// Compare two revisions of a machine - Requires authentication
+router.get(
+  '/:id/history/diff',
+  verifyJWT,
+  requireApiKeyScope([ActionType.VIEW_MACHINE]),
+  validateParams(machineIdParamSchema),
+  validateQuery(machineRevisionDiffQuerySchema),
+  MachineController.diffMachineRevisions,
+);
+
 // Get machines by category - Public access
 router.get(
   '/category/:id',
@@ -127,6 +242,7 @@ router.get(
 router.post(
   '/validate-ids',
   verifyJWT,
+  requireApiKeyScope([ActionType.VIEW_MACHINE]),
   validateRequest(validateMachineIdsSchema),
   MachineController.validateMachineIds,
 );
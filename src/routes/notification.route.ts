@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { verifyJWT } from '../middlewares/auth.middleware';
+import { validateRequest } from '../middlewares/validateRequest';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import { ActionType } from '../models/permissionConfig.model';
 import NotificationController from '../modules/notification/controllers/notification.controller';
+import { broadcastNotificationSchema } from '../modules/notification/validators/notification.validator';
 
 const router = Router();
 
@@ -13,6 +17,14 @@ router.get('/', NotificationController.getNotifications);
 // Get unread count
 router.get('/unread-count', NotificationController.getUnreadCount);
 
+// Broadcast a notification to all users or some roles/departments
+router.post(
+  '/broadcast',
+  requirePermission(ActionType.BROADCAST_NOTIFICATION),
+  validateRequest(broadcastNotificationSchema),
+  NotificationController.broadcastNotification,
+);
+
 // Mark notification as read
 router.patch('/:id/read', NotificationController.markAsRead);
 
@@ -4,11 +4,17 @@ import {
   createPermissionConfigSchema,
   updatePermissionConfigSchema,
   checkPermissionSchema,
+  explainPermissionSchema,
   actionParamSchema,
   idParamSchema,
   paginationQuerySchema,
   permissionCheckQuerySchema,
   categoryValidationSchema,
+  policyImportSchema,
+  policyQuerySchema,
+  permissionAnalysisQuerySchema,
+  revisionDiffQuerySchema,
+  rollbackPermissionConfigSchema,
 } from '../modules/admin/permissionConfig/validators/permissionConfig.validator';
 import { validateRequest } from '../middlewares/validateRequest';
 // import { validateParams } from '../middlewares/validateParams';
@@ -70,6 +76,16 @@ router.post(
   PermissionConfigController.checkPermission,
 );
 
+// Explain a permission decision with the rule-evaluation trace - Admin only
+router.post(
+  '/explain',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateRequest(explainPermissionSchema),
+  PermissionConfigController.explainPermission,
+);
+
 // Check resource permission via GET - All authenticated users
 router.get(
   '/check/:action',
@@ -89,6 +105,37 @@ router.post(
   PermissionConfigController.validateCategoryIds,
 );
 
+// Analyze rules for shadowing, duplicates and conflicts - Admin only
+router.get(
+  '/analysis',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateQuery(permissionAnalysisQuerySchema),
+  PermissionConfigController.analyzePermissionConfigs,
+);
+
+// Export live rules as a policy document (JSON/YAML) - Admin only
+router.get(
+  '/policy/export',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateQuery(policyQuerySchema),
+  PermissionConfigController.exportPolicy,
+);
+
+// Import a policy document, optionally as a dry run - Admin only
+router.post(
+  '/policy/import',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateQuery(policyQuerySchema),
+  validateRequest(policyImportSchema),
+  PermissionConfigController.importPolicy,
+);
+
 // Get permission configuration by ID - Admin only
 router.get(
   '/:id',
@@ -99,6 +146,39 @@ router.get(
   PermissionConfigController.getPermissionConfigById,
 );
 
+// Get the revision history of a permission configuration - Admin only
+router.get(
+  '/:id/revisions',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateParams(idParamSchema),
+  validateQuery(paginationQuerySchema),
+  PermissionConfigController.getPermissionConfigRevisions,
+);
+
+// Compare two revisions of a permission configuration - Admin only
+router.get(
+  '/:id/revisions/diff',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateParams(idParamSchema),
+  validateQuery(revisionDiffQuerySchema),
+  PermissionConfigController.diffPermissionConfigRevisions,
+);
+
+// Roll a permission configuration back to a revision - Admin only
+router.post(
+  '/:id/rollback',
+  verifyJWT,
+  AuthRole('admin'),
+
+  validateParams(idParamSchema),
+  validateRequest(rollbackPermissionConfigSchema),
+  PermissionConfigController.rollbackPermissionConfig,
+);
+
 // Update permission configuration - Admin only
 router.put(
   '/:id',
@@ -130,7 +210,7 @@ router.delete(
   PermissionConfigController.deletePermissionConfig,
 );
 
-// Clear permission cache - Admin only
+// Clear permission cache on every instance - Admin only
 router.post(
   '/clear-cache',
   verifyJWT,
@@ -34,12 +34,10 @@ router.get('/statistics', QAMachineController.getQAStatistics);
 // Get all QC machine entries - allow admin, manager1, qc
 router.get('/', QAMachineController.getAllQAMachineEntries);
 
-// Apply authentication to all other routes
-router.use(verifyJWT);
-
 // Create a new QC machine entry - allow admin, manager1, qc
 router.post(
   '/',
+  verifyJWT,
   AuthRole(['admin', 'manager1', 'qc']),
   uploadQAMachineFiles.fields([
     { name: 'images', maxCount: 10 },
@@ -58,6 +56,7 @@ router.post(
 // Get QC machine entry by ID - allow admin, manager1, qc, sub-admin
 router.get(
   '/:id',
+  verifyJWT,
   AuthRole(['admin', 'manager1', 'qc', 'sub-admin']),
   checkPermission([ActionType.VIEW_QC_ENTRY]),
   validateParams(qaMachineEntryIdParamSchema),
@@ -67,6 +66,7 @@ router.get(
 // Update QC machine entry - restrict to admin only
 router.put(
   '/:id',
+  verifyJWT,
   AuthRole('admin'),
   uploadQAMachineFiles.fields([
     { name: 'images', maxCount: 10 },
@@ -85,6 +85,7 @@ router.put(
 // Delete QC machine entry - restrict to admin only
 router.delete(
   '/:id',
+  verifyJWT,
   AuthRole('admin'),
   checkPermission([ActionType.DELETE_QC_ENTRY]),
   validateParams(qaMachineEntryIdParamSchema),
@@ -94,6 +95,7 @@ router.delete(
 // Get QC entries by machine ID - allow admin, manager1, qc, sub-admin
 router.get(
   '/machine/:machineId',
+  verifyJWT,
   AuthRole(['admin', 'manager1', 'qc', 'sub-admin']),
   checkPermission([ActionType.VIEW_QC_ENTRY]),
   validateParams(machineIdParamSchema),
@@ -103,6 +105,7 @@ router.get(
 // Get QC entries by user ID - allow admin, manager1, qc, sub-admin
 router.get(
   '/user/:userId',
+  verifyJWT,
   AuthRole(['admin', 'manager1', 'qc', 'sub-admin']),
   checkPermission([ActionType.VIEW_QC_ENTRY]),
   validateParams(userIdParamSchema),
@@ -112,6 +115,7 @@ router.get(
 // Validate multiple QC entry IDs - allow admin, manager1, qc, sub-admin
 router.post(
   '/validate-ids',
+  verifyJWT,
   AuthRole(['admin', 'manager1', 'qc', 'sub-admin']),
   checkPermission([ActionType.VIEW_QC_ENTRY]),
   validateRequest(validateQAMachineEntryIdsSchema),
@@ -13,21 +13,29 @@ import { verifyJWT } from '../middlewares/auth.middleware';
 import {
   uploadMachineDocuments,
   handleFileUploadError,
+  cleanupUploadedFiles,
 } from '../middlewares/multer.middleware';
-import { checkPermission } from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
+import {
+  checkPermission,
+  requireApiKeyScope,
+} from '../modules/admin/permissionConfig/middlewares/permissionConfig.validation.middleware';
 import { ActionType } from '../models/permissionConfig.model';
+import SOPermissionMiddleware from '../modules/so/middlewares/so.permission.middleware';
 
 const router = Router();
 
 // Create SO with documents - Requires authentication
+// Permission is checked after parsing so value-based rules see the items.
+// The uploaded files are removed when validation or the permission check fails
 router.post(
   '/',
   verifyJWT,
-  checkPermission([ActionType.CREATE_SO]),
   uploadMachineDocuments.fields([{ name: 'documents', maxCount: 10 }]),
   handleFileUploadError,
   parseJsonFields(['items']),
   validateRequest(createSOSchema),
+  checkPermission([ActionType.CREATE_SO], SOPermissionMiddleware.createContext),
+  cleanupUploadedFiles,
   SOController.createSO,
 );
 
@@ -40,7 +48,12 @@ router.get(
 );
 
 // Get active SOs only (for dropdown) - Requires authentication
-router.get('/active', verifyJWT, SOController.getActiveSOs);
+router.get(
+  '/active',
+  verifyJWT,
+  requireApiKeyScope([ActionType.VIEW_SO]),
+  SOController.getActiveSOs,
+);
 
 // Get SO by ID - Requires authentication
 router.get(
@@ -51,14 +64,16 @@ router.get(
 );
 
 // Update SO with optional new documents - Requires authentication
+// The uploaded files are removed when validation or the permission check fails
 router.put(
   '/:id',
   verifyJWT,
-  checkPermission([ActionType.EDIT_SO]),
   uploadMachineDocuments.fields([{ name: 'documents', maxCount: 10 }]),
   handleFileUploadError,
   parseJsonFields(['items', 'removedDocuments']),
   validateRequest(updateSOSchema),
+  checkPermission([ActionType.EDIT_SO], SOPermissionMiddleware.updateSOContext),
+  cleanupUploadedFiles,
   SOController.updateSO,
 );
 
@@ -66,7 +81,10 @@ router.put(
 router.delete(
   '/:id',
   verifyJWT,
-  checkPermission([ActionType.DELETE_SO]),
+  checkPermission(
+    [ActionType.DELETE_SO],
+    SOPermissionMiddleware.existingSOContext,
+  ),
   SOController.deleteSO,
 );
 
@@ -74,7 +92,10 @@ router.delete(
 router.patch(
   '/:id/activate',
   verifyJWT,
-  checkPermission([ActionType.UPDATE_SO]),
+  checkPermission(
+    [ActionType.UPDATE_SO],
+    SOPermissionMiddleware.existingSOContext,
+  ),
   SOController.activateSO,
 );
 
@@ -82,7 +103,10 @@ router.patch(
 router.patch(
   '/:id/deactivate',
   verifyJWT,
-  checkPermission([ActionType.UPDATE_SO]),
+  checkPermission(
+    [ActionType.UPDATE_SO],
+    SOPermissionMiddleware.existingSOContext,
+  ),
   SOController.deactivateSO,
 );
 
@@ -23,7 +23,7 @@ router.get(
 
 // Get SO approval request by ID - Requires authentication
 router.get('/:id', verifyJWT, SOApprovalController.getApprovalById);
-
+// Process SO approval decision (approve/reject) - Requires authentication; admins, stage approvers and their delegates
 // Process SO approval decision (approve/reject) - Requires authentication and admin role
 router.patch(
   '/:id/process',
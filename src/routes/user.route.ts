@@ -1,24 +1,55 @@
 import { Router } from 'express';
 import {
+  acceptInvitationSchema,
+  apiKeyParamSchema,
+  changePasswordSchema,
+  createApiKeySchema,
+  createDelegationSchema,
+  createInvitationSchema,
+  createServiceAccountSchema,
+  forgotPasswordSchema,
+  impersonationQuerySchema,
+  invitationQuerySchema,
   loginUserSchema,
+  resendInvitationSchema,
+  resetPasswordSchema,
+  sessionQuerySchema,
+  startImpersonationSchema,
+  transferOwnershipSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
   registerUserSchema,
   userIdParamSchema,
+  updateProfileSchema,
   updateUserSchema,
+  userStatusChangeSchema,
 } from '../modules/user/user.validator';
 import {
   validateParams,
+  validateQuery,
   validateRequest,
 } from '../middlewares/validateRequest';
 import UserController from '../modules/user/user.controller';
+import InvitationController from '../modules/user/invitation.controller';
+import ApiKeyController from '../modules/user/apiKey.controller';
+import ImpersonationController from '../modules/user/impersonation.controller';
+import ApprovalDelegationController from '../modules/user/approvalDelegation.controller';
 import { verifyJWT } from '../middlewares/auth.middleware';
 import { AuthRole } from '../middlewares/auth-role.middleware';
+import { requirePermission } from '../middlewares/require-permission.middleware';
+import { ActionType } from '../models/permissionConfig.model';
+import {
+  handleFileUploadError,
+  uploadImportFile,
+} from '../middlewares/multer.middleware';
 const router = Router();
 
-// Create user - Admin only (used by Admin UI)
+// Create user - CREATE_USER permission (used by Admin UI)
 router.post(
   '/',
   verifyJWT,
-  AuthRole('admin'),
+  requirePermission(ActionType.CREATE_USER),
   validateRequest(registerUserSchema),
   UserController.registerUser,
 );
@@ -35,57 +66,319 @@ router.post(
   validateRequest(loginUserSchema),
   UserController.loginUser,
 );
+// Two-factor login step (challenge token from /login)
+router.post(
+  '/login/2fa',
+  validateRequest(twoFactorLoginSchema),
+  UserController.verifyTwoFactorLogin,
+);
+router.post(
+  '/login/2fa/setup',
+  validateRequest(twoFactorChallengeSchema),
+  UserController.startTwoFactorSetup,
+);
+
+// Two-factor management for the current user
+router.post('/2fa/enroll', verifyJWT, UserController.enrollTwoFactor);
+router.post(
+  '/2fa/verify',
+  verifyJWT,
+  validateRequest(twoFactorCodeSchema),
+  UserController.confirmTwoFactor,
+);
+router.post(
+  '/2fa/recovery-codes',
+  verifyJWT,
+  validateRequest(twoFactorCodeSchema),
+  UserController.regenerateRecoveryCodes,
+);
+router.post(
+  '/2fa/disable',
+  verifyJWT,
+  validateRequest(twoFactorCodeSchema),
+  UserController.disableTwoFactor,
+);
+
 // Token refresh endpoint expected by frontend
 router.post('/refresh', UserController.getAccessToken);
 router.post('/logout', UserController.logoutUser);
+
+// Password reset - request a reset email, then set a new password
+router.post(
+  '/forgot-password',
+  validateRequest(forgotPasswordSchema),
+  UserController.forgotPassword,
+);
+router.post(
+  '/reset-password',
+  validateRequest(resetPasswordSchema),
+  UserController.resetPassword,
+);
+
+// Self-service profile and password for the current user
+router.get('/me', verifyJWT, UserController.getMe);
+router.patch(
+  '/me',
+  verifyJWT,
+  validateRequest(updateProfileSchema),
+  UserController.updateMe,
+);
+router.post(
+  '/me/password',
+  verifyJWT,
+  validateRequest(changePasswordSchema),
+  UserController.changeMyPassword,
+);
 router.patch(
   '/:id/approve',
   verifyJWT,
-  AuthRole('admin'),
+  requirePermission(ActionType.APPROVE_USER),
 
   UserController.approveUser,
 );
 
-// Get user statistics - Admin/Manager only
+// Account status - MANAGE_USER_ACCOUNT permission
+router.patch(
+  '/:id/suspend',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  validateRequest(userStatusChangeSchema),
+  UserController.suspendUser,
+);
+router.patch(
+  '/:id/deactivate',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  validateRequest(userStatusChangeSchema),
+  UserController.deactivateUser,
+);
+router.patch(
+  '/:id/reactivate',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  UserController.reactivateUser,
+);
+
+// Transfer open machines, SOs, QC entries and approvals - MANAGE_USER_ACCOUNT permission
+router.post(
+  '/:id/transfer-ownership',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  validateRequest(transferOwnershipSchema),
+  UserController.transferOwnership,
+);
+
+// Reset two-factor authentication - MANAGE_USER_ACCOUNT permission
+router.patch(
+  '/:id/2fa/reset',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  UserController.resetTwoFactor,
+);
+
+// Unlock account after failed login lockout - MANAGE_USER_ACCOUNT permission
+router.patch(
+  '/:id/unlock',
+  verifyJWT,
+  requirePermission(ActionType.MANAGE_USER_ACCOUNT),
+  validateParams(userIdParamSchema),
+  UserController.unlockUser,
+);
+
+// Bulk import users from .xlsx/.csv (?dryRun=true to validate only) - CREATE_USER permission
+router.post(
+  '/import',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_USER),
+  uploadImportFile.single('file'),
+  handleFileUploadError,
+  UserController.importUsers,
+);
+
+// Invitations - CREATE_USER creates, resends and revokes, VIEW_USER lists;
+// invitee accepts
+router.post(
+  '/invitations/accept',
+  validateRequest(acceptInvitationSchema),
+  InvitationController.acceptInvitation,
+);
+router.post(
+  '/invitations',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_USER),
+  validateRequest(createInvitationSchema),
+  InvitationController.createInvitation,
+);
+router.get(
+  '/invitations',
+  verifyJWT,
+  requirePermission(ActionType.VIEW_USER),
+  validateQuery(invitationQuerySchema),
+  InvitationController.getInvitations,
+);
+router.post(
+  '/invitations/:id/resend',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_USER),
+  validateParams(userIdParamSchema),
+  validateRequest(resendInvitationSchema),
+  InvitationController.resendInvitation,
+);
+router.delete(
+  '/invitations/:id',
+  verifyJWT,
+  requirePermission(ActionType.CREATE_USER),
+  validateParams(userIdParamSchema),
+  InvitationController.revokeInvitation,
+);
+
+// Service accounts and their API keys - Admin only
+router.post(
+  '/service-accounts',
+  verifyJWT,
+  AuthRole('admin'),
+  validateRequest(createServiceAccountSchema),
+  ApiKeyController.createServiceAccount,
+);
+router.get(
+  '/service-accounts',
+  verifyJWT,
+  AuthRole('admin'),
+  ApiKeyController.getServiceAccounts,
+);
+router.post(
+  '/service-accounts/:id/keys',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(userIdParamSchema),
+  validateRequest(createApiKeySchema),
+  ApiKeyController.createApiKey,
+);
+router.get(
+  '/service-accounts/:id/keys',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(userIdParamSchema),
+  ApiKeyController.getApiKeys,
+);
+router.delete(
+  '/service-accounts/:id/keys/:keyId',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(apiKeyParamSchema),
+  ApiKeyController.revokeApiKey,
+);
+
+// Impersonation ("view as user") with audit trail - Admin only
+router.post(
+  '/:id/impersonate',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(userIdParamSchema),
+  validateRequest(startImpersonationSchema),
+  ImpersonationController.startImpersonation,
+);
+router.get(
+  '/impersonations',
+  verifyJWT,
+  AuthRole('admin'),
+  validateQuery(impersonationQuerySchema),
+  ImpersonationController.getImpersonations,
+);
+router.get(
+  '/impersonations/:id/audit-log',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(userIdParamSchema),
+  ImpersonationController.getAuditLog,
+);
+router.post(
+  '/impersonations/:id/end',
+  verifyJWT,
+  AuthRole('admin'),
+  validateParams(userIdParamSchema),
+  ImpersonationController.endImpersonation,
+);
+
+// Sessions (signed-in devices) - own sessions, admins may manage any
+router.get(
+  '/sessions',
+  verifyJWT,
+  validateQuery(sessionQuerySchema),
+  UserController.getSessions,
+);
+router.delete(
+  '/sessions/:id',
+  verifyJWT,
+  validateParams(userIdParamSchema),
+  UserController.revokeSession,
+);
+
+// Approval delegations (e.g. during leave) - own delegations, admins may
+// revoke any
+router.post(
+  '/delegations',
+  verifyJWT,
+  validateRequest(createDelegationSchema),
+  ApprovalDelegationController.createDelegation,
+);
+router.get(
+  '/delegations',
+  verifyJWT,
+  ApprovalDelegationController.getDelegations,
+);
+router.delete(
+  '/delegations/:id',
+  verifyJWT,
+  validateParams(userIdParamSchema),
+  ApprovalDelegationController.revokeDelegation,
+);
+
+// Get user statistics - VIEW_USER permission
 router.get(
   '/statistics',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
+  requirePermission(ActionType.VIEW_USER),
   UserController.getUserStatistics,
 );
 
-// Get single user - Admin/Manager only
+// Get single user - VIEW_USER permission
 router.get(
   '/:id',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
+  requirePermission(ActionType.VIEW_USER),
   validateParams(userIdParamSchema),
   UserController.getUserById,
 );
 
-// Get all users with pagination - Admin/Manager only
+// Get all users with pagination - VIEW_USER permission
 router.get(
   '/',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
+  requirePermission(ActionType.VIEW_USER),
   UserController.getAllUsers,
 );
 
-// Update user - Admin/Manager only
+// Update user - EDIT_USER permission
 router.put(
   '/:id',
   verifyJWT,
-  AuthRole(['admin', 'manager']),
+  requirePermission(ActionType.EDIT_USER),
   validateParams(userIdParamSchema),
   validateRequest(updateUserSchema),
   UserController.updateUser,
 );
 
-// Delete user - Admin only
+// Delete user (soft delete) - DELETE_USER permission
 router.delete(
   '/:id',
   verifyJWT,
-  AuthRole('admin'),
+  requirePermission(ActionType.DELETE_USER),
   validateParams(userIdParamSchema),
   UserController.deleteUser,
 );
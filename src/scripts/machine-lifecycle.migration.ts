@@ -0,0 +1,122 @@
+import mongoose from 'mongoose';
+import { Machine, MachineLifecycleState } from '../models/machine.model';
+import { QCApproval, QCApprovalStatus } from '../models/qcApproval.model';
+
+/**
+ * Migration script to set lifecycle_state on machines created before
+ * lifecycle tracking, from their dispatch date, QC approvals and approval
+ * status
+ */
+class MachineLifecycleMigration {
+  static async backfillLifecycleStates(dryRun = false): Promise<void> {
+    console.log(
+      `🔄 Starting machine lifecycle migration${dryRun ? ' (preview)' : ''}...`,
+    );
+
+    const machines = await Machine.find({
+      deletedAt: { $exists: true },
+      lifecycle_state: { $exists: false },
+    })
+      .select('machine_sequence is_approved dispatch_date createdAt')
+      .lean();
+    const qcPassedIds = new Set(
+      (
+        await QCApproval.distinct('machineId', {
+          status: QCApprovalStatus.APPROVED,
+        })
+      ).map((id) => String(id)),
+    );
+
+    const now = new Date();
+    const counts: Partial<Record<MachineLifecycleState, number>> = {};
+    for (const machine of machines) {
+      const state =
+        machine.dispatch_date && machine.dispatch_date <= now
+          ? MachineLifecycleState.DISPATCHED
+          : qcPassedIds.has(String(machine._id))
+            ? MachineLifecycleState.QC_PASSED
+            : machine.is_approved
+              ? MachineLifecycleState.APPROVED
+              : MachineLifecycleState.PENDING_APPROVAL;
+
+      console.log(
+        `📝 Machine ${machine.machine_sequence || machine._id}: ${state}`,
+      );
+      if (!dryRun) {
+        await Machine.updateOne(
+          { _id: machine._id },
+          {
+            $set: {
+              lifecycle_state: state,
+              lifecycle_history: [
+                {
+                  from: null,
+                  to: state,
+                  changed_by: null,
+                  changed_at: machine.createdAt || now,
+                  notes: 'Set from existing machine data',
+                },
+              ],
+            },
+          },
+        );
+      }
+      counts[state] = (counts[state] || 0) + 1;
+    }
+
+    console.log('\n📊 Summary:');
+    Object.entries(counts).forEach(([state, count]) => {
+      console.log(`   ${state}: ${count}`);
+    });
+    console.log(
+      `   ${dryRun ? 'Would update' : 'Updated'}: ${machines.length} machines`,
+    );
+  }
+}
+
+/**
+ * CLI interface for running the migration
+ */
+if (require.main === module) {
+  const command = process.argv[2];
+
+  const runMigration = async () => {
+    try {
+      // Connect to MongoDB
+      const mongoUri =
+        process.env['MONGODB_URI'] || 'mongodb://localhost:27017/fluidpack';
+      await mongoose.connect(mongoUri);
+
+      console.log('✅ Connected to MongoDB\n');
+
+      switch (command) {
+        case 'migrate':
+          await MachineLifecycleMigration.backfillLifecycleStates();
+          break;
+        case 'preview':
+          await MachineLifecycleMigration.backfillLifecycleStates(true);
+          break;
+        default:
+          console.log(
+            'Usage: ts-node src/scripts/machine-lifecycle.migration.ts [migrate|preview]',
+          );
+          console.log('\nCommands:');
+          console.log('  preview  - Preview changes without updating');
+          console.log('  migrate  - Set lifecycle_state on existing machines');
+          process.exit(1);
+      }
+
+      await mongoose.disconnect();
+      console.log('\n✅ Disconnected from MongoDB');
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Migration failed:', error);
+      await mongoose.disconnect();
+      process.exit(1);
+    }
+  };
+
+  runMigration();
+}
+
+export { MachineLifecycleMigration };
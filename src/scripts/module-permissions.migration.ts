@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import { Role } from '../models/role.model';
+import { User } from '../models/user.model';
+import {
+  PermissionConfig,
+  ActionType,
+  PermissionLevel,
+} from '../models/permissionConfig.model';
+import PermissionConfigService from '../modules/admin/permissionConfig/services/permissionConfig.service';
+
+/**
+ * Rules that keep the access the user routes granted by role name before
+ * they were switched to PermissionConfig checks (managers could view and
+ * update users). Everything else that was admin-only stays admin-only.
+ */
+const PRESERVED_RULES = [
+  {
+    name: 'Manager view users',
+    description: 'Allow managers to list and view users',
+    action: ActionType.VIEW_USER,
+    roleName: 'manager',
+  },
+  {
+    name: 'Manager edit users',
+    description: 'Allow managers to update users',
+    action: ActionType.EDIT_USER,
+    roleName: 'manager',
+  },
+];
+
+/**
+ * Migration script to create permission rules for the category, user,
+ * department/role, export and notification actions
+ */
+class ModulePermissionsMigration {
+  static async createPreservedRules(dryRun = false): Promise<void> {
+    console.log(
+      `🔄 Starting module permissions migration${dryRun ? ' (preview)' : ''}...`,
+    );
+
+    const adminRole = await Role.findOne({ name: 'admin' }).select('_id');
+    const adminUser = adminRole
+      ? await User.findOne({ role: adminRole._id }).select('_id').lean()
+      : null;
+    if (!adminUser && !dryRun) {
+      throw new Error('No admin user found to record as rule creator');
+    }
+
+    let createdCount = 0;
+    for (const rule of PRESERVED_RULES) {
+      const role = await Role.findOne({ name: rule.roleName }).select('_id');
+      if (!role) {
+        console.log(`⏭️  ${rule.name}: role "${rule.roleName}" not found`);
+        continue;
+      }
+      if (
+        await PermissionConfig.exists({
+          action: rule.action,
+          roleIds: role._id,
+        })
+      ) {
+        console.log(`✅ ${rule.name}: a ${rule.action} rule already exists`);
+        continue;
+      }
+
+      console.log(`📝 ${rule.name}: ${rule.action} for ${rule.roleName}`);
+      if (!dryRun) {
+        await PermissionConfigService.create({
+          name: rule.name,
+          description: rule.description,
+          action: rule.action,
+          roleIds: [String(role._id)],
+          permission: PermissionLevel.ALLOWED,
+          priority: 50,
+          createdBy: adminUser!._id.toString(),
+        });
+      }
+      createdCount++;
+    }
+
+    console.log('\n📊 Summary:');
+    console.log(
+      `   ${dryRun ? 'Would create' : 'Created'}: ${createdCount} rules`,
+    );
+  }
+}
+
+/**
+ * CLI interface for running the migration
+ */
+if (require.main === module) {
+  const command = process.argv[2];
+
+  const runMigration = async () => {
+    try {
+      // Connect to MongoDB
+      const mongoUri =
+        process.env['MONGODB_URI'] || 'mongodb://localhost:27017/fluidpack';
+      await mongoose.connect(mongoUri);
+
+      console.log('✅ Connected to MongoDB\n');
+
+      switch (command) {
+        case 'migrate':
+          await ModulePermissionsMigration.createPreservedRules();
+          break;
+        case 'preview':
+          await ModulePermissionsMigration.createPreservedRules(true);
+          break;
+        default:
+          console.log(
+            'Usage: ts-node src/scripts/module-permissions.migration.ts [migrate|preview]',
+          );
+          console.log('\nCommands:');
+          console.log('  preview  - Preview rules without creating them');
+          console.log('  migrate  - Create the rules');
+          process.exit(1);
+      }
+
+      await mongoose.disconnect();
+      console.log('\n✅ Disconnected from MongoDB');
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Migration failed:', error);
+      await mongoose.disconnect();
+      process.exit(1);
+    }
+  };
+
+  runMigration();
+}
+
+export { ModulePermissionsMigration };
@@ -1,20 +1,10 @@
-export type Action =
-  | 'CREATE_MACHINE'
-  | 'EDIT_MACHINE'
-  | 'DELETE_MACHINE'
-  | 'APPROVE_MACHINE'
-  | 'VIEW_MACHINE'
-  | 'CREATE_QC_ENTRY'
-  | 'EDIT_QC_ENTRY'
-  | 'DELETE_QC_ENTRY'
-  | 'VIEW_QC_ENTRY'
-  | 'CREATE_QC_APPROVAL'
-  | 'EDIT_QC_APPROVAL'
-  | 'DELETE_QC_APPROVAL'
-  | 'VIEW_QC_APPROVAL'
-  | 'APPROVE_QC_APPROVAL'
-  | 'ACTIVATE_MACHINE'
-  | 'VIEW_SO';
+import {
+  ActionType,
+  IPermissionSchedule,
+} from '../models/permissionConfig.model';
+
+// Action names match the ActionType values
+export type Action = `${ActionType}`;
 
 export type Permission = 'ALLOWED' | 'REQUIRES_APPROVAL' | 'DENIED';
 
@@ -37,8 +27,16 @@ export interface Policy {
     maxValue?: number;
     useDepartmentApprovers?: boolean;
     approverRoles?: string[];
+    approvalChain?: Array<{
+      name: string;
+      approverRoles: string[];
+      requireAll?: boolean;
+    }>;
     priority: number;
     isActive?: boolean;
+    validFrom?: string; // ISO date
+    validUntil?: string; // ISO date
+    schedule?: IPermissionSchedule;
   }>;
   overrides?: Array<{
     type: 'user-allow' | 'user-deny';
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { SO, calculateOrderValue } from '../models/so.model';
+
+/**
+ * Migration script to fill order_value (sum of item totals) on existing SOs,
+ * so value-based permission rules (maxValue) apply to them
+ */
+class SOOrderValueMigration {
+  /**
+   * Recalculate order_value for every SO, including deleted ones
+   */
+  static async backfillOrderValues(dryRun = false): Promise<void> {
+    console.log(
+      `🔄 Starting SO order value migration${dryRun ? ' (preview)' : ''}...`,
+    );
+
+    const sos = await SO.find({ deletedAt: { $exists: true } })
+      .select('so_number items order_value')
+      .lean();
+
+    let updatedCount = 0;
+    for (const so of sos) {
+      const orderValue = calculateOrderValue(so.items);
+      if (so.order_value === orderValue) continue;
+
+      console.log(
+        `📝 SO ${so.so_number}: ${so.order_value ?? 'unset'} -> ${orderValue}`,
+      );
+      if (!dryRun) {
+        await SO.updateOne(
+          { _id: so._id },
+          { $set: { order_value: orderValue } },
+        );
+      }
+      updatedCount++;
+    }
+
+    console.log('\n📊 Summary:');
+    console.log(
+      `   ${dryRun ? 'Would update' : 'Updated'}: ${updatedCount} SOs`,
+    );
+    console.log(`   Total: ${sos.length} SOs`);
+  }
+}
+
+/**
+ * CLI interface for running the migration
+ */
+if (require.main === module) {
+  const command = process.argv[2];
+
+  const runMigration = async () => {
+    try {
+      // Connect to MongoDB
+      const mongoUri =
+        process.env['MONGODB_URI'] || 'mongodb://localhost:27017/fluidpack';
+      await mongoose.connect(mongoUri);
+
+      console.log('✅ Connected to MongoDB\n');
+
+      switch (command) {
+        case 'migrate':
+          await SOOrderValueMigration.backfillOrderValues();
+          break;
+        case 'preview':
+          await SOOrderValueMigration.backfillOrderValues(true);
+          break;
+        default:
+          console.log(
+            'Usage: ts-node src/scripts/so-order-value.migration.ts [migrate|preview]',
+          );
+          console.log('\nCommands:');
+          console.log('  preview  - Preview changes without updating');
+          console.log('  migrate  - Fill order_value on all SOs');
+          process.exit(1);
+      }
+
+      await mongoose.disconnect();
+      console.log('\n✅ Disconnected from MongoDB');
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Migration failed:', error);
+      await mongoose.disconnect();
+      process.exit(1);
+    }
+  };
+
+  runMigration();
+}
+
+export { SOOrderValueMigration };
@@ -17,6 +17,25 @@ export function encryptString(text: string): string {
   return iv.toString('hex') + ':' + encrypted;
 }
 
+/**
+ * Decrypt a string produced by encryptString
+ */
+export function decryptString(payload: string): string {
+  const [ivHex, encrypted] = payload.split(':');
+  if (!ivHex || !encrypted) {
+    throw new Error('Invalid encrypted payload');
+  }
+  const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(ivHex, 'hex'),
+  );
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+  return decrypted;
+}
+
 /**
  * Encrypt an object by converting to JSON and encrypting
  */
@@ -34,3 +53,10 @@ export function hmacDeterministic(input: string): string {
     .update(input)
     .digest('hex');
 }
+
+/**
+ * Hash an opaque token (reset links, refresh tokens) for storage and lookup
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,61 @@
+// Password strength policy for passwords chosen by users
+
+// Frequently used passwords rejected regardless of complexity
+const COMMON_PASSWORDS = new Set([
+  'password',
+  'password1',
+  'password123',
+  'passw0rd',
+  'welcome1',
+  'welcome123',
+  'qwerty123',
+  'letmein1',
+  'admin123',
+  'abc12345',
+  'changeme1',
+  'iloveyou1',
+  '12345678',
+  '123456789',
+]);
+
+/**
+ * Validate a password against the strength policy.
+ * Returns a list of violations (empty when the password is acceptable).
+ */
+export function checkPasswordStrength(
+  password: string,
+  context: { username?: string; email?: string } = {},
+): string[] {
+  const minLength = parseInt(process.env['PASSWORD_MIN_LENGTH'] || '8', 10);
+  const errors: string[] = [];
+
+  if (password.length < minLength) {
+    errors.push(`Password must be at least ${minLength} characters long.`);
+  }
+  if (!/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter.');
+  }
+  if (!/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter.');
+  }
+  if (!/\d/.test(password)) {
+    errors.push('Password must contain at least one digit.');
+  }
+  if (!/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain at least one special character.');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push('Password is too common.');
+  }
+
+  const lowered = password.toLowerCase();
+  const personalValues = [
+    context.username,
+    context.email?.split('@')[0],
+  ].filter((value): value is string => !!value && value.length >= 3);
+  if (personalValues.some((value) => lowered.includes(value.toLowerCase()))) {
+    errors.push('Password must not contain your username or email.');
+  }
+
+  return errors;
+}
@@ -0,0 +1,108 @@
+// Spreadsheet parsing helpers for bulk imports (.xlsx and .csv)
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { Readable } from 'stream';
+
+export interface SpreadsheetRow {
+  rowNumber: number; // 1-based row number in the sheet, for error reports
+  values: Record<string, string>; // Keyed by normalized header
+}
+
+/**
+ * Normalize a header for matching: "Machine Sequence" -> "machinesequence"
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read cell text, unwrapping rich text, hyperlinks and formula results
+ */
+function cellToString(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if ('result' in value && value.result !== undefined) {
+      return value.result instanceof Date
+        ? value.result.toISOString()
+        : String(value.result).trim();
+    }
+    if ('text' in value && typeof value.text === 'string') {
+      return value.text.trim();
+    }
+    if ('richText' in value) {
+      return value.richText
+        .map((part) => part.text)
+        .join('')
+        .trim();
+    }
+  }
+  return cell.text.trim();
+}
+
+/**
+ * Parse the first worksheet of an .xlsx or .csv file.
+ * The header row is the first row containing every required header, so
+ * sheets produced by ExcelUtil (with a filter/sort banner on top) can be
+ * imported as-is.
+ */
+export async function readSpreadsheetRows(
+  buffer: Buffer,
+  fileName: string,
+  requiredHeaders: string[],
+): Promise<SpreadsheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  const ext = path.extname(fileName).toLowerCase();
+
+  let worksheet: ExcelJS.Worksheet | undefined;
+  if (ext === '.csv') {
+    worksheet = await workbook.csv.read(Readable.from(buffer));
+  } else {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    worksheet = workbook.worksheets[0];
+  }
+
+  if (!worksheet) {
+    throw new Error('The file does not contain any worksheet');
+  }
+
+  const required = requiredHeaders.map(normalizeHeader);
+  let headerMap: Map<number, string> | null = null;
+  const rows: SpreadsheetRow[] = [];
+
+  worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    if (!headerMap) {
+      const candidate = new Map<number, string>();
+      row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+        const header = normalizeHeader(cellToString(cell));
+        if (header) candidate.set(colNumber, header);
+      });
+      const headers = new Set(candidate.values());
+      if (required.every((header) => headers.has(header))) {
+        headerMap = candidate;
+      }
+      return;
+    }
+
+    const values: Record<string, string> = {};
+    let hasValue = false;
+    headerMap.forEach((header, colNumber) => {
+      const text = cellToString(row.getCell(colNumber));
+      values[header] = text;
+      if (text) hasValue = true;
+    });
+
+    if (hasValue) {
+      rows.push({ rowNumber, values });
+    }
+  });
+
+  if (!headerMap) {
+    throw new Error(
+      `Header row not found. Expected columns: ${requiredHeaders.join(', ')}`,
+    );
+  }
+
+  return rows;
+}
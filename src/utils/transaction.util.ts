@@ -0,0 +1,41 @@
+// MongoDB transaction helpers for multi-document writes
+import mongoose, { ClientSession } from 'mongoose';
+
+/**
+ * Whether an error means the server does not support transactions
+ * (standalone MongoDB)
+ */
+export function isTransactionUnsupported(error: unknown): boolean {
+  const mongoError = error as { code?: number; message?: string };
+  return (
+    mongoError?.code === 20 ||
+    /Transaction numbers are only allowed/i.test(mongoError?.message || '')
+  );
+}
+
+/**
+ * Run writes in a transaction. Standalone servers do not support
+ * transactions; there the writes run without a session and `rollback`
+ * undoes them by hand if they fail. The write error is rethrown.
+ */
+export async function withTransactionFallback(
+  write: (session?: ClientSession) => Promise<void>,
+  rollback: () => Promise<void>,
+): Promise<void> {
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(() => write(session));
+    return;
+  } catch (error) {
+    if (!isTransactionUnsupported(error)) throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  try {
+    await write();
+  } catch (error) {
+    await rollback();
+    throw error;
+  }
+}